@@ -1,15 +1,63 @@
+import "dotenv/config";
 import postgres from "postgres";
 import Server from "./src/Server";
+import { Notifier } from "./src/reminders/Notifier";
+import ConsoleNotifier from "./src/reminders/ConsoleNotifier";
+import SmtpNotifier from "./src/reminders/SmtpNotifier";
 import { HttpResponse, makeHttpRequest } from "./tests/client";
 
 const sql = postgres({
 	database: "TodoDB",
 });
 
+/**
+ * Reminders are always logged, and also appended to REMINDER_FILE if it
+ * is set. They are emailed too when the SMTP settings are all set.
+ * @example SMTP_HOST=localhost SMTP_PORT=1025 REMINDER_EMAIL_FROM=todos@example.com REMINDER_EMAIL_TO=me@example.com,you@example.com
+ */
+const notifiers: Notifier[] = [
+	new ConsoleNotifier({ file: process.env.REMINDER_FILE }),
+];
+const { SMTP_HOST, SMTP_PORT, REMINDER_EMAIL_FROM, REMINDER_EMAIL_TO } =
+	process.env;
+
+if (SMTP_HOST && SMTP_PORT && REMINDER_EMAIL_FROM && REMINDER_EMAIL_TO) {
+	notifiers.push(
+		new SmtpNotifier({
+			host: SMTP_HOST,
+			port: Number(SMTP_PORT),
+			from: REMINDER_EMAIL_FROM,
+			to: REMINDER_EMAIL_TO.split(",").map((address) => address.trim()),
+		}),
+	);
+}
+
+/**
+ * Deleted todos stay in the trash for TRASH_RETENTION milliseconds, 30
+ * days unless it is set, and the trash is checked every TRASH_PURGE_INTERVAL.
+ * Request bodies may have up to MAX_BODY_SIZE bytes, 10 MiB unless it is
+ * set, and uploaded files are written to UPLOAD_DIR.
+ * @example TRASH_RETENTION=604800000 keeps them for a week
+ * @example MAX_BODY_SIZE=1048576 UPLOAD_DIR=/var/tmp/todo-uploads
+ */
 const server = new Server({
 	host: "localhost",
 	port: 3000,
 	sql,
+	reminders: {
+		notifiers,
+		interval: Number(process.env.REMINDER_INTERVAL) || undefined,
+		leadTime: Number(process.env.REMINDER_LEAD_TIME) || undefined,
+		timeZone: process.env.REMINDER_TIME_ZONE,
+	},
+	trash: {
+		retention: Number(process.env.TRASH_RETENTION) || undefined,
+		interval: Number(process.env.TRASH_PURGE_INTERVAL) || undefined,
+	},
+	body: {
+		maxSize: Number(process.env.MAX_BODY_SIZE) || undefined,
+		uploadDir: process.env.UPLOAD_DIR,
+	},
 });
 
 const main = async () => {
@@ -6,25 +6,134 @@ CREATE DATABASE "TodoDB";
 DROP TYPE IF EXISTS todo_status;
 CREATE TYPE todo_status AS ENUM ('incomplete', 'complete');
 
+-- Declared from least to most important, which is the order they sort in.
+DROP TYPE IF EXISTS todo_priority;
+CREATE TYPE todo_priority AS ENUM ('low', 'medium', 'high', 'urgent');
+
+-- Every date is a TIMESTAMPTZ, a moment in time that each person sees in their own time zone.
+-- A database made when dates were TIMESTAMP held the server's wall clock in them, and converts with
+-- ALTER TABLE todos ALTER COLUMN due_at TYPE TIMESTAMPTZ USING due_at AT TIME ZONE 'America/Toronto';
+-- for each date column, with the time zone of the server.
+DROP TABLE IF EXISTS projects;
+CREATE TABLE projects (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  edited_at TIMESTAMPTZ
+);
+
+-- Project names are unique regardless of case, the same way Project.readByName looks them up.
+CREATE UNIQUE INDEX projects_name_idx ON projects (LOWER(name));
+
 DROP TABLE IF EXISTS todos;
 CREATE TABLE todos (
   id SERIAL PRIMARY KEY,
   title VARCHAR(255) NOT NULL,
   description TEXT NOT NULL,
   status todo_status NOT NULL DEFAULT 'incomplete',
-  due_at TIMESTAMP,
-  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  completed_at TIMESTAMP,
-  edited_at TIMESTAMP
+  priority todo_priority NOT NULL DEFAULT 'medium',
+  due_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMPTZ,
+  edited_at TIMESTAMPTZ,
+  -- How the todo repeats, as a Recurrence (see src/recurrence.ts). NULL if it doesn't.
+  recurrence JSONB,
+  -- Deleting a project keeps its todos, outside of any project.
+  project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+  -- When the todo was moved to the trash. NULL if it isn't in the trash.
+  deleted_at TIMESTAMPTZ,
+  -- Goes up by one on every change, so that a client can tell whether the
+  -- todo changed since it read it. Sent as the ETag of the todo.
+  version INTEGER NOT NULL DEFAULT 1
 );
 
+CREATE INDEX todos_project_id_idx ON todos (project_id);
+
+-- Matches the default sort of the todo list.
+CREATE INDEX todos_priority_due_at_idx ON todos (priority DESC, due_at ASC NULLS LAST, id ASC);
+
 DROP TABLE IF EXISTS subtodos;
 CREATE TABLE subtodos (
   id SERIAL PRIMARY KEY,
   title VARCHAR(255) NOT NULL,
   status todo_status NOT NULL DEFAULT 'incomplete',
-  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  completed_at TIMESTAMP,
-  edited_at TIMESTAMP,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMPTZ,
+  edited_at TIMESTAMPTZ,
+  -- A subtodo goes to the trash on its own, or along with its todo.
+  deleted_at TIMESTAMPTZ,
+  -- Whether it went to the trash along with its todo, and so comes back with it.
+  -- Not told by deleted_at, since the two can be deleted in the same second.
+  deleted_with_todo BOOLEAN NOT NULL DEFAULT false,
+  -- Goes up by one on every change, like todos.version.
+  version INTEGER NOT NULL DEFAULT 1,
   todo_id INTEGER REFERENCES todos(id) ON DELETE CASCADE
 );
+
+-- Only the trash is looked up by when things were deleted, see TrashPurger.
+CREATE INDEX todos_deleted_at_idx ON todos (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX subtodos_deleted_at_idx ON subtodos (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- One row per reminder sent, so that each one is only sent once. See src/models/ReminderEvent.ts.
+DROP TABLE IF EXISTS reminder_events;
+CREATE TABLE reminder_events (
+  id SERIAL PRIMARY KEY,
+  todo_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('upcoming', 'overdue')),
+  due_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  sent_at TIMESTAMPTZ,
+  UNIQUE (todo_id, kind, due_at)
+);
+
+-- Every change to a todo or one of its subtodos, oldest first. See src/history.ts.
+DROP TABLE IF EXISTS todo_history;
+CREATE TABLE todo_history (
+  id SERIAL PRIMARY KEY,
+  todo_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+  -- Set when the change was to a subtodo. Not a reference, so that the history outlives the subtodo.
+  subtodo_id INTEGER,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'complete', 'delete', 'restore')),
+  -- The fields that changed, as { "title": { "from": "Old", "to": "New" } }.
+  changes JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX todo_history_todo_id_idx ON todo_history (todo_id, id);
+
+-- The history is append-only. Rows only go away with their todo when the trash is purged.
+CREATE OR REPLACE FUNCTION reject_history_update() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'todo_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER todo_history_append_only
+  BEFORE UPDATE ON todo_history
+  FOR EACH ROW EXECUTE FUNCTION reject_history_update();
+
+DROP TABLE IF EXISTS tags;
+CREATE TABLE tags (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(50) NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+DROP TABLE IF EXISTS todo_tags;
+CREATE TABLE todo_tags (
+  todo_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (todo_id, tag_id)
+);
+
+-- The primary key covers lookups by todo; this one covers filtering todos by tag.
+CREATE INDEX todo_tags_tag_id_idx ON todo_tags (tag_id);
+
+-- Full-text search indexes. Todo.search uses the same expressions so that the planner can use them.
+CREATE INDEX todos_search_idx ON todos USING GIN (
+  (setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', description), 'B'))
+);
+CREATE INDEX subtodos_search_idx ON subtodos USING GIN (
+  (setweight(to_tsvector('english', title), 'A'))
+);
@@ -1,23 +1,44 @@
 import http, { IncomingMessage, ServerResponse } from "http";
 import Request from "./router/Request";
 import Response, { StatusCode } from "./router/Response";
-import Router from "./router/Router";
+import Router, { Middleware } from "./router/Router";
 import TodoController from "./controllers/TodoController";
 import postgres from "postgres";
 import { TodoProps } from "./models/Todo";
-import fs from "fs/promises";
 import SubTodoController from "./controllers/SubTodoController";
+import TagController from "./controllers/TagController";
+import ProjectController from "./controllers/ProjectController";
+import { assignRequestId } from "./middleware/assignRequestId";
+import { logRequest } from "./middleware/logRequest";
+import { handleErrors } from "./middleware/handleErrors";
+import { requireMethodAndUrl } from "./middleware/requireMethodAndUrl";
+import { parseBody } from "./middleware/parseBody";
+import { BodyOptions } from "./router/body";
+import { loadProjects } from "./middleware/loadProjects";
+import { resolveTimeZone } from "./middleware/resolveTimeZone";
+import { resolveLocale } from "./middleware/resolveLocale";
+import { serveStatic } from "./middleware/serveStatic";
+import ReminderScheduler, {
+	ReminderSchedulerOptions,
+} from "./reminders/ReminderScheduler";
+import TrashPurger, { TrashPurgerOptions } from "./trash/TrashPurger";
 
 /**
  * Options for creating a new Server instance.
  * @property host The hostname of the server.
  * @property port The port number of the server.
  * @property sql The postgres connection object.
+ * @property reminders How to send reminders about due todos. No reminders are sent without it.
+ * @property trash How long to keep deleted todos and subtodos. The trash is never emptied without it.
+ * @property body How big a request body may be and where uploaded files go.
  */
 export interface ServerOptions {
 	host: string;
 	port: number;
 	sql: postgres.Sql;
+	reminders?: ReminderSchedulerOptions;
+	trash?: TrashPurgerOptions;
+	body?: BodyOptions;
 }
 
 /**
@@ -32,6 +53,10 @@ export default class Server {
 	private router: Router;
 	private todoController: TodoController;
 	private subtodoController: SubTodoController;
+	private tagController: TagController;
+	private projectController: ProjectController;
+	private reminderScheduler?: ReminderScheduler;
+	private trashPurger?: TrashPurger;
 
 	/**
 	 * Initializes a new Server instance. The server is not started until the `start` method is called.
@@ -43,11 +68,38 @@ export default class Server {
 		this.host = serverOptions.host;
 		this.port = serverOptions.port;
 
+		if (serverOptions.reminders) {
+			this.reminderScheduler = new ReminderScheduler(
+				this.sql,
+				serverOptions.reminders,
+			);
+		}
+
+		if (serverOptions.trash) {
+			this.trashPurger = new TrashPurger(this.sql, serverOptions.trash);
+		}
+
 		this.router = new Router();
+
+		// Global middleware runs for every request, in the order it is registered.
+		this.router.use(assignRequestId);
+		this.router.use(logRequest);
+		this.router.use(handleErrors);
+		this.router.use(requireMethodAndUrl);
+		this.router.use(serveStatic());
+		this.router.use(parseBody(serverOptions.body));
+		this.router.use(resolveTimeZone);
+		this.router.use(resolveLocale);
+		this.router.use(loadProjects(this.sql));
+
 		this.todoController = new TodoController(this.sql);
 		this.subtodoController = new SubTodoController(this.sql);
+		this.tagController = new TagController(this.sql);
+		this.projectController = new ProjectController(this.sql);
 		this.todoController.registerRoutes(this.router);
 		this.subtodoController.registerRoutes(this.router);
+		this.tagController.registerRoutes(this.router);
+		this.projectController.registerRoutes(this.router);
 
 		this.router.get("/", (req: Request, res: Response) => {
 			res.send({
@@ -78,96 +130,43 @@ export default class Server {
 		});
 	}
 
+	/**
+	 * Registers middleware that runs before every route handler. Anything
+	 * registered here runs after the built-in middleware (request IDs,
+	 * logging, error handling, static files, body parsing, time zones and locales).
+	 * @see Router.use
+	 * @example server.use("/todos", requireAuth);
+	 */
+	use(prefixOrMiddleware: string | Middleware, ...middleware: Middleware[]) {
+		this.router.use(prefixOrMiddleware, ...middleware);
+	}
+
 	/**
 	 * Every time a request is made to the server, this method is called.
-	 * It routes the request to the appropriate controller and sends the response back to the client.
+	 * It wraps the request and response in our custom classes and hands
+	 * them to the router, which runs the middleware chain and the
+	 * appropriate controller.
 	 * @param req The request object.
 	 * @param res The response object.
 	 */
 	handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
-		console.log(`>>> ${req.method} ${req.url}`);
-
 		// Create a new Request and Response object for the current request using our custom classes.
 		const request = new Request(req);
 		const response = new Response(request, res);
 
-		if (!req.method) {
-			response.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid request method",
-			});
-			return;
-		}
-
-		if (!req.url) {
-			response.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid request URL",
-			});
-			return;
-		}
-
-		if (req.url?.match(/.*\..*/)) {
-			await this.serveStaticFile(req.url, res);
-			return;
-		}
-
-		// Parse the request body and extract the incoming data.
-		// This is only done for POST and PUT requests because they
-		// normally data in their body whereas GET and DELETE requests do not.
-		if (req.method === "POST" || req.method === "PUT") {
-			await request.parseBody();
-		}
-
-		// Find the appropriate handler for the current request.
-		const handler = this.router.findMatchingHandler(
-			request.getMethod(),
-			req.url,
-		);
-
-		// If no handler is found, send a 404 Not Found response.
-		if (!handler) {
-			response.send({
-				statusCode: StatusCode.NotFound,
-				message: `Invalid route: ${req.method} ${req.url}`,
-			});
-
-			return;
-		}
-
-		// If a handler is found, call it with the request and response objects.
-		try {
-			await handler(request, response);
-		} catch (error) {
-			const message = `Error while handling request: ${error}`;
-			console.error(message);
-			response.send({
-				statusCode: StatusCode.InternalServerError,
-				message,
-			});
-		}
-	};
-
-	/**
-	 * A static file is a file that the client requests for
-	 * directly. This is anything with a valid file extension.
-	 * Within the context of the web, this is usually .html,
-	 * .css, .js, and any image/video/audio file types.
-	 */
-	serveStaticFile = async (url: string, res: ServerResponse) => {
-		const filePath = `.${url}`;
-		const file = await fs.readFile(filePath);
-
-		res.end(file);
-		return;
+		await this.router.handle(request, response);
 	};
 
 	/**
-	 * Starts the server and listens for incoming requests.
+	 * Starts the server and listens for incoming requests. Starts sending
+	 * reminders and emptying the trash too, if the server was given the
+	 * options for them.
 	 */
 	start = async () => {
 		this.server.on("request", this.handleRequest);
 		await this.server.listen(this.port);
+		this.reminderScheduler?.start();
+		this.trashPurger?.start();
 		console.log(`Server running at http://${this.host}:${this.port}/.`);
 	};
 
@@ -175,6 +174,8 @@ export default class Server {
 	 * Stops the server and closes the database connection.
 	 */
 	stop = async () => {
+		await this.reminderScheduler?.stop();
+		await this.trashPurger?.stop();
 		await this.sql.end();
 		await this.server.close();
 		console.log(`Server stopped.`);
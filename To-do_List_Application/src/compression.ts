@@ -0,0 +1,147 @@
+import { promisify } from "util";
+import zlib from "zlib";
+import { Transform } from "stream";
+
+/**
+ * The content codings we can compress with, best first. Brotli makes the
+ * smallest bodies, and deflate is only there for old clients.
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-8.4.1
+ */
+export const encodings = ["br", "gzip", "deflate"] as const;
+
+export type Encoding = (typeof encodings)[number];
+
+/**
+ * The extensions of the precompressed copies of a static file that are
+ * sent instead of it, such as `style.css.br` for `style.css`.
+ */
+export const precompressedExtensions: Partial<Record<Encoding, string>> = {
+	br: ".br",
+	gzip: ".gz",
+};
+
+/**
+ * Bodies smaller than this many bytes are sent as they are. Below about
+ * a kilobyte, compressing saves less than it costs, and can even make
+ * the body bigger.
+ */
+export const COMPRESSION_THRESHOLD = 1024;
+
+/**
+ * Picks the content coding that the client prefers most out of the ones
+ * we have. A coding the client doesn't name gets the quality of `*`, and
+ * codings it likes equally are picked in the order of `encodings`.
+ * @param acceptEncoding The `Accept-Encoding` header of the request.
+ * @param available The codings to pick from, such as the precompressed copies there are.
+ * @returns The coding, or null to send the body as it is.
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-12.5.3
+ * @example "gzip, deflate, br" => "br"
+ * @example "gzip;q=1, br;q=0.5" => "gzip"
+ * @example "br;q=0, *" => "gzip"
+ */
+export const negotiateEncoding = (
+	acceptEncoding: string | string[] = "",
+	available: readonly Encoding[] = encodings,
+): Encoding | null => {
+	const qualities = new Map<string, number>();
+
+	for (const part of [acceptEncoding].flat().join(",").split(",")) {
+		const [coding, ...parameters] = part.trim().split(";");
+		const q = parameters
+			.map((parameter) => parameter.trim().match(/^q=([\d.]+)$/))
+			.find(Boolean);
+
+		if (coding.trim()) {
+			qualities.set(coding.trim().toLowerCase(), q ? Number(q[1]) : 1);
+		}
+	}
+
+	let best: Encoding | null = null;
+	let bestQuality = 0;
+
+	for (const encoding of available) {
+		const quality = qualities.get(encoding) ?? qualities.get("*") ?? 0;
+
+		if (quality > bestQuality) {
+			best = encoding;
+			bestQuality = quality;
+		}
+	}
+
+	return best;
+};
+
+/**
+ * @returns Whether bodies of the media type get smaller when compressed.
+ * Images other than SVG, fonts and the like are compressed already.
+ * @example "text/css; charset=utf-8" => true
+ * @example "image/png" => false
+ */
+export const isCompressible = (contentType = "") => {
+	const type = contentType.split(";")[0].trim().toLowerCase();
+
+	return (
+		type.startsWith("text/") ||
+		type === "application/json" ||
+		type === "image/svg+xml" ||
+		type === "image/x-icon"
+	);
+};
+
+/**
+ * Compresses a whole body at once, for bodies that are already in memory.
+ */
+export const compress = (body: string | Buffer, encoding: Encoding) => {
+	switch (encoding) {
+		case "br":
+			return brotliCompress(body, brotliOptions);
+		case "gzip":
+			return gzip(body);
+		case "deflate":
+			return deflate(body);
+	}
+};
+
+/**
+ * @returns A stream that compresses what is piped through it, for files.
+ */
+export const createCompressor = (encoding: Encoding): Transform => {
+	switch (encoding) {
+		case "br":
+			return zlib.createBrotliCompress(brotliOptions);
+		case "gzip":
+			return zlib.createGzip();
+		case "deflate":
+			return zlib.createDeflate();
+	}
+};
+
+/**
+ * Marks a strong ETag with the coding of the body it was sent with, since
+ * the compressed bytes aren't the same as the ones they came from. Weak
+ * ETags don't promise the same bytes, so they are left as they are.
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-8.8.3.3
+ * @example ("\"3-2jmj7l5rSw0yVb_v\"", "gzip") => "\"3-2jmj7l5rSw0yVb_v-gzip\""
+ * @example ("W/\"2jmj7l5rSw0yVb_v\"", "gzip") => "W/\"2jmj7l5rSw0yVb_v\""
+ */
+export const withEncoding = (etag: string, encoding: Encoding | null) => {
+	return encoding && !etag.startsWith("W/")
+		? `${etag.slice(0, -1)}-${encoding}"`
+		: etag;
+};
+
+/**
+ * Brotli's default quality is its best and slowest, which is meant for
+ * compressing ahead of time. Bodies compressed as they are sent use a
+ * quality that is about as fast as gzip and still smaller.
+ */
+const brotliOptions: zlib.BrotliOptions = {
+	params: {
+		[zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+		[zlib.constants.BROTLI_PARAM_QUALITY]: 5,
+	},
+};
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const gzip = promisify(zlib.gzip);
+const deflate = promisify(zlib.deflate);
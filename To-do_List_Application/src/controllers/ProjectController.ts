@@ -0,0 +1,208 @@
+import postgres from "postgres";
+import Request from "../router/Request";
+import Response, { StatusCode } from "../router/Response";
+import Router from "../router/Router";
+import Project, { ProjectProps } from "../models/Project";
+import { createUTCDate } from "../utils";
+import { validate } from "../middleware/validate";
+import { ConflictError, NotFoundError } from "../errors";
+import { projectParamsSchema, projectSchema } from "../validation/schemas";
+
+/**
+ * Controller for handling Project CRUD operations. The todos of a
+ * project are listed by `TodoController.getProjectTodoList`.
+ */
+export default class ProjectController {
+	private sql: postgres.Sql<any>;
+
+	constructor(sql: postgres.Sql<any>) {
+		this.sql = sql;
+	}
+
+	/**
+	 * To register a route, call the corresponding method on
+	 * the router instance based on the HTTP method of the route.
+	 *
+	 * @param router Router instance to register routes on.
+	 *
+	 * @example router.get("/projects", this.getProjectList);
+	 */
+	registerRoutes(router: Router) {
+		const validId = validate({ params: projectParamsSchema });
+
+		router.get("/projects", this.getProjectList);
+		router.post(
+			"/projects",
+			validate({
+				body: projectSchema,
+				message: "Request body must include name.",
+				form: { template: "ProjectListView", key: "project" },
+			}),
+			this.createProject,
+		);
+		router.get("/projects/:id/edit", validId, this.sendFormEdit);
+		router.get("/projects/:id", validId, this.getProject);
+		router.put(
+			"/projects/:id",
+			validate({
+				params: projectParamsSchema,
+				body: projectSchema,
+				message: "Name is required for updating the project.",
+				form: { template: "ProjectEditFormView", key: "project" },
+			}),
+			this.updateProject,
+		);
+		router.del("/projects/:id", validId, this.deleteProject);
+	}
+
+	/**
+	 * This method should be called when a GET request is made to /projects.
+	 * It sends every project with the number of todos in it.
+	 *
+	 * @example GET /projects
+	 */
+	getProjectList = async (req: Request, res: Response) => {
+		const projects = await Project.readAll(this.sql);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Project list retrieved",
+			template: "ProjectListView",
+			payload: { projects: projects.map((project) => project.props) },
+		});
+	};
+
+	/**
+	 * This method should be called when a GET request is made to /projects/:id.
+	 * HTML clients are sent to the list of todos in the project.
+	 *
+	 * @example GET /projects/1
+	 */
+	getProject = async (req: Request, res: Response) => {
+		const project = await this.findProject(req.getId());
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Project retrieved",
+			redirect: `/projects/${project.props.id}/todos`,
+			lastModified: project.props.editedAt ?? project.props.createdAt,
+			payload: { project: project.props },
+		});
+	};
+
+	/**
+	 * This method should be called when a POST request is made to /projects.
+	 *
+	 * @example POST /projects { "name": "Sprint 12", "description": "Ends on Friday" }
+	 */
+	createProject = async (req: Request, res: Response) => {
+		// The body was already checked against `projectSchema`.
+		await this.checkNameIsFree(req.body.name);
+
+		const project = await Project.create(this.sql, {
+			name: req.body.name,
+			description: req.body.description ?? "",
+			createdAt: createUTCDate(),
+		});
+
+		await res.send({
+			statusCode: StatusCode.Created,
+			message: "Project created successfully!",
+			redirect: `/projects/${project.props.id}/todos`,
+			payload: { project: project.props },
+		});
+	};
+
+	/**
+	 * This method should be called when a GET request is made to /projects/:id/edit.
+	 *
+	 * @example GET /projects/1/edit
+	 */
+	sendFormEdit = async (req: Request, res: Response) => {
+		const project = await this.findProject(req.getId());
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Edit Project",
+			template: "ProjectEditFormView",
+			payload: { project: project.props },
+		});
+	};
+
+	/**
+	 * This method should be called when a PUT request is made to /projects/:id.
+	 * It replaces the name and description of the project.
+	 *
+	 * @example PUT /projects/1 { "name": "Sprint 13" }
+	 */
+	updateProject = async (req: Request, res: Response) => {
+		const project = await this.findProject(req.getId());
+
+		// The body was already checked against `projectSchema`.
+		await this.checkNameIsFree(req.body.name, project.props.id);
+
+		const projectProps: Partial<ProjectProps> = {
+			name: req.body.name,
+			description: req.body.description ?? "",
+		};
+
+		await project.update(projectProps);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Project updated successfully!",
+			redirect: `/projects/${project.props.id}/todos`,
+			payload: { project: project.props },
+		});
+	};
+
+	/**
+	 * This method should be called when a DELETE request is made to /projects/:id.
+	 * The todos in the project are kept, without a project.
+	 *
+	 * @example DELETE /projects/1
+	 */
+	deleteProject = async (req: Request, res: Response) => {
+		const project = await this.findProject(req.getId());
+
+		// Someone else may have deleted it between the read and now.
+		if (!(await project.delete())) {
+			throw new NotFoundError("Project not found");
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Project deleted successfully!",
+			redirect: "/projects",
+		});
+	};
+
+	/**
+	 * @param name The name a project is about to get.
+	 * @param id The ID of the project being renamed, which may keep its own name.
+	 * @throws ConflictError If another project already has the name, ignoring case.
+	 */
+	private checkNameIsFree = async (name: string, id?: number) => {
+		const existing = await Project.readByName(this.sql, name);
+
+		if (existing && existing.props.id !== id) {
+			throw new ConflictError("A project with that name already exists.", {
+				name: "A project with that name already exists.",
+			});
+		}
+	};
+
+	/**
+	 * @param id The ID of the project, already checked against `projectParamsSchema`.
+	 * @throws NotFoundError If there is no project with the ID.
+	 */
+	private findProject = async (id: number): Promise<Project> => {
+		const project = await Project.read(this.sql, id);
+
+		if (!project) {
+			throw new NotFoundError("Project not found");
+		}
+
+		return project;
+	};
+}
@@ -8,6 +8,16 @@ import render from "../views/View";
 import View from "../views/View";
 import { SubTodo } from "../models/Subtodo";
 import { SubTodoProps } from "../models/Subtodo";
+import { validate } from "../middleware/validate";
+import { NotFoundError } from "../errors";
+import { getIfMatch } from "../etag";
+import { getLinkHeader, getPagination } from "../pagination";
+import {
+	subTodoListQuerySchema,
+	subTodoParamsSchema,
+	subTodoSchema,
+	todoParamsSchema,
+} from "../validation/schemas";
 
 /**
  * Controller for handling Todo CRUD operations.
@@ -31,9 +41,49 @@ export default class SubTodoController {
 	 */
 	registerRoutes(router: Router) { 
 		//Subtodos routes:
-		router.post("/todos/:id/subtodos", this.createSubtodo);
-		router.get("/todos/:id/subtodos", this.getSubTodoList);
-		router.put("/todos/:id/subtodos/:subid/complete", this.completeSubTodo);
+		router.post(
+			"/todos/:id/subtodos",
+			validate({
+				params: todoParamsSchema,
+				body: subTodoSchema,
+				message: "Request body must include title.",
+			}),
+			this.createSubtodo,
+		);
+		router.get(
+			"/todos/:id/subtodos",
+			validate({ params: todoParamsSchema, query: subTodoListQuerySchema }),
+			this.getSubTodoList,
+		);
+		router.get(
+			"/todos/:id/subtodos/:subid",
+			validate({ params: subTodoParamsSchema }),
+			this.getSubTodo,
+		);
+		router.put(
+			"/todos/:id/subtodos/:subid/complete",
+			validate({ params: subTodoParamsSchema }),
+			this.completeSubTodo,
+		);
+		router.patch(
+			"/todos/:id/subtodos/:subid",
+			validate({
+				params: subTodoParamsSchema,
+				body: subTodoSchema,
+				partial: true,
+			}),
+			this.patchSubTodo,
+		);
+		router.del(
+			"/todos/:id/subtodos/:subid",
+			validate({ params: subTodoParamsSchema }),
+			this.deleteSubTodo,
+		);
+		router.post(
+			"/todos/:id/subtodos/:subid/restore",
+			validate({ params: subTodoParamsSchema }),
+			this.restoreSubTodo,
+		);
 	}
 
 	//Subtodos:
@@ -48,38 +98,23 @@ export default class SubTodoController {
 	 * @example POST /subtodos
 	 */
 	createSubtodo = async (req: Request, res: Response) => {
-		try {
-			const todoId = req.getId(); // Access the todoId from the URL
-
-			const subtodoData: SubTodoProps = {
-				title: req.body.title,
-				status: "incomplete",
-				createdAt: createUTCDate(),
-				todoId: todoId
-			}
-			if (!this.isValidSubTodoProps(subtodoData)) {
-				//Verifying if it is a valid Subtodo Props passed
-				await res.send({
-					statusCode: StatusCode.BadRequest,
-					message: "Request body must include title and description.",
-				});
-				return;
-			}
-
-			const newSubtodo = await SubTodo.create(this.sql, subtodoData);
-			await res.send({
-				statusCode: StatusCode.Redirect,
-				message: "SubTodo created successfully!",
-				redirect: `/todos/${todoId}`,
-			});
-		} catch (error) {
-			console.log("Error creating the subtodo object: ", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError, 
-				message: "Internal Server Error",
-				template: "ErrorView",
-			});
+		const todoId = req.getId(); // Access the todoId from the URL
+		await this.findTodo(todoId); // A subtodo needs an existing todo
+
+		//The body was already checked against subTodoSchema
+		const subtodoData: SubTodoProps = {
+			title: req.body.title,
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todoId
 		}
+
+		await SubTodo.create(this.sql, subtodoData);
+		await res.send({
+			statusCode: StatusCode.Redirect,
+			message: "SubTodo created successfully!",
+			redirect: `/todos/${todoId}`,
+		});
 	};
 
 	/**
@@ -88,6 +123,8 @@ export default class SubTodoController {
 	 * TODO: Part 2: This method should also support filtering and sorting. The status
 	 * of the subtodos should be filterable using a query parameter `status` and
 	 * the todos should be sortable using the query parameter `sortBy`.
+	 * Only the subtodos of the todo in the URL are listed, one page at a
+	 * time, the same way as the todos in `TodoController.getTodoList`.
 	 *
 	 * @param req The request object.
 	 * @param res The response object.
@@ -95,58 +132,35 @@ export default class SubTodoController {
 	 * @example GET /subtodos
 	 * @example GET /subtodos?status=complete
 	 * @example GET /subtodos?sortBy=createdAt
+	 * @example GET /todos/1/subtodos?limit=10&cursor=...
 	 */
 	getSubTodoList = async (req: Request, res: Response) => {
-		try {
-			const todoId = req.getId(); //Id from the URL
-			//Getting the parameters
-			const statusFilter = req.getSearchParams().get("status") as | "incomplete" | "complete";
-			const sortBy = req.getSearchParams().get("sortBy");
-
-			if (
-				statusFilter &&
-				!["incomplete", "complete"].includes(statusFilter)
-			) {
-				await res.send({
-					statusCode: StatusCode.BadRequest,
-					message: "Invalid status",
-				});
-				return;
-			}
-
-			if (sortBy && !["createdAt", "dueAt"].includes(sortBy)) {
-				await res.send({
-					statusCode: StatusCode.BadRequest,
-					message: "Invalid sortBy parameter",
-				});
-				return;
-			}
-
-			//filters based on status
-			const filters: Partial<SubTodoProps> = statusFilter ? { status: statusFilter } : {};		//If statement
-
-			const allSortedSubTodos: SubTodo[] = await SubTodo.readAll(
-				this.sql,
-				filters,
-				sortBy as string,
-			);
-
-			const subtodosArray = allSortedSubTodos.map((subtodo) => subtodo.props);
-
-			await res.send({
-				statusCode: StatusCode.Redirect,
-				message: "SubTodo list retrieved",
-                redirect:`/todos/${todoId}`,
-				payload: {subtodosArray}
-			});
-		} catch (error) {
-			console.log("Error getting the subtodo list: ", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Internal Server Error",
-				template: "ErrorView",
-			});
-		}
+		const todoId = req.getId(); //Id from the URL
+		await this.findTodo(todoId);
+
+		//Getting the parameters, already checked against subTodoListQuerySchema
+		const { status: statusFilter, sortBy, limit, offset, cursor } = req.query;
+
+		//filters based on status
+		const filters: Partial<SubTodoProps> = statusFilter ? { status: statusFilter } : {};		//If statement
+
+		const page = await SubTodo.readPage(this.sql, todoId, filters, sortBy, {
+			limit,
+			offset,
+			cursor,
+		});
+		const pagination = getPagination(page, req.getURL());
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "SubTodo list retrieved",
+			redirect:`/todos/${todoId}`,
+			headers: getLinkHeader(pagination.links),
+			payload: {
+				subTodos: page.items.map((subtodo) => subtodo.props),
+				pagination,
+			},
+		});
 	};
 
 	/**
@@ -156,95 +170,77 @@ export default class SubTodoController {
 	 * @param req The request object.
 	 * @param res The response object.
 	 *
-	 * @example GET /subtodos/1
+	 * @example GET /todos/1/subtodos/2
 	 */
 	getSubTodo = async (req: Request, res: Response) => {
-		try {
-			const todoId = req.getId(); //Id from the URL
-			if (isNaN(todoId) || todoId <= 0) {
-				await res.send({
-					statusCode: StatusCode.BadRequest, 
-					message: "Invalid ID",
-				});
-				return;
-			}
-
-			const subtodo = await SubTodo.read(this.sql, todoId);
-
-			if (!subtodo) {
-				await res.send({
-					statusCode: StatusCode.NotFound,
-					message:  "SubTodo not found",
-				});
-				return;
-			}
-
-			await res.send({
-				statusCode: StatusCode.OK,
-				message:"SubTodo retrieved",
-				payload: subtodo.props
-			});
-		} catch (error) {
-			console.log("Error getting the subtodo object: ", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Internal Server Error",
-				template: "ErrorView",
-			});
-		}
+		const subtodo = await this.findSubTodo(req.getId(), req.getSubTodoId());
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message:"SubTodo retrieved",
+			version: subtodo.props.version, //Goes in the ETag, to send back in If-Match
+			payload: { subTodo: subtodo.props },
+		});
 	};
 
 	/**
 	 * TODO: This method should be called when a DELETE request is made to /subtodos/:id.
-	 * It should delete an existing subtodo from the database.
+	 * It moves an existing subtodo to the trash. With `If-Match`, only if
+	 * the subtodo wasn't changed since.
 	 *
 	 * @param req The request object.
 	 * @param res The response object.
 	 *
-	 * @example DELETE /subtodos/1
+	 * @example DELETE /todos/1/subtodos/2
 	 */
 	deleteSubTodo = async (req: Request, res: Response) => {
-		try {
-			const todoId = req.getId(); //Gets the id from the URL
-
-			if (isNaN(todoId) || todoId <= 0) {
-				await res.send({
-					statusCode: StatusCode.BadRequest,
-					message: "Invalid ID",
-				});
-				return;
-			}
-
-			const existingSubTodo = await SubTodo.read(this.sql, todoId);
-
-			if (!existingSubTodo) {
-				await res.send({
-					statusCode: StatusCode.NotFound,
-					message: "SubTodo not found",
-				});
-				return;
-			}
-
-			await existingSubTodo.delete();
-
-			await res.send({
-				statusCode: StatusCode.OK,
-				message: "SubTodo deleted successfully!",
-			});
-		} catch (error) {
-			console.log("Error deleting the subtodo object: ", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Internal Server Error",
-				template: "ErrorView",
-			});
+		const existingSubTodo = await this.findSubTodo(req.getId(), req.getSubTodoId());
+
+		await existingSubTodo.delete(getIfMatch(req));
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "SubTodo deleted successfully!",
+			redirect: `/todos/${req.getId()}`,
+		});
+	};
+
+	/**
+	 * This method should be called when a POST request is made to /todos/:id/subtodos/:subid/restore.
+	 * It takes a subtodo out of the trash. Its todo must not be in the trash,
+	 * since restoring the todo brings back the subtodos deleted with it.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example POST /todos/1/subtodos/2/restore
+	 */
+	restoreSubTodo = async (req: Request, res: Response) => {
+		const todoId = req.getId();
+		await this.findTodo(todoId);
+
+		const subtodo = await SubTodo.readDeleted(this.sql, req.getSubTodoId());
+
+		// A subtodo that belongs to another todo is not found under this one.
+		if (!subtodo || subtodo.props.todoId !== todoId) {
+			throw new NotFoundError("SubTodo not found in the trash");
 		}
+
+		await subtodo.restore();
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "SubTodo restored successfully!",
+			redirect: `/todos/${todoId}`,
+			payload: { subTodo: subtodo.props },
+		});
 	};
 
 
 	/**
 	 * TODO: This method should be called when a PUT request is made to /subtodos/:id/complete.
 	 * It should mark an existing subtodo as complete in the database and send it as a response.
+	 * With `If-Match`, only if the subtodo wasn't changed since.
 	 *
 	 * @param req The request object.
 	 * @param res The response object.
@@ -252,73 +248,85 @@ export default class SubTodoController {
 	 * @example PUT /subtodos/1/complete
 	 */
 	completeSubTodo = async (req: Request, res: Response) => {
-		try {
-			const todoId = req.getId(); //Gest the id from the URL
-			const subtodoId = req.getSubTodoId();
-
-			if (isNaN(todoId) || todoId <= 0) {
-				await res.send({
-					statusCode: StatusCode.BadRequest,
-					message:"Invalid ID",
-				});
-				return;
-			}
-			if (isNaN(subtodoId) || subtodoId <= 0) {
-				await res.send({
-					statusCode: StatusCode.BadRequest,
-					message:"Invalid ID",
-				});
-				return;
-			}
-
-			const existingSubTodo = await SubTodo.read(this.sql, subtodoId);
-
-			if (!existingSubTodo) {
-				await res.send({
-					statusCode: StatusCode.NotFound,
-					message: "SubTodo not found",
-				});
-				return;
-			}
-
-			await existingSubTodo.markComplete();
-
-			const { title, status, createdAt, completedAt } =
-				existingSubTodo.props; //Variables from the subtodo props, works for sending
-
-			await res.send({
-				statusCode: StatusCode.Redirect,
-				message: "SubTodo marked as complete!",
-				redirect: `/todos/${todoId}`,
-				//payload: existingSubTodo.props,
-			});
-		} catch (error) {
-			console.log("Error completing the subtodo object: ", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Internal Server Error",
-				template: "ErrorView",
-			});
+		const todoId = req.getId(); //Gest the id from the URL
+		const existingSubTodo = await this.findSubTodo(todoId, req.getSubTodoId());
+
+		await existingSubTodo.markComplete(getIfMatch(req));
+
+		await res.send({
+			statusCode: StatusCode.Redirect,
+			message: "SubTodo marked as complete!",
+			redirect: `/todos/${todoId}`,
+			//payload: existingSubTodo.props,
+		});
+	};
+
+	/**
+	 * This method should be called when a PATCH request is made to /todos/:id/subtodos/:subid.
+	 * It only changes the fields present in the request body and leaves the
+	 * rest of the subtodo untouched. With `If-Match`, only if the subtodo
+	 * wasn't changed since, and the new version is sent in the `ETag`.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PATCH /todos/1/subtodos/2 { "title": "Renamed subtodo" }
+	 */
+	patchSubTodo = async (req: Request, res: Response) => {
+		const todoId = req.getId();
+
+		//The body only holds the supplied fields, already checked against subTodoSchema
+		const subtodoProps: Partial<SubTodoProps> = { ...req.body };
+
+		if (subtodoProps.status === "complete") {
+			subtodoProps.completedAt = new Date();
+		} else if (subtodoProps.status === "incomplete") {
+			subtodoProps.completedAt = null;
 		}
+
+		const existingSubTodo = await this.findSubTodo(todoId, req.getSubTodoId());
+		await existingSubTodo.update(subtodoProps, "update", getIfMatch(req));
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "SubTodo updated successfully!",
+			redirect: `/todos/${todoId}`,
+			version: existingSubTodo.props.version,
+			payload: { subTodo: existingSubTodo.props },
+		});
 	};
+
 	/**
-	 * This is something called a type guard. It's a function that checks if a
-	 * given object is of a certain type. If the object is of that type, the
-	 * function returns true, otherwise it returns false. This is useful for
-	 * checking if the request body is a valid SubTodoProps object.
-	 * @param props Must be `any` type because we don't know what the request body will be.
-	 * @returns Whether or not the given object is a valid TodoProps object.
-	 * @see https://www.typescriptlang.org/docs/handbook/2/narrowing.html#using-type-predicates
+	 * Makes sure the todo from the URL exists before working on its subtodos.
+	 * @param todoId The ID of the todo, already checked against `todoParamsSchema`.
+	 * @throws NotFoundError If there is no todo with the ID.
 	 */
-	isValidSubTodoProps = (props: any): props is SubTodoProps => {
-		return (
-			props.hasOwnProperty("title") &&
-			props.hasOwnProperty("status") &&
-			props.hasOwnProperty("createdAt") &&
-			typeof props.title === "string" &&
-			typeof props.status === "string"
-		);
+	private findTodo = async (todoId: number): Promise<Todo> => {
+		const todo = await Todo.read(this.sql, todoId);
+
+		if (!todo) {
+			throw new NotFoundError("Todo not found");
+		}
+
+		return todo;
 	};
 
+	/**
+	 * Reads a subtodo of the todo from the URL.
+	 * @param todoId The ID of the todo, already checked against `subTodoParamsSchema`.
+	 * @param subtodoId The ID of the subtodo, already checked against `subTodoParamsSchema`.
+	 * @throws NotFoundError If there is no such todo, or it has no such subtodo.
+	 */
+	private findSubTodo = async (todoId: number, subtodoId: number): Promise<SubTodo> => {
+		await this.findTodo(todoId);
+
+		const subtodo = await SubTodo.read(this.sql, subtodoId);
 
+		// A subtodo that belongs to another todo is not found under this one.
+		if (!subtodo || subtodo.props.todoId !== todoId) {
+			throw new NotFoundError("SubTodo not found");
+		}
+
+		return subtodo;
+	};
 }
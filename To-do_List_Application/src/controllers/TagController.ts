@@ -0,0 +1,174 @@
+import postgres from "postgres";
+import Request from "../router/Request";
+import Response, { StatusCode } from "../router/Response";
+import Router from "../router/Router";
+import Tag from "../models/Tag";
+import { validate } from "../middleware/validate";
+import { ConflictError, NotFoundError } from "../errors";
+import { tagParamsSchema, tagSchema } from "../validation/schemas";
+
+/**
+ * Controller for handling Tag CRUD operations. Tags are put on todos
+ * through the todo forms, so this controller only lists, creates,
+ * renames and deletes the tags themselves.
+ */
+export default class TagController {
+	private sql: postgres.Sql<any>;
+
+	constructor(sql: postgres.Sql<any>) {
+		this.sql = sql;
+	}
+
+	/**
+	 * To register a route, call the corresponding method on
+	 * the router instance based on the HTTP method of the route.
+	 *
+	 * @param router Router instance to register routes on.
+	 *
+	 * @example router.get("/tags", this.getTagList);
+	 */
+	registerRoutes(router: Router) {
+		const validId = validate({ params: tagParamsSchema });
+
+		router.get("/tags", this.getTagList);
+		router.post(
+			"/tags",
+			validate({
+				body: tagSchema,
+				form: { template: "TagListView", key: "tag" },
+			}),
+			this.createTag,
+		);
+		router.get("/tags/:id", validId, this.getTag);
+		router.put(
+			"/tags/:id",
+			validate({ params: tagParamsSchema, body: tagSchema }),
+			this.updateTag,
+		);
+		router.del("/tags/:id", validId, this.deleteTag);
+	}
+
+	/**
+	 * This method should be called when a GET request is made to /tags.
+	 * It sends every tag with the number of todos that have it.
+	 *
+	 * @example GET /tags
+	 */
+	getTagList = async (req: Request, res: Response) => {
+		const tags = await Tag.readAll(this.sql);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Tag list retrieved",
+			template: "TagListView",
+			payload: { tags: tags.map((tag) => tag.props) },
+		});
+	};
+
+	/**
+	 * This method should be called when a GET request is made to /tags/:id.
+	 * HTML clients are sent to the list of todos with the tag.
+	 *
+	 * @example GET /tags/1
+	 */
+	getTag = async (req: Request, res: Response) => {
+		const tag = await this.findTag(req.getId());
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Tag retrieved",
+			redirect: `/todos?tag=${encodeURIComponent(tag.props.name)}`,
+			payload: { tag: tag.props },
+		});
+	};
+
+	/**
+	 * This method should be called when a POST request is made to /tags.
+	 *
+	 * @example POST /tags { "name": "errands" }
+	 */
+	createTag = async (req: Request, res: Response) => {
+		// The body was already checked against `tagSchema`.
+		await this.checkNameIsFree(req.body.name);
+
+		const tag = await Tag.create(this.sql, req.body.name);
+
+		await res.send({
+			statusCode: StatusCode.Created,
+			message: "Tag created successfully!",
+			redirect: "/tags",
+			payload: { tag: tag.props },
+		});
+	};
+
+	/**
+	 * This method should be called when a PUT request is made to /tags/:id.
+	 * It renames the tag on every todo that has it.
+	 *
+	 * @example PUT /tags/1 { "name": "chores" }
+	 */
+	updateTag = async (req: Request, res: Response) => {
+		const tag = await this.findTag(req.getId());
+
+		// The body was already checked against `tagSchema`.
+		await this.checkNameIsFree(req.body.name, tag.props.id);
+		await tag.update(req.body.name);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Tag updated successfully!",
+			redirect: "/tags",
+			payload: { tag: tag.props },
+		});
+	};
+
+	/**
+	 * This method should be called when a DELETE request is made to /tags/:id.
+	 * The todos that had the tag are kept.
+	 *
+	 * @example DELETE /tags/1
+	 */
+	deleteTag = async (req: Request, res: Response) => {
+		const tag = await this.findTag(req.getId());
+
+		// Someone else may have deleted it between the read and now.
+		if (!(await tag.delete())) {
+			throw new NotFoundError("Tag not found");
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Tag deleted successfully!",
+			redirect: "/tags",
+		});
+	};
+
+	/**
+	 * @param name The name a tag is about to get.
+	 * @param id The ID of the tag being renamed, which may keep its own name.
+	 * @throws ConflictError If another tag already has the name.
+	 */
+	private checkNameIsFree = async (name: string, id?: number) => {
+		const existing = await Tag.readByName(this.sql, name);
+
+		if (existing && existing.props.id !== id) {
+			throw new ConflictError("A tag with that name already exists.", {
+				name: "A tag with that name already exists.",
+			});
+		}
+	};
+
+	/**
+	 * @param id The ID of the tag, already checked against `tagParamsSchema`.
+	 * @throws NotFoundError If there is no tag with the ID.
+	 */
+	private findTag = async (id: number): Promise<Tag> => {
+		const tag = await Tag.read(this.sql, id);
+
+		if (!tag) {
+			throw new NotFoundError("Tag not found");
+		}
+
+		return tag;
+	};
+}
@@ -1,13 +1,39 @@
-import Todo, { TodoProps } from "../models/Todo";
+import Todo, { TodoFilters, TodoProps } from "../models/Todo";
 import postgres from "postgres";
 import Request from "../router/Request";
 import Response, { ContentType, StatusCode } from "../router/Response";
 import Router from "../router/Router";
-import { createUTCDate } from "../utils";
+import { createUTCDate, formatDateToISO, getLatest } from "../utils";
 import render from "../views/View";
 import View from "../views/View";
 import { SubTodo } from "../models/Subtodo";
 import { SubTodoProps } from "../models/Subtodo";
+import Tag from "../models/Tag";
+import Project from "../models/Project";
+import HistoryEntry from "../models/HistoryEntry";
+import { validate } from "../middleware/validate";
+import {
+	NotFoundError,
+	PreconditionFailedError,
+	ValidationError,
+} from "../errors";
+import { getIfMatch } from "../etag";
+import { getChanges, todoHistoryFields } from "../history";
+import { getLinkHeader, getPagination } from "../pagination";
+import {
+	RecurrenceFields,
+	toRecurrence,
+	toRecurrenceFields,
+} from "../recurrence";
+import {
+	moveTodoSchema,
+	projectParamsSchema,
+	searchQuerySchema,
+	todoListQuerySchema,
+	todoParamsSchema,
+	todoSchema,
+	versionSchema,
+} from "../validation/schemas";
 /**
  * Controller for handling Todo CRUD operations.
  * Routes are registered in the `registerRoutes` method.
@@ -29,17 +55,66 @@ export default class TodoController {
 	 * @example router.get("/todos", this.getTodoList);
 	 */
 	registerRoutes(router: Router) { 
-		router.get("/todos", this.getTodoList);
-		router.post("/todos", this.createTodo);
+		const validId = validate({ params: todoParamsSchema });
+
+		router.get(
+			"/todos",
+			validate({ query: todoListQuerySchema }),
+			this.getTodoList,
+		);
+		router.get(
+			"/projects/:id/todos",
+			validate({ params: projectParamsSchema, query: todoListQuerySchema }),
+			this.getProjectTodoList,
+		);
+		router.post(
+			"/todos",
+			validate({
+				body: todoSchema,
+				message: "Request body must include title and description.",
+				form: { template: "NewFormView", key: "todo" },
+			}),
+			this.createTodo,
+		);
 		
 		router.get("/todos/new", this.sendFormCreate);
-		router.get("/todos/:id/edit", this.sendFormEdit);
-
-		// Any routes that include a `:id` parameter should be registered last.
-		router.get("/todos/:id", this.getTodo);
-		router.put("/todos/:id", this.updateTodo);
-		router.del("/todos/:id", this.deleteTodo);
-		router.put("/todos/:id/complete", this.completeTodo);
+		router.get(
+			"/todos/search",
+			validate({ query: searchQuerySchema }),
+			this.searchTodos,
+		);
+		router.get("/todos/:id/edit", validId, this.sendFormEdit);
+		router.get("/todos/:id", validId, this.getTodo);
+		router.get("/todos/:id/history", validId, this.getTodoHistory);
+		router.put(
+			"/todos/:id",
+			validate({
+				params: todoParamsSchema,
+				body: { ...todoSchema, ...versionSchema },
+				message: "Title and description are required for updating the todo.",
+				form: { template: "EditFormView", key: "todo" },
+			}),
+			this.updateTodo,
+		);
+		router.patch(
+			"/todos/:id",
+			validate({
+				params: todoParamsSchema,
+				body: todoSchema,
+				partial: true,
+				form: { template: "EditFormView", key: "todo" },
+			}),
+			this.patchTodo,
+		);
+		router.del("/todos/:id", validId, this.deleteTodo);
+		router.post("/todos/:id/restore", validId, this.restoreTodo);
+		router.get("/trash", this.getTrash);
+		router.put("/todos/:id/complete", validId, this.completeTodo);
+		router.put(
+			"/todos/:id/project",
+			validate({ params: todoParamsSchema, body: moveTodoSchema }),
+			this.moveTodo,
+		);
 	}
 
 	/**
@@ -48,6 +123,14 @@ export default class TodoController {
 	 * Part 2: This method should also support filtering and sorting. The status
 	 * of the todos should be filterable using a query parameter `status` and
 	 * the todos should be sortable using the query parameters `sortBy` and `sortOrder`.
+	 * Part 3: The todos are sent one page at a time, chosen with `limit` and
+	 * either `offset` or `cursor`. The links to the next and previous pages
+	 * are sent in the payload and in the `Link` header.
+	 * Part 4: The todos can also be filtered by due, created and completed
+	 * date ranges, by title, by being overdue, and by having incomplete
+	 * subtodos. See `TodoFilters` for what each filter matches.
+	 * Part 5: The todos can be filtered by tag. With more than one `tag`,
+	 * `tagMatch` chooses whether a todo needs any of them or all of them.
 	 *
 	 * @param req The request object.
 	 * @param res The response object.
@@ -55,73 +138,107 @@ export default class TodoController {
 	 * @example GET /todos
 	 * @example GET /todos?status=complete
 	 * @example GET /todos?sortBy=createdAt&sortOrder=ASC
+	 * @example GET /todos?limit=10&offset=20
+	 * @example GET /todos?dueAfter=2024-04-01&dueBefore=2024-05-01&hasIncompleteSubTodos=true
+	 * @example GET /todos?tag=bug&tag=ui&tagMatch=all
 	 */
 	getTodoList = async (req: Request, res: Response) => {
-		const queryParams = req.getSearchParams();
-
-		const statusFilter = queryParams.get("status") as
-			| TodoProps["status"]
-			| undefined;
-		const sortBy = queryParams.get("sortBy") ?? "id";
-		const orderBy = queryParams.get("orderBy") ?? "asc";
-		let todos: Todo[] = [];
-
-		if (
-			statusFilter &&
-			statusFilter !== "incomplete" &&
-			statusFilter !== "complete"
-		) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid filter parameter.",
-			});
-			return;
-		}
+		await this.sendTodoList(req, res);
+	};
 
-		if (sortBy && !this.isSortByValid(sortBy)) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid sortBy parameter.",
-			});
-			return;
-		}
+	/**
+	 * This method should be called when a GET request is made to /projects/:id/todos.
+	 * It lists the todos in the project, with the same filters, sorting and
+	 * pages as `getTodoList`.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /projects/1/todos
+	 * @example GET /projects/1/todos?status=incomplete&sortBy=dueAt
+	 */
+	getProjectTodoList = async (req: Request, res: Response) => {
+		const project = await Project.read(this.sql, req.getId());
 
-		if (orderBy && !this.isOrderByValid(orderBy)) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid orderBy parameter.",
-			});
-			return;
+		if (!project) {
+			throw new NotFoundError("Project not found");
 		}
 
-		try {
-			todos = await Todo.readAll(
-				this.sql,
-				{ status: statusFilter },
-				sortBy,
-				orderBy,
-			);
-		} catch (error) {
-			const message = `Error while getting todo list: ${error}`;
-			console.error(message);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Internal Server Error",
-				template: "ErrorView",
-			});
-		}
-		
+		await this.sendTodoList(req, res, project);
+	};
+
+	/**
+	 * Sends the page of todos that the query string asks for.
+	 * @param project The project to list the todos of, or none to list every todo.
+	 */
+	private sendTodoList = async (
+		req: Request,
+		res: Response,
+		project?: Project,
+	) => {
+		// The query params were already checked against `todoListQuerySchema`.
+		const { sortBy, orderBy, limit, offset, cursor, tag, ...rest } = req.query;
+		const filters: TodoFilters = {
+			...rest,
+			tags: tag,
+			projectId: project?.props.id,
+		};
+
+		this.checkDateRanges(filters, req.t);
+
+		const page = await Todo.readPage(this.sql, filters, sortBy, orderBy, {
+			limit,
+			offset,
+			cursor,
+		});
+		const pagination = getPagination(page, req.getURL());
+
 		await res.send({
 			statusCode: StatusCode.OK,
 			message: "Todo list retrieved",
 			template: "ListView",
-			payload: { todos: todos.map((todo) => todo.props) },
+			headers: getLinkHeader(pagination.links),
+			payload: {
+				todos: page.items.map((todo) => todo.props),
+				pagination,
+				project: project?.props,
+				// What was asked for, as it was sent, so that the filter form can be refilled.
+				filters: req.getQuery(),
+			},
+		});
+	};
+
+	/**
+	 * This method should be called when a GET request is made to /todos/search.
+	 * It searches the todos and their subtodos for the words in `q` and sends
+	 * the best matches first, each with a snippet of the matching text.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /todos/search?q=groceries
+	 * @example GET /todos/search?q="team meeting" -cancelled
+	 */
+	searchTodos = async (req: Request, res: Response) => {
+		// The query params were already checked against `searchQuerySchema`.
+		const { q, limit } = req.query;
+
+		const results = await Todo.search(this.sql, q, limit);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Search results retrieved",
+			template: "SearchView",
+			payload: { q, results },
 		});
 	};
 
 	/**
 	 * This method should be called when a GET request is made to /todos/:id.
-	 * It should retrieve a single todo from the database and send it as a response.
+	 * It should retrieve a single todo from the database and send it as a response,
+	 * along with its history. Its version is sent in the `ETag`, to send back
+	 * in `If-Match` when changing it, and a client that already has the
+	 * current todo gets 304 Not Modified.
 	 *
 	 * @param req The request object.
 	 * @param res The response object.
@@ -129,47 +246,48 @@ export default class TodoController {
 	 * @example GET /todos/1
 	 */
 	getTodo = async (req: Request, res: Response) => {
-		const id = req.getId();
+		const todo = await this.findTodo(req.getId());
+		const history = await HistoryEntry.readByTodoId(this.sql, todo.props.id!);
 
-		if (isNaN(id)) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid ID",
-			});
-			return;
-		}
-
-		let todo: Todo | null = null;
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Todo retrieved",
+			template: "ShowView",
+			version: todo.props.version,
+			// The history has the changes to its subtodos too.
+			lastModified: getLatest(
+				todo.props.editedAt ?? todo.props.createdAt,
+				history[0]?.props.createdAt,
+			),
+			payload: { 
+				todo: todo.props,
+				subtodos: todo.props.subTodos,
+				history: history.map((entry) => entry.props),
+			},
+		});
+	};
 
-		try {
-			todo = await Todo.read(this.sql, id);
-		} catch (error) {
-			const message = `Error while getting todo list: ${error}`;
-			console.error(message);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Internal Server Error",
-				template: "ErrorView",
-			});
-		}
+	/**
+	 * This method should be called when a GET request is made to /todos/:id/history.
+	 * It sends every change made to the todo and its subtodos, most recent
+	 * first, each with the fields that changed. HTML clients are sent to
+	 * the timeline on the page of the todo.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /todos/1/history
+	 */
+	getTodoHistory = async (req: Request, res: Response) => {
+		const todo = await this.findTodo(req.getId());
+		const history = await HistoryEntry.readByTodoId(this.sql, todo.props.id!);
 
-		if (todo) {
-			console.log(todo);
-			await res.send({
-				statusCode: StatusCode.OK,
-				message: "Todo retrieved",
-				template: "ShowView",
-				payload: { 
-					todo: todo.props,
-					subtodos: todo.props.subTodos,
-				},
-			});
-		} else {
-			await res.send({
-				statusCode: StatusCode.NotFound,
-				message: "Not found",
-			});
-		}
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Todo history retrieved",
+			redirect: `/todos/${todo.props.id}#history`,
+			payload: { history: history.map((entry) => entry.props) },
+		});
 	};
 
 	/**
@@ -183,6 +301,10 @@ export default class TodoController {
 			statusCode: StatusCode.OK,
 			message: "Form served successfully!",
 			template: "NewFormView",
+			// Coming from a project's list, the new todo goes in that project.
+			payload: {
+				todo: { projectId: req.getSearchParams().get("projectId") },
+			},
 		});
 	};
 
@@ -196,7 +318,7 @@ export default class TodoController {
 	 * @example POST /todos { "title": "New Todo", "description": "A new todo" }
 	 */
 	createTodo = async (req: Request, res: Response) => {
-		let todo: Todo | null = null;
+		// The body was already checked against `todoSchema`.
 		let todoProps: TodoProps = {
 			title: req.body.title,
 			description: req.body.description,
@@ -204,35 +326,27 @@ export default class TodoController {
 			createdAt: createUTCDate(),
 		};
 
-		if (req.body.dueAt) {
-			todoProps.dueAt = createUTCDate(new Date(req.body.dueAt));
+		if (req.body.priority) {
+			todoProps.priority = req.body.priority;
 		}
 
-		if (!todoProps.title || !todoProps.description) {
-			const errorMessage = "Title and description are required.";
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Request body must include title and description.",
-				template: "NewFormView",
-				payload: { errorMessage: errorMessage },
-			});
-			return;
+		if (req.body.dueAt) {
+			todoProps.dueAt = createUTCDate(req.body.dueAt);
 		}
 
-		try {
-			todo = await Todo.create(this.sql, todoProps);
-		} catch (error) {
-			console.error("Error while creating todo:", error);
+		if (req.body.projectId) {
+			await this.checkProjectExists(req.body.projectId);
+			todoProps.projectId = req.body.projectId;
 		}
 
-		if (!todo) {
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Error while creating todo",
-				template: "ErrorView",
-			});
-			return;
+		const recurrence = toRecurrence(req.body, req.timeZone);
+
+		if (recurrence) {
+			todoProps.recurrence = recurrence;
 		}
+
+		const todo = await Todo.create(this.sql, todoProps, req.body.tags);
+
 		await res.send({
 			statusCode: StatusCode.Redirect,
 			message: "Todo created successfully!",
@@ -240,133 +354,174 @@ export default class TodoController {
 		});
 	};
 
+	/**
+	 * This method should be called when a GET request is made to /todos/:id/edit.
+	 * It sends the form for editing an existing todo.
+	 *
+	 * @example GET /todos/1/edit
+	 */
 	sendFormEdit = async (req: Request, res: Response) => {
-		const id = req.getId();
+		const todo = await this.findTodo(req.getId());
 
-		if (isNaN(id)) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid ID",
-			});
-			return;
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Edit Todo",
+			template: "EditFormView",
+			payload: {
+				todo: this.toFormFields(
+					{
+						...todo.props,
+						tags: todo.props.tags?.map((tag) => tag.name),
+						...toRecurrenceFields(todo.props.recurrence),
+					},
+					req.timeZone,
+				),
+			},
+		});
+	};
+
+	/**
+	 * This method should be called when a PUT request is made to /todos/:id.
+	 * It replaces the title, description, priority, due date, tags, project
+	 * and recurrence of an existing todo. With `If-Match`, or a `version` from
+	 * the edit form, only if the todo wasn't changed since. An HTML client
+	 * whose changes came too late gets the form back to merge them.
+	 *
+	 * @example PUT /todos/1 { "title": "Updated Todo", "description": "An updated todo" }
+	 * @example PUT /todos/1 If-Match: "3" { "title": "Updated Todo", "description": "An updated todo" }
+	 */
+	updateTodo = async (req: Request, res: Response) => {
+		// The body was already checked against `todoSchema`.
+		const todoProps: Partial<TodoProps> = {
+			title: req.body.title,
+			description: req.body.description,
+			// A priority left out goes back to the default, like a new todo's.
+			priority: req.body.priority,
+			// A date left out, such as by clearing it in the form, is removed.
+			dueAt: req.body.dueAt ? createUTCDate(req.body.dueAt) : null,
+			projectId: req.body.projectId ?? null,
+			recurrence: toRecurrence(req.body, req.timeZone),
+		};
+
+		if (req.body.projectId) {
+			await this.checkProjectExists(req.body.projectId);
 		}
 
-		try {
-			const todo = await Todo.read(this.sql, id);
-			if (todo) {
-				await res.send({
-					statusCode: StatusCode.OK,
-					message: "Edit Todo",
-					template: "EditFormView",
-					payload: { todo: todo.props },
-				});
+		const todo = await this.findTodo(req.getId());
 
-				if(req.body._method === "DELETE"){
-					if (await todo.delete()) {
-						await res.send({
-							statusCode: StatusCode.Redirect,
-							message: "Todo deleted successfully!",
-							redirect: `/todos`,
-						});
-					} else {
-						await res.send({
-							statusCode: StatusCode.InternalServerError,
-							message: "Error while deleting todo",
-						});
-					}
-				}
-
-				if(req.body._method === "PUT"){
-					try{
-						await todo.markComplete();
-						await res.send({
-							statusCode: StatusCode.Redirect,
-							message: "Todo completed successfully!",
-							redirect: `/todos`,
-						});
-					}
-					catch{
-						await res.send({
-							statusCode: StatusCode.InternalServerError,
-							message: "Error while deleting todo",
-						});
-					}
-				}
-			} 
-			else {
-				await res.send({
-					statusCode: StatusCode.NotFound,
-					message: "Todo not found",
-				});
-			}
+		try {
+			await todo.update(todoProps, getIfMatch(req), req.body.tags);
 		} catch (error) {
-			console.error("Error while fetching todo for edit:", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Error while fetching todo for edit",
-				template:"ErrorView",
-			});
+			if (
+				error instanceof PreconditionFailedError &&
+				req.accepts(ContentType.HTML)
+			) {
+				await this.sendConflict(req, res, todoProps, error);
+				return;
+			}
+
+			throw error;
 		}
+
+		await res.send({
+			statusCode: StatusCode.Redirect,
+			message: "Todo updated successfully!",
+			redirect: `/todos/${todo.props.id}`,
+		});
 	};
 
-	updateTodo = async (req: Request, res: Response) => {
-		const id = req.getId();
+	/**
+	 * This method should be called when a PATCH request is made to /todos/:id.
+	 * Unlike `updateTodo`, it only changes the fields present in the request
+	 * body and leaves the rest of the todo untouched. Like it, it honours
+	 * `If-Match`, and the new version is sent in the `ETag`. Completing the
+	 * todo works as with PUT /todos/:id/complete, next occurrence and all.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PATCH /todos/1 { "dueAt": "2024-04-01" }
+	 */
+	patchTodo = async (req: Request, res: Response) => {
+		// The body only holds the supplied fields, already checked against `todoSchema`.
+		const {
+			tags,
+			repeat,
+			repeatInterval,
+			repeatWeekdays,
+			repeatUntil,
+			repeatCount,
+			...todoProps
+		}: Partial<TodoProps> & RecurrenceFields & { tags?: string[] } = req.body;
+		const recurrenceFields: RecurrenceFields = Object.fromEntries(
+			Object.entries({
+				repeat,
+				repeatInterval,
+				repeatWeekdays,
+				repeatUntil,
+				repeatCount,
+			}).filter(([, value]) => value !== undefined),
+		);
 
-		if (isNaN(id)) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid ID",
-			});
-			return;
+		if (todoProps.dueAt) {
+			todoProps.dueAt = createUTCDate(todoProps.dueAt);
 		}
 
-		const todoProps: Partial<TodoProps> = {
-			title: req.body.title,
-			description: req.body.description,
-		};
+		// Completing is left to `markComplete`, so that a repeating todo
+		// gets its next occurrence, the same as with PUT /todos/:id/complete.
+		const completing = todoProps.status === "complete";
 
-		if (req.body.dueAt) {
-			todoProps.dueAt = createUTCDate(new Date(req.body.dueAt));
+		if (completing) {
+			delete todoProps.status;
+		} else if (todoProps.status === "incomplete") {
+			todoProps.completedAt = null;
 		}
 
-		// Check if title and description are provided in the request body
-		if (!req.body.title || !req.body.description) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message:
-					"Title and description are required for updating the todo.",
-			});
-			return;
+		if (todoProps.projectId) {
+			await this.checkProjectExists(todoProps.projectId);
 		}
 
-		try {
-			const todo = await Todo.read(this.sql, id);
-			if (todo) {
-				await todo.update(todoProps);
-				await res.send({
-					statusCode: StatusCode.Redirect,
-					message: "Todo updated successfully!",
-					redirect: `/todos/${todo.props.id}`,
-				});
-			} else {
-				await res.send({
-					statusCode: StatusCode.NotFound,
-					message: "Not found",
-				});
-			}
-		} catch (error) {
-			console.error("Error while updating todo:", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Error while updating todo",
-				template:"ErrorView",
-			});
+		const todo = await this.findTodo(req.getId());
+
+		// The recurrence fields that weren't sent keep their current values.
+		if (Object.keys(recurrenceFields).length > 0) {
+			todoProps.recurrence = toRecurrence(
+				{
+					...toRecurrenceFields(todo.props.recurrence),
+					...recurrenceFields,
+				},
+				req.timeZone,
+			);
+		}
+
+		let ifMatch = getIfMatch(req);
+		let nextTodo: Todo | null = null;
+
+		// Even if the body only had tags in it, which aren't a column of the todo, the todo was edited.
+		if (!completing || Object.keys(todoProps).length > 0 || tags) {
+			await todo.update(todoProps, ifMatch, tags);
+			// Completing it next must not skip over someone else's change in between.
+			ifMatch = ifMatch && [todo.props.version!];
+		}
+
+		if (completing) {
+			nextTodo = await todo.markComplete(ifMatch);
 		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Todo updated successfully!",
+			redirect: `/todos/${todo.props.id}`,
+			version: todo.props.version,
+			payload: { todo: todo.props, nextTodo: nextTodo?.props },
+		});
 	};
 
 	/**
 	 * This method should be called when a DELETE request is made to /todos/:id.
-	 * It should delete an existing todo from the database.
+	 * It moves an existing todo to the trash, along with its subtodos, from
+	 * where it can be restored until the trash is purged. With `If-Match`,
+	 * only if the todo wasn't changed since.
 	 *
 	 * @param req The request object.
 	 * @param res The response object.
@@ -374,46 +529,74 @@ export default class TodoController {
 	 * @example DELETE /todos/1
 	 */
 	deleteTodo = async (req: Request, res: Response) => {
-		const id = req.getId();
+		const todo = await this.findTodo(req.getId());
 
-		if (isNaN(id)) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid ID",
-			});
-			return;
+		// Someone else may have deleted it between the read and now.
+		if (!(await todo.delete(getIfMatch(req)))) {
+			throw new NotFoundError("Not found");
 		}
 
-		try {
-			const todo = await Todo.read(this.sql, id);
-			if (!todo) {
-				await res.send({
-					statusCode: StatusCode.NotFound,
-					message: "Not found",
-				});
-				return;
-			}
+		await res.send({
+			statusCode: StatusCode.Redirect,
+			message: "Todo deleted successfully!",
+			redirect: `/todos`,
+		});
+	};
 
-			if (await todo.delete()) {
-				await res.send({
-					statusCode: StatusCode.Redirect,
-					message: "Todo deleted successfully!",
-					redirect: `/todos`,
-				});
-			} else {
-				await res.send({
-					statusCode: StatusCode.InternalServerError,
-					message: "Error while deleting todo.",
-				});
-			}
-		} catch (error) {
-			console.error("Error while deleting todo:", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Error while deleting todo",
-				template:"ErrorView",
-			});
+	/**
+	 * This method should be called when a POST request is made to /todos/:id/restore.
+	 * It takes a todo out of the trash, along with the subtodos that were
+	 * deleted with it.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example POST /todos/1/restore
+	 */
+	restoreTodo = async (req: Request, res: Response) => {
+		const todo = await Todo.readDeleted(this.sql, req.getId());
+
+		// Someone else may have restored it between the read and now.
+		if (!todo || !(await todo.restore())) {
+			throw new NotFoundError("Todo not found in the trash");
 		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Todo restored successfully!",
+			redirect: `/todos/${todo.props.id}`,
+			payload: { todo: todo.props },
+		});
+	};
+
+	/**
+	 * This method should be called when a GET request is made to /trash.
+	 * It lists the deleted todos, and the subtodos deleted on their own,
+	 * most recently deleted first.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /trash
+	 */
+	getTrash = async (req: Request, res: Response) => {
+		const todos = await Todo.readAll(
+			this.sql,
+			{ deleted: true },
+			"deletedAt",
+			"desc",
+		);
+		const subTodos = await SubTodo.readTrash(this.sql);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Trash retrieved",
+			template: "TrashView",
+			payload: {
+				todos: todos.map((todo) => todo.props),
+				subTodos: subTodos.map((subTodo) => subTodo.props),
+			},
+		});
 	};
 	
 	
@@ -423,6 +606,8 @@ export default class TodoController {
 	/**
 	 * This method should be called when a PUT request is made to /todos/:id/complete.
 	 * It should mark an existing todo as complete in the database and send it as a response.
+	 * If the todo repeats, its next occurrence is sent along with it. With
+	 * `If-Match`, only if the todo wasn't changed since.
 	 *
 	 * @param req The request object.
 	 * @param res The response object.
@@ -430,74 +615,168 @@ export default class TodoController {
 	 * @example PUT /todos/1/complete
 	 */
 	completeTodo = async (req: Request, res: Response) => {
-		const id = req.getId();
-	
-		if (isNaN(id)) {
-			await res.send({
-				statusCode: StatusCode.BadRequest,
-				message: "Invalid ID",
-			});
-			return;
+		const todo = await this.findTodo(req.getId());
+		const nextTodo = await todo.markComplete(getIfMatch(req));
+
+		const markComplete = todo.props.status === "complete" ? "✅" : ""; // Check status to determine if emoji should be included
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Todo marked as complete!",
+			redirect: `/todos/${todo.props.id}`,
+			payload: {
+				todo: todo.props,
+				nextTodo: nextTodo?.props,
+				markComplete, // Include markComplete in payload object
+			},
+		});
+	};
+
+	/**
+	 * This method should be called when a PUT request is made to /todos/:id/project.
+	 * It moves the todo, with its subtodos, to another project, or out of its
+	 * project if no `projectId` is sent. With `If-Match`, only if the todo
+	 * wasn't changed since.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PUT /todos/1/project { "projectId": 2 }
+	 */
+	moveTodo = async (req: Request, res: Response) => {
+		// The body was already checked against `moveTodoSchema`.
+		const projectId: number | null = req.body.projectId ?? null;
+
+		if (projectId) {
+			await this.checkProjectExists(projectId);
 		}
-	
-		try {
-			const todo = await Todo.read(this.sql, id);
-			if (todo) {
-				await todo.markComplete();
-				const markComplete = todo.props.status === "complete" ? "✅" : ""; // Check status to determine if emoji should be included
-				await res.send({
-					statusCode: StatusCode.Redirect,
-					message: "Todo marked as complete!",
-					redirect: `/todos/${todo.props.id}`,
-					payload: { markComplete }, // Include markComplete in payload object
-				});
-			} else {
-				await res.send({
-					statusCode: StatusCode.NotFound,
-					message: "Not found",
+
+		const todo = await this.findTodo(req.getId());
+		await todo.update({ projectId }, getIfMatch(req));
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Todo moved successfully!",
+			redirect: `/todos/${todo.props.id}`,
+			payload: { todo: todo.props },
+		});
+	};
+
+	/**
+	 * Makes sure that no date range in the filters ends before it starts,
+	 * since such a range can never match anything.
+	 * @param t Translates the errors into the locale of the request.
+	 * @throws ValidationError With one error per backwards range.
+	 */
+	private checkDateRanges = (filters: TodoFilters, t: Request["t"]) => {
+		const ranges = [
+			["dueAfter", "dueBefore"],
+			["createdAfter", "createdBefore"],
+			["completedAfter", "completedBefore"],
+		] as const;
+		const errors: Record<string, string> = {};
+
+		for (const [after, before] of ranges) {
+			const start = filters[after];
+			const end = filters[before];
+
+			if (start && end && start >= end) {
+				errors[before] = t("{before} must be later than {after}.", {
+					before: t(todoListQuerySchema[before].label!),
+					after: t(todoListQuerySchema[after].label!).toLowerCase(),
 				});
 			}
-		} catch (error) {
-			console.error("Error while marking todo as complete:", error);
-			await res.send({
-				statusCode: StatusCode.InternalServerError,
-				message: "Error while marking todo as complete",
-				template: "ErrorView"
-			});
+		}
+
+		if (Object.keys(errors).length > 0) {
+			throw new ValidationError(Object.values(errors)[0], errors);
 		}
 	};
-	
 
 	/**
-	 * This is something called a type guard. It's a function that checks if a
-	 * given object is of a certain type. If the object is of that type, the
-	 * function returns true, otherwise it returns false. This is useful for
-	 * checking if the request body is a valid TodoProps object.
-	 * @param props Must be `any` type because we don't know what the request body will be.
-	 * @returns Whether or not the given object is a valid TodoProps object.
-	 * @see https://www.typescriptlang.org/docs/handbook/2/narrowing.html#using-type-predicates
+	 * Sends the edit form back to an HTML client whose changes were made to
+	 * an older version of the todo than the saved one. The form keeps what
+	 * they submitted, under a comparison of each field that differs from the
+	 * saved version, and is now for the saved version, so that saving the
+	 * merge replaces it.
+	 * @param todoProps The changes that weren't saved.
+	 * @param error Why they weren't saved.
 	 */
-	isValidTodoProps = (props: any): props is TodoProps => {
-		return (
-			props.hasOwnProperty("title") &&
-			props.hasOwnProperty("description") &&
-			typeof props.title === "string" &&
-			typeof props.description === "string"
+	private sendConflict = async (
+		req: Request,
+		res: Response,
+		todoProps: Partial<TodoProps>,
+		error: PreconditionFailedError,
+	) => {
+		const saved = await this.findTodo(req.getId());
+		const savedTags = saved.props.tags?.map((tag) => tag.name) ?? [];
+		const conflicts = getChanges(
+			{ ...saved.props, tags: Tag.joinNames(savedTags) },
+			{
+				...saved.props,
+				...todoProps,
+				tags: Tag.joinNames(req.body.tags),
+			},
+			todoHistoryFields,
 		);
+
+		await res.send({
+			statusCode: StatusCode.PreconditionFailed,
+			message: error.message,
+			template: "EditFormView",
+			headers: error.headers,
+			payload: {
+				conflicts,
+				todo: {
+					...this.toFormFields(req.body, req.timeZone),
+					id: saved.props.id,
+					version: saved.props.version,
+				},
+			},
+		});
 	};
 
-	isSortByValid = (sortBy: string | undefined): boolean => {
-		return (
-			sortBy === "id" ||
-			sortBy === "title" ||
-			sortBy === "description" ||
-			sortBy === "dueAt" ||
-			sortBy === "createdAt" ||
-			sortBy === "updatedAt"
-		);
+	/**
+	 * Turns the fields of a todo into the values of the inputs of its form.
+	 * @param fields The fields, as `todoSchema` checks them.
+	 * @param timeZone The time zone of the person filling in the form.
+	 */
+	private toFormFields = (fields: Record<string, any>, timeZone: string) => {
+		return {
+			...fields,
+			// Date inputs show the day in the time zone of the person editing.
+			dueAt: fields.dueAt && formatDateToISO(fields.dueAt, timeZone),
+			repeatUntil:
+				fields.repeatUntil && formatDateToISO(fields.repeatUntil, timeZone),
+			// The form edits the tags as comma-separated text.
+			tags: fields.tags?.join(", "),
+		};
 	};
 
-	isOrderByValid = (orderBy: string | undefined): boolean => {
-		return orderBy === "asc" || orderBy === "desc";
+	/**
+	 * Makes sure a todo isn't put in a project that doesn't exist.
+	 * @throws ValidationError If there is no project with the ID.
+	 */
+	private checkProjectExists = async (projectId: number) => {
+		if (!(await Project.read(this.sql, projectId))) {
+			throw new ValidationError("That project doesn't exist.", {
+				projectId: "That project doesn't exist.",
+			});
+		}
+	};
+
+	/**
+	 * Reads a todo by ID for a handler that can't continue without it.
+	 * @param id The ID of the todo, already checked against `todoParamsSchema`.
+	 * @returns The todo with its subtodos.
+	 * @throws NotFoundError If there is no todo with the ID.
+	 */
+	private findTodo = async (id: number): Promise<Todo> => {
+		const todo = await Todo.read(this.sql, id);
+
+		if (!todo) {
+			throw new NotFoundError("Not found");
+		}
+
+		return todo;
 	};
-}
\ No newline at end of file
+}
@@ -0,0 +1,212 @@
+import { OutgoingHttpHeaders } from "http";
+import { DEFAULT_LOCALE, translate } from "./i18n/i18n";
+
+/**
+ * The base class for every error the application throws on purpose.
+ * Each subclass maps to one HTTP status code and a stable `code` that
+ * clients can rely on, unlike the message which is meant for people.
+ * The `handleErrors` middleware turns these into responses.
+ * @property statusCode The HTTP status code to respond with.
+ * @property code A stable, machine-readable identifier for the kind of error.
+ * @property title A short, human-readable heading for the ErrorView.
+ * @property hint What the person seeing the ErrorView can do about it.
+ * @property details Extra information for the client, such as per-field errors.
+ * @property headers Headers to send along with the error response.
+ * @property messageKey The message as it is written in the code, with its
+ * `{name}` placeholders, to look up its translation by. `message` has them
+ * filled in, in English.
+ * @property params The values of the placeholders in the message.
+ */
+export abstract class AppError extends Error {
+	abstract readonly statusCode: number;
+	abstract readonly code: string;
+	abstract readonly title: string;
+	abstract readonly hint: string;
+	readonly details?: Record<string, any>;
+	readonly headers?: OutgoingHttpHeaders;
+	readonly messageKey: string;
+	readonly params?: Record<string, unknown>;
+
+	constructor(
+		message: string,
+		details?: Record<string, any>,
+		params?: Record<string, unknown>,
+	) {
+		super(translate(DEFAULT_LOCALE, message, params));
+		this.name = new.target.name;
+		this.details = details;
+		this.messageKey = message;
+		this.params = params;
+	}
+}
+
+/**
+ * The request is malformed or one of its fields is invalid.
+ * @example throw new ValidationError("Invalid ID");
+ * @example throw new ValidationError("Title is required.", { title: "Title is required." });
+ */
+export class ValidationError extends AppError {
+	readonly statusCode = 400;
+	readonly code = "VALIDATION_FAILED";
+	readonly title = "Bad Request";
+	readonly hint = "Please check what you entered and try again.";
+}
+
+/**
+ * The requested resource or route does not exist.
+ * @example throw new NotFoundError("Todo not found");
+ * @example throw new NotFoundError("Invalid route: {method} {url}", undefined, { method: "GET", url: "/tods" });
+ */
+export class NotFoundError extends AppError {
+	readonly statusCode = 404;
+	readonly code = "NOT_FOUND";
+	readonly title = "Not Found";
+	readonly hint = "It may have been deleted, or the link may be wrong.";
+}
+
+/**
+ * The route exists but not for the request's method.
+ * @example throw new MethodNotAllowedError("PATCH", "/todos/1/complete", ["PUT", "OPTIONS"]);
+ */
+export class MethodNotAllowedError extends AppError {
+	readonly statusCode = 405;
+	readonly code = "METHOD_NOT_ALLOWED";
+	readonly title = "Method Not Allowed";
+	readonly hint = "That action isn't available here.";
+	readonly headers: OutgoingHttpHeaders;
+
+	constructor(method: string, url: string, allowedMethods: string[]) {
+		super(
+			"Method not allowed: {method} {url}",
+			{ allowedMethods },
+			{ method, url },
+		);
+		this.headers = { Allow: allowedMethods.join(", ") };
+	}
+}
+
+/**
+ * The request conflicts with the current state of the resource,
+ * such as a duplicate value or a reference to a missing row.
+ * @example throw new ConflictError("A tag with that name already exists.");
+ */
+export class ConflictError extends AppError {
+	readonly statusCode = 409;
+	readonly code = "CONFLICT";
+	readonly title = "Conflict";
+	readonly hint = "Reload the page to see the latest version and try again.";
+}
+
+/**
+ * The client asked to change a resource only if it was still at a
+ * version it had read, with `If-Match`, and someone else has changed it
+ * since. The current ETag is sent along, so the client can read it again.
+ * @example throw new PreconditionFailedError("The todo was changed by someone else.", '"4"');
+ */
+export class PreconditionFailedError extends AppError {
+	readonly statusCode = 412;
+	readonly code = "PRECONDITION_FAILED";
+	readonly title = "Precondition Failed";
+	readonly hint =
+		"Someone else changed it since you loaded it. Reload the page to see their changes and try again.";
+	readonly headers: OutgoingHttpHeaders;
+
+	constructor(message: string, etag: string) {
+		super(message);
+		this.headers = { ETag: etag };
+	}
+}
+
+/**
+ * The request body is bigger than the server accepts. The connection is
+ * closed after the response, since the rest of the body is never read.
+ * @example throw new ContentTooLargeError(10 * 1024 * 1024);
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-15.5.14
+ */
+export class ContentTooLargeError extends AppError {
+	readonly statusCode = 413;
+	readonly code = "CONTENT_TOO_LARGE";
+	readonly title = "Content Too Large";
+	readonly hint = "Try again with less text, or with smaller or fewer files.";
+	readonly headers: OutgoingHttpHeaders = { Connection: "close" };
+
+	constructor(maxSize: number) {
+		super("Request body is too large", { maxSize });
+	}
+}
+
+/**
+ * The request body is in a format or character set that the server
+ * can't read, such as XML. The formats it can read are sent along.
+ * @example throw new UnsupportedMediaTypeError("Unsupported content type", { contentType: "text/xml" });
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-15.5.16
+ */
+export class UnsupportedMediaTypeError extends AppError {
+	readonly statusCode = 415;
+	readonly code = "UNSUPPORTED_MEDIA_TYPE";
+	readonly title = "Unsupported Media Type";
+	readonly hint = "Send the data as JSON or as a form.";
+}
+
+/**
+ * The client asked for a part of a file with `Range` that the file
+ * doesn't have, such as bytes past its end. The size of the file is sent
+ * along, so the client can ask again for a part it does have.
+ * @example throw new RangeNotSatisfiableError(1024);
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-15.5.17
+ */
+export class RangeNotSatisfiableError extends AppError {
+	readonly statusCode = 416;
+	readonly code = "RANGE_NOT_SATISFIABLE";
+	readonly title = "Range Not Satisfiable";
+	readonly hint = "The file is smaller than the part that was asked for.";
+	readonly headers: OutgoingHttpHeaders;
+
+	constructor(size: number) {
+		super("Requested range not satisfiable", { size });
+		this.headers = { "Content-Range": `bytes */${size}` };
+	}
+}
+
+/**
+ * Something went wrong on our side. The message is always generic
+ * so that nothing about the server leaks to the client; the cause
+ * is only logged.
+ */
+export class InternalError extends AppError {
+	readonly statusCode = 500;
+	readonly code = "INTERNAL_ERROR";
+	readonly title = "Internal Server Error";
+	readonly hint = "Something went wrong on our end. Please try again later.";
+
+	constructor(public readonly cause?: unknown) {
+		super("Internal Server Error");
+	}
+}
+
+/**
+ * Turns anything that was thrown into an AppError. Known Postgres
+ * error codes are mapped to the matching client error, and anything
+ * else becomes an InternalError.
+ * @param error Whatever was caught.
+ * @returns The error to respond with.
+ * @see https://www.postgresql.org/docs/current/errcodes-appendix.html
+ */
+export const toAppError = (error: unknown): AppError => {
+	if (error instanceof AppError) {
+		return error;
+	}
+
+	switch ((error as { code?: string })?.code) {
+		case "23505": // unique_violation
+			return new ConflictError("That value is already taken.");
+		case "23503": // foreign_key_violation
+			return new ConflictError("A referenced record does not exist.");
+		case "22P02": // invalid_text_representation
+		case "22007": // invalid_datetime_format
+		case "22008": // datetime_field_overflow
+			return new ValidationError("The request contains an invalid value.");
+		default:
+			return new InternalError(error);
+	}
+};
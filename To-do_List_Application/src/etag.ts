@@ -0,0 +1,132 @@
+import { IncomingHttpHeaders } from "http";
+import { createHash } from "crypto";
+import Request from "./router/Request";
+import { PreconditionFailedError } from "./errors";
+
+/**
+ * @param version The version of a todo or subtodo.
+ * @param body The representation of it being sent, if there is one. Its
+ * hash goes after the version, since the page of a todo also changes when
+ * its subtodos or the projects in the header do, which its version doesn't.
+ * @returns Its strong ETag, which a client may send back in `If-Match`.
+ * Only the version in it has to match there.
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-8.8.3
+ * @example (3) => "\"3\""
+ * @example (3, "{...}") => "\"3-2jmj7l5rSw0yVb_v\""
+ */
+export const toETag = (version: number, body?: string) => {
+	return body === undefined ? `"${version}"` : `"${version}-${hash(body)}"`;
+};
+
+/**
+ * @param body A response body.
+ * @returns A weak ETag made from the body, for responses that aren't one
+ * todo or subtodo. It is weak because the same list can be written in
+ * different bytes, such as when it is compressed.
+ * @example "{...}" => "W/\"2jmj7l5rSw0yVb_v\""
+ */
+export const toWeakETag = (body: string | Buffer) => `W/"${hash(body)}"`;
+
+/**
+ * Works out whether the client's copy of a response is still the current
+ * one, so that it can be sent 304 Not Modified instead of the body again.
+ * `If-None-Match` compares weakly, so `W/"a"` matches `"a"`, and when it is
+ * sent `If-Modified-Since` is ignored.
+ * @param headers The headers of the request.
+ * @param etag The ETag of the response that would be sent.
+ * @param lastModified When what the response shows last changed.
+ * @returns Whether the client already has the response.
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-13.2.2
+ */
+export const isFresh = (
+	headers: IncomingHttpHeaders,
+	etag: string,
+	lastModified?: Date,
+) => {
+	const ifNoneMatch = headers["if-none-match"];
+	const ifModifiedSince = headers["if-modified-since"];
+
+	if (ifNoneMatch !== undefined) {
+		const tags = ifNoneMatch.split(",").map((tag) => tag.trim());
+
+		return (
+			tags.includes("*") ||
+			tags.some((tag) => stripWeak(tag) === stripWeak(etag))
+		);
+	}
+
+	if (ifModifiedSince !== undefined && lastModified) {
+		const since = Date.parse(ifModifiedSince);
+
+		// HTTP dates only go down to the second.
+		return (
+			!Number.isNaN(since) &&
+			Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+		);
+	}
+
+	return false;
+};
+
+/**
+ * Works out which versions of a todo or subtodo the client is willing to
+ * change, from its `If-Match` header. HTML forms can't send headers, so
+ * they send the version they were filled in from as a `version` field
+ * instead. `If-Match` compares strongly, so a weak ETag never matches.
+ * @param req The request, with its body already checked if it has one.
+ * @returns The versions, or undefined if the change doesn't depend on the
+ * version, because the client didn't say or sent "*".
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-13.1.1
+ * @example If-Match: "3", "4" => [3, 4]
+ * @example If-Match: "3-2jmj7l5rSw0yVb_v" => [3]
+ * @example If-Match: W/"3" => []
+ */
+export const getIfMatch = (req: Request): number[] | undefined => {
+	const header = req.req.headers["if-match"];
+
+	if (header === undefined) {
+		const version = Number(req.body?.version);
+
+		return Number.isInteger(version) && version > 0 ? [version] : undefined;
+	}
+
+	if (header.trim() === "*") {
+		return undefined;
+	}
+
+	return header
+		.split(",")
+		.map((tag) => tag.trim().match(/^"(\d+)(?:-[\w-]*)?"$/))
+		.filter((match): match is RegExpMatchArray => match !== null)
+		.map((match) => Number(match[1]));
+};
+
+/**
+ * Makes sure a todo or subtodo is still at one of the versions the client
+ * read before changing it.
+ * @param version The version it is at now.
+ * @param ifMatch The versions from `getIfMatch`.
+ * @param message What to tell the client if it isn't.
+ * @throws PreconditionFailedError If it is at none of them.
+ */
+export const checkVersion = (
+	version: number,
+	ifMatch: number[] | undefined,
+	message: string,
+) => {
+	if (ifMatch && !ifMatch.includes(version)) {
+		throw new PreconditionFailedError(message, toETag(version));
+	}
+};
+
+/**
+ * @returns A short hash of the body, safe to put in an ETag.
+ */
+const hash = (body: string | Buffer) => {
+	return createHash("sha1").update(body).digest("base64url").slice(0, 16);
+};
+
+/**
+ * @example W/"abc" => "abc"
+ */
+const stripWeak = (tag: string) => tag.replace(/^W\//, "");
@@ -0,0 +1,217 @@
+import { DEFAULT_LOCALE, Locale, translate } from "./i18n/i18n";
+import { Recurrence, describeRecurrence } from "./recurrence";
+import { DEFAULT_TIME_ZONE, formatDateToLocal } from "./utils";
+
+export const historyActions = [
+	"create",
+	"update",
+	"complete",
+	"delete",
+	"restore",
+] as const;
+
+export type HistoryAction = (typeof historyActions)[number];
+
+/**
+ * The value of a field before and after a change. Dates are ISO strings,
+ * since that is how they are kept in the history, and a field that had
+ * no value is null.
+ * @example { from: "Buy milk", to: "Buy oat milk" }
+ */
+export interface FieldChange {
+	from: unknown;
+	to: unknown;
+}
+
+/**
+ * The fields that changed, by name.
+ * @example { title: { from: "Buy milk", to: "Buy oat milk" } }
+ */
+export type Changes = Record<string, FieldChange>;
+
+/**
+ * The fields of a todo whose changes are kept in its history.
+ */
+export const todoHistoryFields = [
+	"title",
+	"description",
+	"status",
+	"priority",
+	"dueAt",
+	"completedAt",
+	"projectId",
+	"recurrence",
+	"deletedAt",
+	"tags",
+];
+
+/**
+ * The fields of a subtodo whose changes are kept in the history of its todo.
+ */
+export const subTodoHistoryFields = [
+	"title",
+	"status",
+	"completedAt",
+	"deletedAt",
+];
+
+/**
+ * What each field is called in the history.
+ */
+const fieldLabels: Record<string, string> = {
+	title: "Title",
+	description: "Description",
+	status: "Status",
+	priority: "Priority",
+	dueAt: "Due date",
+	completedAt: "Completed date",
+	projectId: "Project",
+	recurrence: "Repeat",
+	deletedAt: "Deleted",
+	tags: "Tags",
+};
+
+/**
+ * Compares two versions of a row field by field.
+ * @param before The row before the change, or an empty object for a new row.
+ * @param after The row after the change.
+ * @param fields The fields to compare.
+ * @returns The fields whose values differ. Empty if nothing changed.
+ * @example ({ title: "A", status: "incomplete" }, { title: "B", status: "incomplete" }, ["title", "status"]) => { title: { from: "A", to: "B" } }
+ */
+export const getChanges = (
+	before: Record<string, any>,
+	after: Record<string, any>,
+	fields: string[],
+): Changes => {
+	const changes: Changes = {};
+
+	for (const field of fields) {
+		const from = toHistoryValue(before[field]);
+		const to = toHistoryValue(after[field]);
+
+		if (JSON.stringify(from) !== JSON.stringify(to)) {
+			changes[field] = { from, to };
+		}
+	}
+
+	return changes;
+};
+
+/**
+ * Turns a value into what the history keeps: dates become ISO strings
+ * and missing values become null, so that they compare and store as JSON.
+ */
+const toHistoryValue = (value: unknown) => {
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+
+	return value ?? null;
+};
+
+/**
+ * @param entry The entry of the history: what happened, and to which
+ * subtodo if it happened to one. A subtodo that no longer exists is
+ * called by its ID.
+ * @param locale The locale to describe it in.
+ * @returns A heading for the entry.
+ * @example { action: "complete", subTodoId: 2, subTodoTitle: "Buy eggs" } => "Completed subtodo Buy eggs"
+ */
+export const describeHistoryAction = (
+	entry: {
+		action: HistoryAction;
+		subTodoId?: number | null;
+		subTodoTitle?: string | null;
+	},
+	locale: Locale = DEFAULT_LOCALE,
+): string => {
+	const headings: Record<HistoryAction, [string, string]> = {
+		create: ["Created", "Added subtodo {title}"],
+		update: ["Edited", "Edited subtodo {title}"],
+		complete: ["Completed", "Completed subtodo {title}"],
+		delete: ["Moved to the trash", "Deleted subtodo {title}"],
+		restore: ["Restored from the trash", "Restored subtodo {title}"],
+	};
+	const [todoHeading, subTodoHeading] = headings[entry.action];
+
+	return entry.subTodoId == null
+		? translate(locale, todoHeading)
+		: translate(locale, subTodoHeading, {
+				title: entry.subTodoTitle ?? `#${entry.subTodoId}`,
+			});
+};
+
+/**
+ * @param field The field, as it is named in `TodoProps` or `SubTodoProps`.
+ * @param locale The locale to name it in.
+ * @returns What the field is called.
+ * @example ("dueAt") => "Due date"
+ */
+export const describeField = (
+	field: string,
+	locale: Locale = DEFAULT_LOCALE,
+): string => {
+	return translate(locale, fieldLabels[field] ?? field);
+};
+
+/**
+ * @param field The field the value is of.
+ * @param value The value, as the history keeps it.
+ * @param locale The locale to describe it in.
+ * @param timeZone The time zone to show dates in.
+ * @returns How the value reads to a person.
+ * @example ("priority", "high", "fr") => "haute"
+ */
+export const describeFieldValue = (
+	field: string,
+	value: unknown,
+	locale: Locale = DEFAULT_LOCALE,
+	timeZone = DEFAULT_TIME_ZONE,
+): string => {
+	if (value === null || value === undefined) {
+		return translate(locale, "none");
+	}
+
+	switch (field) {
+		case "dueAt":
+		case "completedAt":
+		case "deletedAt":
+			return formatDateToLocal(
+				new Date(value as string),
+				{ dateStyle: "medium", timeStyle: "short" },
+				timeZone,
+				locale,
+			);
+		case "recurrence":
+			return describeRecurrence(value as Recurrence, locale);
+		case "status":
+		case "priority":
+			return translate(locale, `${value}`);
+		case "projectId":
+			return `#${value}`;
+		default:
+			return `${value}`;
+	}
+};
+
+/**
+ * @param field The field that changed.
+ * @param change Its value before and after.
+ * @param locale The locale to describe it in.
+ * @param timeZone The time zone to show dates in.
+ * @returns How the change reads to a person.
+ * @example ("status", { from: "incomplete", to: "complete" }) => "Status: incomplete → complete"
+ */
+export const describeChange = (
+	field: string,
+	change: FieldChange,
+	locale: Locale = DEFAULT_LOCALE,
+	timeZone = DEFAULT_TIME_ZONE,
+): string => {
+	return translate(locale, "{field}: {from} → {to}", {
+		field: describeField(field, locale),
+		from: describeFieldValue(field, change.from, locale, timeZone),
+		to: describeFieldValue(field, change.to, locale, timeZone),
+	});
+};
@@ -0,0 +1,25 @@
+import { Catalog } from "./i18n";
+
+/**
+ * Messages are written in English already, so only the ones whose
+ * English changes with a number are here.
+ */
+const en: Catalog = {
+	"{count} days overdue": {
+		one: "{count} day overdue",
+		other: "{count} days overdue",
+	},
+	"Every {count} days": { one: "Every day", other: "Every {count} days" },
+	"Every {count} weeks": { one: "Every week", other: "Every {count} weeks" },
+	"Every {count} months": {
+		one: "Every month",
+		other: "Every {count} months",
+	},
+	"Every {count} years": { one: "Every year", other: "Every {count} years" },
+	"{count} more times": {
+		one: "for the last time",
+		other: "{count} more times",
+	},
+};
+
+export default en;
@@ -0,0 +1,390 @@
+import { Catalog } from "./i18n";
+
+/**
+ * French messages, keyed by their English text.
+ */
+const fr: Catalog = {
+	// Layout
+	"Todo App": "Application de tâches",
+	"Elsana`s Web Todo Application": "L'application web de tâches d'Elsana",
+	Home: "Accueil",
+	Todos: "Tâches",
+	Projects: "Projets",
+	Tags: "Étiquettes",
+	Search: "Rechercher",
+	"Search todos": "Rechercher des tâches",
+	Copyright: "Tous droits réservés",
+
+	// Home
+	"Homepage!": "Page d'accueil !",
+	"Get Started!": "Commencer !",
+	"Key Features": "Fonctionnalités principales",
+	"Easy Task Creation": "Création de tâches facile",
+	"Create new tasks with just a few clicks or taps.":
+		"Créez de nouvelles tâches en quelques clics ou touches.",
+	"Sub-tasks": "Sous-tâches",
+	"Break down tasks into smaller, more manageable sub-tasks.":
+		"Découpez vos tâches en sous-tâches plus petites et plus faciles à gérer.",
+	"Due Dates": "Échéances",
+	"Set due dates for tasks to keep track of deadlines.":
+		"Donnez une échéance à vos tâches pour ne rater aucune date limite.",
+	'"This app has changed the way I manage my tasks!" - John Abbott':
+		"« Cette application a changé ma façon de gérer mes tâches ! » - John Abbott",
+	"List All Todos": "Voir toutes les tâches",
+
+	// Todos
+	"Create Todo": "Créer une tâche",
+	"Edit Todo": "Modifier la tâche",
+	Title: "Titre",
+	"Title:": "Titre :",
+	Description: "Description",
+	"Description:": "Description :",
+	Status: "Statut",
+	"Status:": "Statut :",
+	Priority: "Priorité",
+	"Priority:": "Priorité :",
+	Project: "Projet",
+	"Project:": "Projet :",
+	"Projects:": "Projets :",
+	"Tags:": "Étiquettes :",
+	"New tag:": "Nouvelle étiquette :",
+	"work, errands": "travail, courses",
+	"SubTodos:": "Sous-tâches :",
+	"New SubTodo:": "Nouvelle sous-tâche :",
+	"Due date": "Échéance",
+	"Due date:": "Échéance :",
+	Due: "Échéance",
+	"No project": "Aucun projet",
+	"No todos found": "Aucune tâche trouvée",
+	"in {title}": "dans {title}",
+	"{count} of {total} todos": "{count} tâches sur {total}",
+	Create: "Créer",
+	Save: "Enregistrer",
+	Edit: "Modifier",
+	Delete: "Supprimer",
+	Complete: "Terminer",
+	Move: "Déplacer",
+	Add: "Ajouter",
+	Previous: "Précédent",
+	Next: "Suivant",
+	incomplete: "à faire",
+	complete: "terminée",
+	Incomplete: "À faire",
+	low: "basse",
+	medium: "moyenne",
+	high: "haute",
+	urgent: "urgente",
+	Low: "Basse",
+	Medium: "Moyenne",
+	High: "Haute",
+	Urgent: "Urgente",
+	"Todo list retrieved": "Liste des tâches récupérée",
+	"Todo retrieved": "Tâche récupérée",
+	"Form served successfully!": "Formulaire envoyé avec succès !",
+	"Todo created successfully!": "Tâche créée avec succès !",
+	"Todo updated successfully!": "Tâche mise à jour avec succès !",
+	"Todo deleted successfully!": "Tâche supprimée avec succès !",
+	"Todo marked as complete!": "Tâche marquée comme terminée !",
+	"Todo moved successfully!": "Tâche déplacée avec succès !",
+	"Todo not found": "Tâche introuvable",
+	"Request body must include title and description.":
+		"Le corps de la requête doit contenir un titre et une description.",
+	"Request body must include title.":
+		"Le corps de la requête doit contenir un titre.",
+	"Title and description are required for updating the todo.":
+		"Un titre et une description sont requis pour mettre à jour la tâche.",
+	"Title is required.": "Le titre est requis.",
+
+	// Subtodos
+	"SubTodo list retrieved": "Liste des sous-tâches récupérée",
+	"SubTodo created successfully!": "Sous-tâche créée avec succès !",
+	"SubTodo updated successfully!": "Sous-tâche mise à jour avec succès !",
+	"SubTodo deleted successfully!": "Sous-tâche supprimée avec succès !",
+	"SubTodo marked as complete!": "Sous-tâche marquée comme terminée !",
+	"SubTodo not found": "Sous-tâche introuvable",
+	"SubTodo not created": "La sous-tâche n'a pas été créée",
+	"SubTodo restored successfully!": "Sous-tâche restaurée avec succès !",
+	"SubTodo not found in the trash": "Sous-tâche introuvable dans la corbeille",
+
+	// Trash
+	Trash: "Corbeille",
+	"Deleted todos can be restored until the trash is emptied.":
+		"Les tâches supprimées peuvent être restaurées jusqu'à ce que la corbeille soit vidée.",
+	Deleted: "Supprimée",
+	Restore: "Restaurer",
+	Todo: "Tâche",
+	SubTodos: "Sous-tâches",
+	"No deleted todos": "Aucune tâche supprimée",
+	"No deleted subtodos": "Aucune sous-tâche supprimée",
+	"Trash retrieved": "Corbeille récupérée",
+	"Todo restored successfully!": "Tâche restaurée avec succès !",
+	"Todo not found in the trash": "Tâche introuvable dans la corbeille",
+
+	// History
+	History: "Historique",
+	"Todo history retrieved": "Historique de la tâche récupéré",
+	Created: "Créée",
+	Edited: "Modifiée",
+	Completed: "Terminée",
+	"Moved to the trash": "Mise à la corbeille",
+	"Restored from the trash": "Restaurée depuis la corbeille",
+	"Added subtodo {title}": "Sous-tâche {title} ajoutée",
+	"Edited subtodo {title}": "Sous-tâche {title} modifiée",
+	"Completed subtodo {title}": "Sous-tâche {title} terminée",
+	"Deleted subtodo {title}": "Sous-tâche {title} supprimée",
+	"Restored subtodo {title}": "Sous-tâche {title} restaurée",
+	"{field}: {from} → {to}": "{field} : {from} → {to}",
+	none: "aucun",
+
+	// Conflicts
+	"Someone else changed this todo while you were editing it.":
+		"Quelqu'un d'autre a modifié cette tâche pendant que vous la modifiiez.",
+	"Your changes weren't saved. Here is how they differ from the saved version. Change the form below into the version you want to keep, and save it again.":
+		"Vos modifications n'ont pas été enregistrées. Voici en quoi elles diffèrent de la version enregistrée. Modifiez le formulaire ci-dessous pour obtenir la version à garder, puis enregistrez-la à nouveau.",
+	Field: "Champ",
+	"Saved version": "Version enregistrée",
+	"Your version": "Votre version",
+	"Discard my changes": "Abandonner mes modifications",
+	Version: "Version",
+	"The todo was changed by someone else since you last read it.":
+		"La tâche a été modifiée par quelqu'un d'autre depuis votre dernière lecture.",
+	"The subtodo was changed by someone else since you last read it.":
+		"La sous-tâche a été modifiée par quelqu'un d'autre depuis votre dernière lecture.",
+
+	// Projects
+	Name: "Nom",
+	"Name:": "Nom :",
+	"Create project": "Créer un projet",
+	"Edit Project": "Modifier le projet",
+	"Edit project": "Modifier le projet",
+	"Delete project": "Supprimer le projet",
+	"Manage projects": "Gérer les projets",
+	"Create a todo in this project": "Créer une tâche dans ce projet",
+	"Deleting the project keeps its todos.":
+		"Supprimer le projet conserve ses tâches.",
+	"No projects found": "Aucun projet trouvé",
+	"Project list retrieved": "Liste des projets récupérée",
+	"Project retrieved": "Projet récupéré",
+	"Project created successfully!": "Projet créé avec succès !",
+	"Project updated successfully!": "Projet mis à jour avec succès !",
+	"Project deleted successfully!": "Projet supprimé avec succès !",
+	"Project not found": "Projet introuvable",
+	"That project doesn't exist.": "Ce projet n'existe pas.",
+	"A project with that name already exists.":
+		"Un projet portant ce nom existe déjà.",
+	"Request body must include name.":
+		"Le corps de la requête doit contenir un nom.",
+	"Name is required for updating the project.":
+		"Un nom est requis pour mettre à jour le projet.",
+	"Invalid project": "Projet invalide",
+
+	// Tags
+	Tag: "Étiquette",
+	Rename: "Renommer",
+	"New name for {name}": "Nouveau nom pour {name}",
+	"No tags found": "Aucune étiquette trouvée",
+	"Tag list retrieved": "Liste des étiquettes récupérée",
+	"Tag retrieved": "Étiquette récupérée",
+	"Tag created successfully!": "Étiquette créée avec succès !",
+	"Tag updated successfully!": "Étiquette mise à jour avec succès !",
+	"Tag deleted successfully!": "Étiquette supprimée avec succès !",
+	"Tag not found": "Étiquette introuvable",
+	"A tag with that name already exists.":
+		"Une étiquette portant ce nom existe déjà.",
+	"Tags must be at most 10 names made of letters, numbers, - and _.":
+		"Il peut y avoir au plus 10 étiquettes, faites de lettres, de chiffres, de - et de _.",
+
+	// Filters, sorting and search
+	Filter: "Filtrer",
+	Apply: "Appliquer",
+	Clear: "Effacer",
+	Any: "Toutes",
+	"Any of them": "Au moins une",
+	"All of them": "Toutes",
+	Overdue: "En retard",
+	"Has incomplete subtodos": "A des sous-tâches à faire",
+	"Title contains": "Le titre contient",
+	"Created after": "Créée après",
+	"Created before": "Créée avant",
+	"Due after": "Échéance après",
+	"Due before": "Échéance avant",
+	"Completed after": "Terminée après",
+	"Completed before": "Terminée avant",
+	"{before} must be later than {after}.":
+		"{before} : doit être après {after}.",
+	Sort: "Trier",
+	"Sort by": "Trier par",
+	Order: "Ordre",
+	Ascending: "Croissant",
+	Descending: "Décroissant",
+	"Created date": "Date de création",
+	"Created order": "Ordre de création",
+	"Completed date": "Date de fin",
+	"Priority, then due date": "Priorité, puis échéance",
+	'Search results for "{q}"': "Résultats de recherche pour « {q} »",
+	"Search results retrieved": "Résultats de recherche récupérés",
+	"Search text": "Texte recherché",
+	Cursor: "Curseur",
+	Limit: "Limite",
+	Offset: "Décalage",
+	"Invalid cursor.": "Curseur invalide.",
+	"Invalid filter parameter.": "Paramètre de filtre invalide.",
+	"Invalid orderBy parameter.": "Paramètre orderBy invalide.",
+	"Invalid sortBy parameter": "Paramètre sortBy invalide",
+	"Invalid sortBy parameter.": "Paramètre sortBy invalide.",
+	"Invalid tagMatch parameter.": "Paramètre tagMatch invalide.",
+	"Invalid status": "Statut invalide",
+
+	// Due dates
+	"Due today": "À faire aujourd'hui",
+	"Due tomorrow": "À faire demain",
+	"Due yesterday": "À faire hier",
+	"Due {count} days from now": {
+		one: "À faire dans {count} jour",
+		other: "À faire dans {count} jours",
+	},
+	"Due {count} days ago": {
+		one: "À faire il y a {count} jour",
+		other: "À faire il y a {count} jours",
+	},
+	"Due {date}": "À faire le {date}",
+	overdue: "en retard",
+	"{count} days overdue": {
+		one: "{count} jour de retard",
+		other: "{count} jours de retard",
+	},
+
+	// Recurrence
+	Repeat: "Répéter",
+	"Repeats:": "Se répète :",
+	"Does not repeat": "Ne se répète pas",
+	Daily: "Tous les jours",
+	Weekly: "Toutes les semaines",
+	Monthly: "Tous les mois",
+	Yearly: "Tous les ans",
+	every: "tous les",
+	"On:": "Le :",
+	"(weekly only)": "(hebdomadaire seulement)",
+	"Until:": "Jusqu'au :",
+	"or this many times:": "ou ce nombre de fois :",
+	Mon: "lun.",
+	Tue: "mar.",
+	Wed: "mer.",
+	Thu: "jeu.",
+	Fri: "ven.",
+	Sat: "sam.",
+	Sun: "dim.",
+	"Repeat interval": "Intervalle de répétition",
+	"Repeat until": "Répéter jusqu'au",
+	"Days of the week": "Jours de la semaine",
+	"Number of times": "Nombre de fois",
+	"Every {count} days": {
+		one: "Tous les jours",
+		other: "Tous les {count} jours",
+	},
+	"Every {count} weeks": {
+		one: "Toutes les semaines",
+		other: "Toutes les {count} semaines",
+	},
+	"Every {count} months": {
+		one: "Tous les mois",
+		other: "Tous les {count} mois",
+	},
+	"Every {count} years": {
+		one: "Tous les ans",
+		other: "Tous les {count} ans",
+	},
+	"{every} on {days}": "{every} le {days}",
+	"until {date}": "jusqu'au {date}",
+	"{count} more times": {
+		one: "pour la dernière fois",
+		other: "encore {count} fois",
+	},
+	"Days of the week can only be chosen for weekly todos.":
+		"Les jours de la semaine ne peuvent être choisis que pour les tâches hebdomadaires.",
+	"Choose either an end date or a number of times, not both.":
+		"Choisissez une date de fin ou un nombre de fois, mais pas les deux.",
+
+	// Validation
+	"{label} is required.": "{label} : ce champ est requis.",
+	"{label} must be text.": "{label} : doit être du texte.",
+	"{label} must be at least {min} characters.":
+		"{label} : doit contenir au moins {min} caractères.",
+	"{label} must be at most {max} characters.":
+		"{label} : doit contenir au plus {max} caractères.",
+	"{label} is not in the right format.": "{label} : le format est incorrect.",
+	"{label} must be a number.": "{label} : doit être un nombre.",
+	"{label} must be a whole number.": "{label} : doit être un nombre entier.",
+	"{label} must be at least {min}.": "{label} : doit valoir au moins {min}.",
+	"{label} must be at most {max}.": "{label} : doit valoir au plus {max}.",
+	"{label} must be a valid date.": "{label} : doit être une date valide.",
+	"{label} must be true or false.": "{label} : doit être vrai ou faux.",
+	"{label} must be one of {values}.":
+		"{label} : doit être l'une des valeurs {values}.",
+	"{label} must be some of {values}.":
+		"{label} : doit être parmi les valeurs {values}.",
+	"{label} must be a list of text.": "{label} : doit être une liste de textes.",
+	"{label} must have at most {max} items.":
+		"{label} : doit contenir au plus {max} éléments.",
+	"{label} has an item that is not in the right format.":
+		"{label} : un des éléments n'a pas le bon format.",
+	"Request body must include at least one of {fields}.":
+		"Le corps de la requête doit contenir au moins l'un des champs {fields}.",
+	or: "ou",
+	"Invalid ID": "Identifiant invalide",
+
+	// Errors
+	"Bad Request": "Requête invalide",
+	"Please check what you entered and try again.":
+		"Vérifiez ce que vous avez saisi et réessayez.",
+	"Not Found": "Introuvable",
+	"Not found": "Introuvable",
+	"Invalid route: {method} {url}": "Route invalide : {method} {url}",
+	"It may have been deleted, or the link may be wrong.":
+		"Il a peut-être été supprimé, ou le lien est peut-être incorrect.",
+	"Method Not Allowed": "Méthode non autorisée",
+	"Method not allowed: {method} {url}":
+		"Méthode non autorisée : {method} {url}",
+	"That action isn't available here.": "Cette action n'est pas disponible ici.",
+	Conflict: "Conflit",
+	"Reload the page to see the latest version and try again.":
+		"Rechargez la page pour voir la dernière version et réessayez.",
+	"Precondition Failed": "Échec de la précondition",
+	"Someone else changed it since you loaded it. Reload the page to see their changes and try again.":
+		"Quelqu'un d'autre l'a modifié depuis que vous l'avez chargé. Rechargez la page pour voir ses modifications et réessayez.",
+	"Content Too Large": "Contenu trop volumineux",
+	"Try again with less text, or with smaller or fewer files.":
+		"Réessayez avec moins de texte, ou avec des fichiers plus petits ou moins nombreux.",
+	"Request body is too large": "Le corps de la requête est trop volumineux",
+	"Unsupported Media Type": "Type de média non pris en charge",
+	"Send the data as JSON or as a form.":
+		"Envoyez les données en JSON ou sous forme de formulaire.",
+	"Unsupported content type": "Type de contenu non pris en charge",
+	"Unsupported character set": "Jeu de caractères non pris en charge",
+	"Request body must be valid JSON":
+		"Le corps de la requête doit être du JSON valide",
+	"Request body must be a JSON object":
+		"Le corps de la requête doit être un objet JSON",
+	"Request body is not valid text in its character set":
+		"Le corps de la requête n'est pas un texte valide dans son jeu de caractères",
+	"Multipart body is malformed": "Le corps multipart est mal formé",
+	"Range Not Satisfiable": "Plage non satisfaisable",
+	"The file is smaller than the part that was asked for.":
+		"Le fichier est plus petit que la partie demandée.",
+	"Requested range not satisfiable":
+		"La plage demandée n'est pas satisfaisable",
+	"File not found": "Fichier introuvable",
+	"Internal Server Error": "Erreur interne du serveur",
+	"Something went wrong on our end. Please try again later.":
+		"Un problème est survenu de notre côté. Veuillez réessayer plus tard.",
+	"That value is already taken.": "Cette valeur est déjà utilisée.",
+	"A referenced record does not exist.":
+		"Un enregistrement référencé n'existe pas.",
+	"The request contains an invalid value.":
+		"La requête contient une valeur invalide.",
+	"Request ID:": "Identifiant de la requête :",
+	"Back to the homepage": "Retour à l'accueil",
+	"Allowed methods": "Méthodes autorisées",
+};
+
+export default fr;
@@ -0,0 +1,104 @@
+import en from "./en";
+import fr from "./fr";
+
+export const locales = ["en", "fr"] as const;
+
+export type Locale = (typeof locales)[number];
+
+/**
+ * The locale of anyone who doesn't ask for one we have. The messages in
+ * the code and templates are written in it.
+ */
+export const DEFAULT_LOCALE: Locale = "en";
+
+/**
+ * What each locale calls itself, for the language links in the header.
+ */
+export const localeNames: Record<Locale, string> = {
+	en: "English",
+	fr: "Français",
+};
+
+/**
+ * The forms of a message that depends on a number, one per plural
+ * category of the locale. `other` is required since every locale has it.
+ * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/PluralRules
+ * @example { one: "{count} day overdue", other: "{count} days overdue" }
+ */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & {
+	other: string;
+};
+
+/**
+ * The translations of a locale. Messages are looked up by their English
+ * text, the way they are written in the code and templates, so a message
+ * that a catalog doesn't have is shown in English.
+ * @example { "Todo retrieved": "Tâche récupérée" }
+ */
+export type Catalog = Record<string, string | PluralForms>;
+
+const catalogs: Record<Locale, Catalog> = { en, fr };
+
+/**
+ * @returns Whether the text is the code of a locale we have messages for.
+ */
+export const isLocale = (text: unknown): text is Locale => {
+	return locales.includes(text as Locale);
+};
+
+/**
+ * Translates a message and fills in its placeholders. A message with a
+ * `count` uses the plural form that the count takes in the locale.
+ * @param locale The locale to translate into.
+ * @param message The message, in English.
+ * @param params The values of the `{name}` placeholders in the message.
+ * @returns The translated message, or the English one if the locale doesn't have it.
+ * @example ("fr", "{count} days overdue", { count: 1 }) => "1 jour de retard"
+ */
+export const translate = (
+	locale: Locale,
+	message: string,
+	params: Record<string, unknown> = {},
+): string => {
+	const entry = catalogs[locale][message] ?? catalogs.en[message] ?? message;
+	const text =
+		typeof entry === "string"
+			? entry
+			: entry[new Intl.PluralRules(locale).select(Number(params.count))] ??
+				entry.other;
+
+	return text.replace(/\{(\w+)\}/g, (placeholder, name) =>
+		name in params ? String(params[name]) : placeholder,
+	);
+};
+
+/**
+ * Picks the locale that the client prefers most out of the ones we have.
+ * Only the language of each tag counts, so "fr-CA" gets French.
+ * @param acceptLanguage The `Accept-Language` header of the request.
+ * @returns The locale, or the default one if the client doesn't prefer any we have.
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Accept-Language
+ * @example "de-DE,fr-CA;q=0.8,en;q=0.5" => "fr"
+ */
+export const negotiateLocale = (acceptLanguage = ""): Locale => {
+	const preferences = acceptLanguage
+		.split(",")
+		.map((part) => {
+			const [tag, ...parameters] = part.trim().split(";");
+			const q = parameters
+				.map((parameter) => parameter.trim().match(/^q=([\d.]+)$/))
+				.find(Boolean);
+
+			return {
+				language: tag.trim().split("-")[0].toLowerCase(),
+				quality: q ? Number(q[1]) : 1,
+			};
+		})
+		.filter(({ quality }) => quality > 0)
+		// Array.prototype.sort is stable, so equal preferences keep their order.
+		.sort((a, b) => b.quality - a.quality);
+
+	return (
+		preferences.map(({ language }) => language).find(isLocale) ?? DEFAULT_LOCALE
+	);
+};
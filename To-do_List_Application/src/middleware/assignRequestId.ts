@@ -0,0 +1,23 @@
+import { Middleware } from "../router/Router";
+
+/**
+ * Lets a client or proxy pick the request ID, as long as it's short and
+ * plain enough to be safe to log and echo back.
+ */
+const VALID_REQUEST_ID = /^[\w.-]{1,64}$/;
+
+/**
+ * Gives every request an ID and sends it back in the `X-Request-Id`
+ * header, so that a response (or an error page) can be matched with
+ * the server logs. An incoming `X-Request-Id` is reused if it's valid.
+ */
+export const assignRequestId: Middleware = async (req, res, next) => {
+	const incomingId = req.req.headers["x-request-id"];
+
+	if (typeof incomingId === "string" && VALID_REQUEST_ID.test(incomingId)) {
+		req.id = incomingId;
+	}
+
+	res.res.setHeader("X-Request-Id", req.id);
+	await next();
+};
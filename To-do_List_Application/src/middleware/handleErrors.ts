@@ -0,0 +1,31 @@
+import { Middleware } from "../router/Router";
+import { InternalError, toAppError } from "../errors";
+
+/**
+ * Catches anything thrown further down the chain and sends it to the
+ * client as a structured error. Errors that aren't an AppError become a
+ * 500 Internal Server Error whose cause is only logged, never sent.
+ * Register this before any middleware whose errors it should catch.
+ */
+export const handleErrors: Middleware = async (req, res, next) => {
+	try {
+		await next();
+	} catch (caught) {
+		const error = toAppError(caught);
+
+		if (error instanceof InternalError) {
+			console.error(
+				`[${req.id}] Error while handling request:`,
+				error.cause ?? error,
+			);
+		}
+
+		// If part of the response already went out, all we can do is log.
+		if (res.res.headersSent) {
+			res.res.end();
+			return;
+		}
+
+		await res.sendError(error);
+	}
+};
@@ -0,0 +1,22 @@
+import postgres from "postgres";
+import { Middleware } from "../router/Router";
+import { ContentType } from "../router/Response";
+import Project from "../models/Project";
+
+/**
+ * Creates middleware that reads the projects for the navigation in the
+ * header. Only HTML clients get pages with a header, so the projects are
+ * not read for anyone else.
+ * @param sql The postgres connection object.
+ */
+export const loadProjects = (sql: postgres.Sql<any>): Middleware => {
+	return async (req, res, next) => {
+		if (req.accepts(ContentType.HTML)) {
+			const projects = await Project.readAll(sql);
+
+			res.locals.projects = projects.map((project) => project.props);
+		}
+
+		await next();
+	};
+};
@@ -0,0 +1,10 @@
+import { Middleware } from "../router/Router";
+
+/**
+ * Logs every incoming request before passing it down the chain.
+ * @example GET /todos => ">>> GET /todos [3f1c...]"
+ */
+export const logRequest: Middleware = async (req, res, next) => {
+	console.log(`>>> ${req.req.method} ${req.req.url} [${req.id}]`);
+	await next();
+};
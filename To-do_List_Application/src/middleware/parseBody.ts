@@ -0,0 +1,27 @@
+import { Middleware } from "../router/Router";
+import { BodyOptions } from "../router/body";
+import { removeUploads } from "../router/multipart";
+
+/**
+ * Creates middleware that parses the request body and extracts the incoming data.
+ * This is only done for POST, PUT and PATCH requests because they
+ * normally carry data in their body whereas GET and DELETE requests do not.
+ * A body that can't be parsed gets a 400 Bad Request response, one that
+ * is too big a 413, and one in a format we can't read a 415.
+ * Uploaded files are deleted once the rest of the chain is done with them.
+ * @param options How big a body may be and where uploaded files go.
+ * @example router.use(parseBody({ maxSize: 1024 * 1024 }));
+ */
+export const parseBody = (options: BodyOptions = {}): Middleware => {
+	return async (req, res, next) => {
+		if (["POST", "PUT", "PATCH"].includes(req.req.method ?? "")) {
+			await req.parseBody(options);
+		}
+
+		try {
+			await next();
+		} finally {
+			await removeUploads(req.files);
+		}
+	};
+};
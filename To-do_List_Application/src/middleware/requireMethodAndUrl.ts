@@ -0,0 +1,18 @@
+import { Middleware } from "../router/Router";
+import { ValidationError } from "../errors";
+
+/**
+ * Rejects requests that are missing an HTTP method or a URL,
+ * since neither can be routed.
+ */
+export const requireMethodAndUrl: Middleware = async (req, res, next) => {
+	if (!req.req.method) {
+		throw new ValidationError("Invalid request method");
+	}
+
+	if (!req.req.url) {
+		throw new ValidationError("Invalid request URL");
+	}
+
+	await next();
+};
@@ -0,0 +1,44 @@
+import { Middleware } from "../router/Router";
+import { isLocale, localeNames, locales, negotiateLocale } from "../i18n/i18n";
+
+/**
+ * The cookie that remembers the locale someone picked.
+ */
+export const LOCALE_COOKIE = "locale";
+
+/**
+ * Works out which locale to answer in: the `lang` query param if there
+ * is one, which is also remembered in a cookie for the requests after
+ * it, otherwise the locale cookie, otherwise the best match for the
+ * `Accept-Language` header. Locales we don't have are ignored. The
+ * templates get a link to each locale that keeps the rest of the query,
+ * so that switching doesn't lose a filter or a page.
+ * @example GET /todos?lang=fr
+ */
+export const resolveLocale: Middleware = async (req, res, next) => {
+	const override = req.getSearchParams().get("lang");
+	const cookie = req.getCookie(LOCALE_COOKIE);
+
+	if (isLocale(override)) {
+		req.locale = override;
+		res.res.setHeader(
+			"Set-Cookie",
+			`${LOCALE_COOKIE}=${override}; Path=/; Max-Age=31536000; SameSite=Lax`,
+		);
+	} else if (isLocale(cookie)) {
+		req.locale = cookie;
+	} else {
+		req.locale = negotiateLocale(req.req.headers["accept-language"]);
+	}
+
+	res.res.setHeader("Content-Language", req.locale);
+	res.locals.locale = req.locale;
+	res.locals.locales = locales.map((code) => {
+		const params = new URLSearchParams(req.getSearchParams());
+
+		params.set("lang", code);
+
+		return { code, name: localeNames[code], href: `?${params}` };
+	});
+	await next();
+};
@@ -0,0 +1,32 @@
+import { Middleware } from "../router/Router";
+import { isValidTimeZone } from "../utils";
+
+/**
+ * The cookie that pages set to the time zone of the browser, see Footer.hbs.
+ */
+export const TIME_ZONE_COOKIE = "timeZone";
+
+/**
+ * Works out which time zone the client wants dates in: the `X-Time-Zone`
+ * header if it sends one, otherwise the time zone cookie, otherwise the
+ * time zone of the server. Names that aren't time zones are ignored. The
+ * zone is used to read dates from forms and to show dates in views.
+ * @example X-Time-Zone: America/Toronto
+ */
+export const resolveTimeZone: Middleware = async (req, res, next) => {
+	const header = req.req.headers["x-time-zone"];
+	const candidates = [
+		typeof header === "string" ? header.trim() : undefined,
+		req.getCookie(TIME_ZONE_COOKIE),
+	];
+	const timeZone = candidates.find(
+		(candidate) => candidate && isValidTimeZone(candidate),
+	);
+
+	if (timeZone) {
+		req.timeZone = timeZone;
+	}
+
+	res.locals.timeZone = req.timeZone;
+	await next();
+};
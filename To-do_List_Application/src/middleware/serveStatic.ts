@@ -0,0 +1,358 @@
+import path from "path";
+import { createReadStream, Stats } from "fs";
+import { stat } from "fs/promises";
+import { pipeline } from "stream/promises";
+import { OutgoingHttpHeaders } from "http";
+import { Middleware } from "../router/Router";
+import { StatusCode } from "../router/Response";
+import {
+	MethodNotAllowedError,
+	NotFoundError,
+	RangeNotSatisfiableError,
+} from "../errors";
+import { isFresh } from "../etag";
+import {
+	COMPRESSION_THRESHOLD,
+	Encoding,
+	createCompressor,
+	encodings,
+	isCompressible,
+	negotiateEncoding,
+	precompressedExtensions,
+	withEncoding,
+} from "../compression";
+
+/**
+ * The only files that are served as they are, by URL. A URL that ends in
+ * a slash serves anything in that directory and below it, and any other
+ * URL serves that one file. Nothing else on disk can be asked for, such
+ * as the source code or `.env`.
+ */
+export const staticPaths: Record<string, string> = {
+	"/styles/": "styles",
+	"/images/": "images",
+	"/favicon.ico": "favicon.ico",
+};
+
+/**
+ * The media types of the kinds of files that are served, by extension.
+ * Anything else is sent as `application/octet-stream`.
+ */
+export const mimeTypes: Record<string, string> = {
+	".css": "text/css; charset=utf-8",
+	".js": "text/javascript; charset=utf-8",
+	".map": "application/json; charset=utf-8",
+	".json": "application/json; charset=utf-8",
+	".txt": "text/plain; charset=utf-8",
+	".svg": "image/svg+xml",
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".avif": "image/avif",
+	".ico": "image/x-icon",
+	".woff": "font/woff",
+	".woff2": "font/woff2",
+};
+
+/**
+ * How many seconds browsers and proxies may keep a static file without
+ * asking for it again. The file names have no version in them that a
+ * change would bump, so a changed stylesheet can take this long to show.
+ */
+const STATIC_MAX_AGE = 60 * 60;
+
+/**
+ * A part of a file, from `start` to `end`, both included, as
+ * `createReadStream` takes them.
+ */
+export interface ByteRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Creates middleware that serves the files under `staticPaths` and passes
+ * every other request on. Files are streamed rather than read into memory,
+ * so large ones are fine, and a `Range` header gets only that part of the
+ * file, so that a download can be resumed or a video skipped through.
+ * Anyone may cache a file for `STATIC_MAX_AGE` seconds, and after that a
+ * client whose copy is still the same as the file gets 304 Not Modified.
+ * The ETag is made from the size of the file and when it was last changed,
+ * so the file only has to be read when it is sent.
+ * Text files are sent compressed to clients that accept it: a copy that
+ * was compressed ahead of time is sent if there is one next to the file,
+ * such as `style.css.br`, and otherwise a file of at least
+ * `COMPRESSION_THRESHOLD` bytes is compressed as it is sent.
+ * @param root The directory that the paths in `staticPaths` are in.
+ * @throws NotFoundError If the file doesn't exist or the path tries to leave its directory.
+ * @throws MethodNotAllowedError If the request is anything but GET or HEAD.
+ * @throws RangeNotSatisfiableError If the range is past the end of the file.
+ * @example router.use(serveStatic());
+ */
+export const serveStatic = (root = "."): Middleware => {
+	return async (req, res, next) => {
+		const { pathname } = req.getURL();
+
+		if (!isStaticPath(pathname)) {
+			await next();
+			return;
+		}
+
+		const method = req.getMethod();
+
+		if (method !== "GET" && method !== "HEAD") {
+			throw new MethodNotAllowedError(method, pathname, ["GET", "HEAD"]);
+		}
+
+		const filePath = resolveStaticPath(pathname, root);
+		const stats = filePath ? await stat(filePath).catch(() => null) : null;
+
+		if (!filePath || !stats?.isFile()) {
+			throw new NotFoundError("File not found");
+		}
+
+		const { headers: requestHeaders } = req.req;
+		const acceptEncoding = requestHeaders["accept-encoding"];
+		const contentType = getContentType(filePath);
+		const compressible = isCompressible(contentType);
+		const precompressed = compressible
+			? await findPrecompressed(filePath, stats, acceptEncoding)
+			: null;
+		// Without a precompressed copy, a big enough file is compressed as
+		// it is sent. Its compressed bytes aren't known before then, so a
+		// range of them can't be cut out, and a range gets the plain file.
+		const encoding =
+			precompressed?.encoding ??
+			(compressible &&
+			stats.size >= COMPRESSION_THRESHOLD &&
+			!requestHeaders.range
+				? negotiateEncoding(acceptEncoding)
+				: null);
+		const sent = precompressed ?? { path: filePath, stats };
+		const compressing = encoding !== null && !precompressed;
+		const lastModified = stats.mtime.toUTCString();
+		const headers: OutgoingHttpHeaders = {
+			ETag: withEncoding(toFileETag(sent.stats), encoding),
+			"Last-Modified": lastModified,
+			"Cache-Control": `public, max-age=${STATIC_MAX_AGE}`,
+			"Accept-Ranges": "bytes",
+			"Content-Type": contentType,
+			"X-Content-Type-Options": "nosniff",
+		};
+
+		if (compressible) {
+			headers.Vary = "Accept-Encoding";
+		}
+
+		if (isFresh(requestHeaders, headers.ETag as string, stats.mtime)) {
+			delete headers["Content-Type"];
+			res.res.writeHead(StatusCode.NotModified, headers);
+			res.res.end();
+			return;
+		}
+
+		if (encoding) {
+			headers["Content-Encoding"] = encoding;
+		}
+
+		// A range of an older copy of the file would be spliced into the
+		// wrong bytes, so If-Range has to name the file as it is now.
+		const ifRange = requestHeaders["if-range"];
+		const range =
+			!compressing &&
+			(ifRange === undefined ||
+				ifRange === headers.ETag ||
+				ifRange === lastModified)
+				? parseRange(requestHeaders.range, sent.stats.size)
+				: null;
+
+		if (range) {
+			headers["Content-Range"] =
+				`bytes ${range.start}-${range.end}/${sent.stats.size}`;
+		}
+
+		if (!compressing) {
+			headers["Content-Length"] = range
+				? range.end - range.start + 1
+				: sent.stats.size;
+		}
+
+		res.res.writeHead(
+			range ? StatusCode.PartialContent : StatusCode.OK,
+			headers,
+		);
+
+		if (method === "HEAD") {
+			res.res.end();
+			return;
+		}
+
+		const file = createReadStream(sent.path, range ?? {});
+
+		if (encoding && !precompressed) {
+			await pipeline(file, createCompressor(encoding), res.res);
+		} else {
+			await pipeline(file, res.res);
+		}
+	};
+};
+
+/**
+ * @returns The ETag of a file, made from its size and when it was last changed.
+ */
+const toFileETag = (stats: Stats) => {
+	return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+};
+
+/**
+ * Finds the copy of a file compressed ahead of time, with one of the
+ * `precompressedExtensions`, that the client prefers most. A copy older
+ * than the file is out of date and never sent.
+ * @param filePath The path of the file.
+ * @param stats The stats of the file.
+ * @param acceptEncoding The `Accept-Encoding` header of the request.
+ * @returns The coding, path and stats of the copy, or null if there is none to send.
+ */
+const findPrecompressed = async (
+	filePath: string,
+	stats: Stats,
+	acceptEncoding?: string | string[],
+) => {
+	const copies = new Map<Encoding, { path: string; stats: Stats }>();
+
+	for (const encoding of encodings) {
+		const extension = precompressedExtensions[encoding];
+		const copyPath = `${filePath}${extension}`;
+		const copyStats = extension && (await stat(copyPath).catch(() => null));
+
+		if (
+			copyStats &&
+			copyStats.isFile() &&
+			copyStats.mtimeMs >= stats.mtimeMs
+		) {
+			copies.set(encoding, { path: copyPath, stats: copyStats });
+		}
+	}
+
+	const encoding = negotiateEncoding(acceptEncoding, [...copies.keys()]);
+
+	return encoding ? { encoding, ...copies.get(encoding)! } : null;
+};
+
+/**
+ * @returns Whether the path is one of `staticPaths` or in one of their
+ * directories. It may still not be a file that can be served.
+ */
+export const isStaticPath = (pathname: string) => {
+	return Object.keys(staticPaths).some((url) =>
+		url.endsWith("/") ? pathname.startsWith(url) : pathname === url,
+	);
+};
+
+/**
+ * Works out which file on disk a path names, making sure it is one that
+ * may be served. The path is decoded first, so that `%2e%2e%2f` can't
+ * sneak past as `../`, and a path with any hidden or `..` segment, a
+ * backslash or a null byte is refused outright.
+ * @param pathname The path of the URL, still percent-encoded.
+ * @param root The directory that the paths in `staticPaths` are in.
+ * @returns The path of the file, or null if the path may not be served.
+ * @example ("/styles/style.css", ".") => "/app/styles/style.css"
+ * @example ("/styles/..%2f.env", ".") => null
+ */
+export const resolveStaticPath = (pathname: string, root: string) => {
+	let decoded: string;
+
+	try {
+		decoded = decodeURIComponent(pathname);
+	} catch {
+		return null;
+	}
+
+	if (
+		/[\\\0]/.test(decoded) ||
+		decoded.split("/").some((segment) => segment.startsWith("."))
+	) {
+		return null;
+	}
+
+	for (const [url, file] of Object.entries(staticPaths)) {
+		if (!url.endsWith("/") && decoded === url) {
+			return path.resolve(root, file);
+		}
+
+		if (url.endsWith("/") && decoded.startsWith(url)) {
+			const dir = path.resolve(root, file);
+			const filePath = path.resolve(dir, decoded.slice(url.length));
+
+			// Belt and braces: the file has to be inside the directory.
+			return filePath.startsWith(`${dir}${path.sep}`) ? filePath : null;
+		}
+	}
+
+	return null;
+};
+
+/**
+ * @returns The media type to send the file as, going by its extension.
+ * @example "styles/style.css" => "text/css; charset=utf-8"
+ */
+export const getContentType = (filePath: string) => {
+	return (
+		mimeTypes[path.extname(filePath).toLowerCase()] ??
+		"application/octet-stream"
+	);
+};
+
+/**
+ * Reads the part of a file that a `Range` header asks for. Only a single
+ * range of bytes is served; a header asking for several, or that can't
+ * be read, is ignored and the whole file is sent, as the RFC allows.
+ * @param header The `Range` header of the request, if there is one.
+ * @param size The size of the file, in bytes.
+ * @returns The range, cut off at the end of the file, or null to send the whole file.
+ * @throws RangeNotSatisfiableError If the range starts past the end of the file.
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-14.2
+ * @example ("bytes=0-99", 1000) => { start: 0, end: 99 }
+ * @example ("bytes=-100", 1000) => { start: 900, end: 999 }
+ * @example ("bytes=900-", 1000) => { start: 900, end: 999 }
+ */
+export const parseRange = (
+	header: string | undefined,
+	size: number,
+): ByteRange | null => {
+	const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/i);
+
+	if (!match || (match[1] === "" && match[2] === "")) {
+		return null;
+	}
+
+	const [, first, last] = match;
+
+	if (first === "") {
+		// A suffix: the last so many bytes.
+		if (Number(last) === 0 || size === 0) {
+			throw new RangeNotSatisfiableError(size);
+		}
+
+		return { start: Math.max(size - Number(last), 0), end: size - 1 };
+	}
+
+	const start = Number(first);
+
+	// A range that ends before it starts can't be read, so it is ignored.
+	if (last !== "" && Number(last) < start) {
+		return null;
+	}
+
+	if (start >= size) {
+		throw new RangeNotSatisfiableError(size);
+	}
+
+	return {
+		start,
+		end: last === "" ? size - 1 : Math.min(Number(last), size - 1),
+	};
+};
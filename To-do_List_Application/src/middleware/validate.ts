@@ -0,0 +1,126 @@
+import { Middleware } from "../router/Router";
+import { ContentType, StatusCode } from "../router/Response";
+import { Schema, validateSchema } from "../validation/Schema";
+import { ValidationError } from "../errors";
+
+/**
+ * What a route expects from the request.
+ * @property params The schema for the route params. These are checked first,
+ * and if they are invalid the body and query aren't checked at all.
+ * @property body The schema for the request body.
+ * @property query The schema for the query string.
+ * @property partial Only check the body fields that were supplied (for PATCH).
+ * At least one of the schema's fields must still be present.
+ * @property message The response message to use instead of the first field error.
+ * @property form The template to re-render for HTML clients when validation
+ * fails, and the key to pass the submitted values under so the form can be refilled.
+ */
+export interface ValidationRules {
+	params?: Schema;
+	body?: Schema;
+	query?: Schema;
+	partial?: boolean;
+	message?: string;
+	form?: { template: string; key: string };
+}
+
+/**
+ * Creates route middleware that checks the request against the given
+ * schemas. On success, `req.body` and `req.query` are replaced with the
+ * coerced values of the fields the schemas know about, with dates read
+ * in the time zone of the request. On failure, a
+ * ValidationError is thrown with one error per invalid field in its
+ * details, except that HTML clients get the form re-rendered with the
+ * errors inline when the route has one. Messages are written in the
+ * locale of the request.
+ * @param rules What the route expects from the request.
+ * @returns The middleware to register in front of the route handler.
+ * @example router.post("/todos", validate({ body: todoSchema }), this.createTodo);
+ */
+export const validate = (rules: ValidationRules): Middleware => {
+	return async (req, res, next) => {
+		const errors: Record<string, string> = {};
+		let message = rules.message && req.t(rules.message);
+
+		if (rules.params) {
+			const result = validateSchema(rules.params, req.params, {
+				locale: req.locale,
+			});
+			const paramErrors = Object.values(result.errors);
+
+			// There is no point describing the body of a request for a resource that can't exist.
+			if (paramErrors.length > 0) {
+				throw new ValidationError(paramErrors[0], result.errors);
+			}
+		}
+
+		if (rules.query) {
+			const result = validateSchema(rules.query, req.getQuery(), {
+				timeZone: req.timeZone,
+				locale: req.locale,
+			});
+
+			req.query = result.value;
+			Object.assign(errors, result.errors);
+		}
+
+		// Keep what was submitted so that a form can be refilled with it.
+		const submitted = req.body;
+
+		if (rules.body) {
+			const result = validateSchema(rules.body, submitted, {
+				partial: rules.partial,
+				timeZone: req.timeZone,
+				locale: req.locale,
+			});
+
+			req.body = result.value;
+			Object.assign(errors, result.errors);
+
+			if (
+				rules.partial &&
+				Object.keys(result.value).length === 0 &&
+				Object.keys(result.errors).length === 0
+			) {
+				message = req.t(
+					"Request body must include at least one of {fields}.",
+					{ fields: listFields(rules.body, req.t("or")) },
+				);
+				errors.body = message;
+			}
+		}
+
+		if (Object.keys(errors).length > 0) {
+			message = message ?? Object.values(errors)[0];
+
+			if (rules.form && req.accepts(ContentType.HTML)) {
+				await res.send({
+					statusCode: StatusCode.BadRequest,
+					message,
+					template: rules.form.template,
+					payload: {
+						errorMessage: message,
+						errors,
+						[rules.form.key]: { ...req.params, ...submitted },
+					},
+				});
+				return;
+			}
+
+			throw new ValidationError(message, errors);
+		}
+
+		await next();
+	};
+};
+
+/**
+ * @example listFields({ title, description, status }, "or") => "title, description or status"
+ */
+const listFields = (schema: Schema, or: string) => {
+	const fields = Object.keys(schema);
+
+	return fields.length > 1
+		? `${fields.slice(0, -1).join(", ")} ${or} ${fields[fields.length - 1]}`
+		: fields[0];
+};
@@ -0,0 +1,93 @@
+import postgres from "postgres";
+import { convertToCase, createUTCDate, snakeToCamel } from "../utils";
+import { Changes, HistoryAction } from "../history";
+
+/**
+ * @property todoId The todo that changed, or whose subtodo changed.
+ * @property subTodoId The subtodo that changed, if it was a subtodo.
+ * @property subTodoTitle The current title of the subtodo, when it still exists.
+ * @property action What happened.
+ * @property changes The fields that changed, with their values before and after.
+ */
+export interface HistoryEntryProps {
+	id?: number;
+	todoId: number;
+	subTodoId?: number | null;
+	subTodoTitle?: string | null;
+	action: HistoryAction;
+	changes: Changes;
+	createdAt: Date;
+}
+
+/**
+ * One change to a todo or one of its subtodos. The history of a todo is
+ * only ever added to, in the same transaction as the change it records,
+ * and it goes away with the todo when the trash is purged.
+ */
+export default class HistoryEntry {
+	constructor(public props: HistoryEntryProps) {}
+
+	/**
+	 * Adds a change to the history of a todo.
+	 * @param sql The postgres connection object, or the transaction that makes the change.
+	 * @param props What changed. `createdAt` defaults to now.
+	 * @returns The recorded entry.
+	 */
+	static async record(
+		sql: postgres.Sql<any> | postgres.TransactionSql<any>,
+		props: Omit<HistoryEntryProps, "createdAt"> & { createdAt?: Date },
+	) {
+		const [row] = await sql`
+			INSERT INTO todo_history (todo_id, subtodo_id, action, changes, created_at)
+			VALUES (
+				${props.todoId},
+				${props.subTodoId ?? null},
+				${props.action},
+				${sql.json(props.changes as any)},
+				${props.createdAt ?? createUTCDate()}
+			)
+			RETURNING *
+		`;
+
+		return new HistoryEntry(toProps(row));
+	}
+
+	/**
+	 * Reads the history of a todo, most recent first, with the changes to
+	 * its subtodos mixed in.
+	 * @param sql The postgres connection object.
+	 * @param todoId The ID of the todo.
+	 * @returns The entries of the history.
+	 */
+	static async readByTodoId(
+		sql: postgres.Sql<any>,
+		todoId: number,
+	): Promise<HistoryEntry[]> {
+		const rows = await sql`
+			SELECT todo_history.*, subtodos.title AS subtodo_title
+			FROM todo_history
+			LEFT JOIN subtodos ON subtodos.id = todo_history.subtodo_id
+			WHERE todo_history.todo_id = ${todoId}
+			ORDER BY todo_history.id DESC
+		`;
+
+		return rows.map((row) => new HistoryEntry(toProps(row)));
+	}
+}
+
+/**
+ * Turns a row into props. The columns say "subtodo" where the props say
+ * "subTodo", like the rest of the code does.
+ */
+const toProps = (row: Record<string, any>): HistoryEntryProps => {
+	const { subtodoId, subtodoTitle, ...props } = convertToCase(
+		snakeToCamel,
+		row,
+	);
+
+	return {
+		...props,
+		subTodoId: subtodoId,
+		subTodoTitle: subtodoTitle,
+	} as HistoryEntryProps;
+};
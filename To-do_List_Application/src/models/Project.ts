@@ -0,0 +1,110 @@
+import postgres from "postgres";
+import {
+	camelToSnake,
+	convertToCase,
+	createUTCDate,
+	snakeToCamel,
+} from "../utils";
+import { NotFoundError } from "../errors";
+
+export interface ProjectProps {
+	id?: number;
+	name: string;
+	description?: string;
+	createdAt: Date;
+	editedAt?: Date;
+	todoCount?: number;
+}
+
+/**
+ * A list that groups todos, such as "Personal" or "Sprint 12". A todo
+ * is in at most one project. Deleting a project keeps its todos, which
+ * are then no longer in any project.
+ */
+export default class Project {
+	constructor(
+		private sql: postgres.Sql<any>,
+		public props: ProjectProps,
+	) {}
+
+	static async create(sql: postgres.Sql<any>, props: ProjectProps) {
+		const [row] = await sql<ProjectProps[]>`
+			INSERT INTO projects
+				${sql(convertToCase(camelToSnake, props))}
+			RETURNING *
+		`;
+
+		return new Project(sql, convertToCase(snakeToCamel, row) as ProjectProps);
+	}
+
+	static async read(sql: postgres.Sql<any>, id: number) {
+		const [row] = await sql<ProjectProps[]>`
+			SELECT * FROM projects WHERE id = ${id}
+		`;
+
+		return row
+			? new Project(sql, convertToCase(snakeToCamel, row) as ProjectProps)
+			: null;
+	}
+
+	static async readByName(sql: postgres.Sql<any>, name: string) {
+		const [row] = await sql<ProjectProps[]>`
+			SELECT * FROM projects WHERE LOWER(name) = LOWER(${name})
+		`;
+
+		return row
+			? new Project(sql, convertToCase(snakeToCamel, row) as ProjectProps)
+			: null;
+	}
+
+	/**
+	 * Reads every project in alphabetical order, along with how many todos
+	 * are in it. Todos in the trash aren't counted.
+	 * @param sql The postgres connection object.
+	 * @returns The list of projects.
+	 */
+	static async readAll(sql: postgres.Sql<any>): Promise<Project[]> {
+		const rows = await sql<ProjectProps[]>`
+			SELECT projects.*, COUNT(todos.id)::int AS todo_count
+			FROM projects
+			LEFT JOIN todos ON todos.project_id = projects.id AND todos.deleted_at IS NULL
+			GROUP BY projects.id
+			ORDER BY LOWER(projects.name), projects.id
+		`;
+
+		return rows.map(
+			(row) =>
+				new Project(sql, convertToCase(snakeToCamel, row) as ProjectProps),
+		);
+	}
+
+	async update(updateProps: Partial<ProjectProps>) {
+		const [row] = await this.sql`
+			UPDATE projects
+			SET
+				${this.sql(convertToCase(camelToSnake, updateProps))}, edited_at = ${createUTCDate()}
+			WHERE
+				id = ${this.props.id}
+			RETURNING *
+		`;
+
+		// Someone else may have deleted the project since it was read.
+		if (!row) {
+			throw new NotFoundError("Project not found");
+		}
+
+		this.props = { ...this.props, ...convertToCase(snakeToCamel, row) };
+	}
+
+	/**
+	 * Deletes the project. Its todos are kept, without a project.
+	 */
+	async delete() {
+		const result = await this.sql`
+			DELETE FROM projects
+			WHERE id = ${this.props.id}
+		`;
+
+		return result.count === 1;
+	}
+}
@@ -0,0 +1,89 @@
+import postgres from "postgres";
+import { convertToCase, snakeToCamel } from "../utils";
+
+/**
+ * Whether a reminder is for a todo that is due soon or one that is past due.
+ */
+export type ReminderKind = "upcoming" | "overdue";
+
+export interface ReminderEventProps {
+	id?: number;
+	todoId: number;
+	kind: ReminderKind;
+	dueAt: Date;
+	createdAt: Date;
+	sentAt?: Date;
+}
+
+/**
+ * A record that a reminder was sent. There is at most one of each kind
+ * for each due date of a todo, which is what keeps a reminder from being
+ * sent twice, even after a restart or by two servers at once. Changing
+ * the due date of a todo makes it due for new reminders.
+ */
+export default class ReminderEvent {
+	constructor(
+		private sql: postgres.Sql<any>,
+		public props: ReminderEventProps,
+	) {}
+
+	/**
+	 * Records a reminder for every incomplete todo that is due within the
+	 * lead time or already overdue and doesn't have that reminder yet. A
+	 * todo that is already overdue only gets the overdue reminder.
+	 * @param sql The postgres connection object.
+	 * @param now The current time.
+	 * @param leadTime How long before its due date a todo gets the upcoming reminder, in milliseconds.
+	 * @returns The reminders that were recorded, which are now this caller's to send.
+	 */
+	static async claimDue(
+		sql: postgres.Sql<any>,
+		now: Date,
+		leadTime: number,
+	): Promise<ReminderEvent[]> {
+		const rows = await sql<ReminderEventProps[]>`
+			INSERT INTO reminder_events (todo_id, kind, due_at, created_at)
+			SELECT
+				id,
+				CASE WHEN due_at <= ${now} THEN 'overdue' ELSE 'upcoming' END,
+				due_at,
+				${now}
+			FROM todos
+			WHERE status = 'incomplete'
+				AND deleted_at IS NULL
+				AND due_at <= ${new Date(now.getTime() + leadTime)}
+			ORDER BY due_at, id
+			ON CONFLICT (todo_id, kind, due_at) DO NOTHING
+			RETURNING *
+		`;
+
+		return rows.map(
+			(row) =>
+				new ReminderEvent(
+					sql,
+					convertToCase(snakeToCamel, row) as ReminderEventProps,
+				),
+		);
+	}
+
+	/**
+	 * Records that the reminder was delivered.
+	 */
+	async markSent(sentAt: Date) {
+		await this.sql`
+			UPDATE reminder_events SET sent_at = ${sentAt} WHERE id = ${this.props.id}
+		`;
+
+		this.props.sentAt = sentAt;
+	}
+
+	/**
+	 * Forgets the reminder, so that the next scan claims and sends it again.
+	 * Used when it couldn't be delivered.
+	 */
+	async release() {
+		await this.sql`
+			DELETE FROM reminder_events WHERE id = ${this.props.id}
+		`;
+	}
+}
@@ -5,6 +5,16 @@ import {
 	createUTCDate,
 	snakeToCamel,
 } from "../utils";
+import { NotFoundError } from "../errors";
+import { Page, PageRequest, paginate } from "../pagination";
+import HistoryEntry from "./HistoryEntry";
+import {
+	Changes,
+	HistoryAction,
+	getChanges,
+	subTodoHistoryFields,
+} from "../history";
+import { checkVersion } from "../etag";
 
 
 
@@ -16,7 +26,10 @@ export interface SubTodoProps {
 	title: string;
 	status: "incomplete" | "complete";
 	createdAt: Date;
-	completedAt?: Date;
+	completedAt?: Date | null;
+	deletedAt?: Date | null; // When it was moved to the trash
+	deletedWithTodo?: boolean; // Whether it went to the trash along with its todo
+	version?: number; // Goes up by one on every change
 	todoId?: number; // ID of the associated Todo
 }
 
@@ -26,7 +39,7 @@ export interface SubTodoEntity {
 	title: string;
 	status: "incomplete" | "complete";
 	created_at: Date;
-	completed_at?: Date;
+	completed_at?: Date | null;
 	todo_id?: number; // ID of the associated Todo
 }
 
@@ -139,33 +152,43 @@ export class SubTodo {
 			"created_at",
 			"todo_id",
 		];
-		let result = await sql`
-			INSERT INTO subtodos (title, status, completed_at, created_at, todo_id) 
-			VALUES (
-				${props.title || null}, 
-				${props.status || null}, 
-				${props.completedAt || null}, 
-				${props.createdAt || null},
-				${props.todoId || null}
-			) 
-			RETURNING *;
-		`; //Insert values in the subtodo table
-
-		if (result.length > 0) {
-			//Verifies if there is at least one result returned
-			const createdProps: SubTodoProps = {
-				id: result[0].id,
-				title: result[0].title,
-				status: result[0].status,
-				createdAt: result[0].created_at,
-				completedAt: result[0].completed_at,
-				todoId: result[0].todo_id,
-			};
-
-			return new SubTodo(sql, createdProps); //Return new Subtodo instance
-		}
+		return await sql.begin(async (transaction) => {
+			let result = await transaction`
+				INSERT INTO subtodos (title, status, completed_at, created_at, todo_id) 
+				VALUES (
+					${props.title || null}, 
+					${props.status || null}, 
+					${props.completedAt || null}, 
+					${props.createdAt || null},
+					${props.todoId || null}
+				) 
+				RETURNING *;
+			`; //Insert values in the subtodo table
+
+			if (result.length > 0) {
+				//Verifies if there is at least one result returned
+				const createdProps: SubTodoProps = {
+					id: result[0].id,
+					title: result[0].title,
+					status: result[0].status,
+					createdAt: result[0].created_at,
+					completedAt: result[0].completed_at,
+					version: result[0].version,
+					todoId: result[0].todo_id,
+				};
+
+				await recordChange(
+					transaction,
+					createdProps,
+					"create",
+					getChanges({}, createdProps, subTodoHistoryFields),
+				); //Starts its part of the history of the todo
+
+				return new SubTodo(sql, createdProps); //Return new Subtodo instance
+			}
 
-		return Promise.reject(new Error("SubTodo not created")); //Error handling
+			return Promise.reject(new Error("SubTodo not created")); //Error handling
+		});
 	}
 
 	/**
@@ -176,7 +199,7 @@ export class SubTodo {
 	 * @
 	 * @param sql The Postgres query template tag.
 	 * @param id The ID of the Todo to read from the database.
-	 * @returns The SubTodo instance with the specified ID, or null if it doesn't exist.
+	 * @returns The SubTodo instance with the specified ID, or null if it doesn't exist or is in the trash.
 	 */
 	static async read(
 		sql: postgres.Sql<any>,
@@ -185,7 +208,7 @@ export class SubTodo {
 		let result = await sql`
 			SELECT * 
 			FROM subtodos 
-			WHERE id = ${id}
+			WHERE id = ${id} AND deleted_at IS NULL
 		`; //Get the information of the SubTodo by using the id
 
 		if (result.length === 0) {
@@ -199,6 +222,7 @@ export class SubTodo {
 			status: result[0].status,
 			createdAt: result[0].created_at,
 			completedAt: result[0].completed_at,
+			version: result[0].version,
 			todoId: result[0].todo_id,
 		});
 	}
@@ -210,8 +234,8 @@ export class SubTodo {
 		let result = await sql`
 			SELECT * 
 			FROM subtodos 
-			WHERE todo_id = ${todoId}
-		`; // Get the information of the SubTodos by using the todo ID
+			WHERE todo_id = ${todoId} AND deleted_at IS NULL
+		`; // Get the information of the SubTodos by using the todo ID, leaving out the trash
 	
 		return result.map(result => new SubTodo(sql, {
 			id: result.id,
@@ -219,6 +243,7 @@ export class SubTodo {
 			status: result.status,
 			createdAt: result.created_at,
 			completedAt: result.completed_at,
+			version: result.version,
 			todoId: result.todo_id,
 		}));
 	}
@@ -237,25 +262,58 @@ export class SubTodo {
 	 * making the update operation more flexible.
 	 *
 	 * @see https://www.typescriptlang.org/docs/handbook/utility-types.html#partialtype
+	 *
+	 * @param action What the change goes in the history of the todo as.
+	 *
+	 * @param ifMatch The versions the change is allowed on, from `getIfMatch`.
+	 * @throws PreconditionFailedError If the subtodo is at none of them.
 	 */
-	async update(updateProps: Partial<SubTodoProps>): Promise<void> {
+	async update(
+		updateProps: Partial<SubTodoProps>,
+		action: HistoryAction = "update",
+		ifMatch?: number[],
+	): Promise<void> {
 		if (this.props.id === undefined) {
 			// Verifies if the SubTodo instance has a existing Id
 			return;
 		}
 
-		//Updates the subtodo record
-		let result = await this.sql`		
-			UPDATE subtodos 
-			SET ${this.sql(this.toPartialEntity(updateProps))}
-			WHERE id = ${this.props.id}
-			RETURNING *
-		`;
+		await this.sql.begin(async (sql) => {
+			//Locks the subtodo record, so that the history has what it was right before
+			let [before] = await sql`
+				SELECT * FROM subtodos
+				WHERE id = ${this.props.id!} AND deleted_at IS NULL
+				FOR UPDATE
+			`;
+
+			if (!before) {
+				// Verifies if the subtodo is still there
+				return Promise.reject(new NotFoundError("SubTodo not found")); //Someone else deleted it
+			}
+
+			checkVersion(before.version, ifMatch, versionMismatch); //Someone else may have changed it
+
+			//Updates the subtodo record
+			let [after] = await sql`		
+				UPDATE subtodos 
+				SET ${sql(this.toPartialEntity(updateProps))}, version = version + 1
+				WHERE id = ${this.props.id!}
+				RETURNING *
+			`;
+
+			this.props.version = after.version;
+
+			const changes = getChanges(
+				convertToCase(snakeToCamel, before),
+				convertToCase(snakeToCamel, after),
+				subTodoHistoryFields,
+			);
+
+			if (Object.keys(changes).length > 0) {
+				await recordChange(sql, this.props, action, changes);
+			}
+		});
 
-		if (result.length == 0) {
-			// Verifies if the update was successful
-			return Promise.reject(new Error("SubTodo not updated")); //Error handling
-		}
 		this.props = Object.assign(this.props, updateProps); // Update the local SubTodo
 		// @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/assign
 	}
@@ -273,7 +331,8 @@ export class SubTodo {
 		if (updateProps.status) {
 			partialEntity.status = updateProps.status;
 		}
-		if (updateProps.completedAt) {
+		// Null clears it, when the subtodo is no longer complete.
+		if (updateProps.completedAt !== undefined) {
 			partialEntity.completed_at = updateProps.completedAt;
 		}
 		if (updateProps.createdAt) {
@@ -286,39 +345,153 @@ export class SubTodo {
 	}
 
 	/**
-	 * Deletes a SubTodo from the database. It's an instance method because
+	 * Moves a SubTodo to the trash. It's an instance method because
 	 * it's used to delete the specific SubTodo instance on which it's called.
+	 * It stays in the database until `purge` removes it for good.
+	 * @param ifMatch The versions the subtodo may be deleted at, from `getIfMatch`.
+	 * @throws PreconditionFailedError If the subtodo is at none of them.
 	 */
-	async delete(): Promise<void> {
+	async delete(ifMatch?: number[]): Promise<void> {
 		if (this.props.id === undefined) {
 			// Verifies if the SubTodo instance has a valid ID,
 			return;
 		}
 
-		//Delete query
-		let result = await this.sql`		
-			DELETE FROM subtodos 
-			WHERE id = ${this.props.id}
-			RETURNING *
+		const deletedAt = createUTCDate();
+
+		await this.sql.begin(async (sql) => {
+			//Locks the subtodo record, so that its version can't change before the soft delete
+			let [before] = await sql`
+				SELECT version FROM subtodos
+				WHERE id = ${this.props.id!} AND deleted_at IS NULL
+				FOR UPDATE
+			`;
+
+			if (!before) {
+				return Promise.reject(new NotFoundError("SubTodo not found")); //Someone else deleted it
+			}
+
+			checkVersion(before.version, ifMatch, versionMismatch); //Someone else may have changed it
+
+			//Soft delete query
+			await sql`		
+				UPDATE subtodos 
+				SET deleted_at = ${deletedAt}, version = version + 1
+				WHERE id = ${this.props.id!}
+			`;
+
+			await recordChange(
+				sql,
+				this.props,
+				"delete",
+				getChanges({}, { deletedAt }, ["deletedAt"]),
+			);
+		});
+
+		this.props.deletedAt = deletedAt;
+	}
+
+	/**
+	 * Takes a SubTodo out of the trash.
+	 */
+	async restore(): Promise<void> {
+		await this.sql.begin(async (sql) => {
+			let [before] = await sql`
+				SELECT * FROM subtodos
+				WHERE id = ${this.props.id!} AND deleted_at IS NOT NULL
+				FOR UPDATE
+			`;
+
+			if (!before) {
+				return Promise.reject(new NotFoundError("SubTodo not found")); //Someone else restored it
+			}
+
+			await sql`
+				UPDATE subtodos
+				SET deleted_at = NULL, version = version + 1
+				WHERE id = ${this.props.id!}
+			`;
+			await recordChange(
+				sql,
+				this.props,
+				"restore",
+				getChanges(convertToCase(snakeToCamel, before), {}, ["deletedAt"]),
+			);
+		});
+
+		this.props.deletedAt = null;
+	}
+
+	/**
+	 * Reads a subtodo that is in the trash, so that it can be restored.
+	 * @param sql The postgres connection object.
+	 * @param id The ID of the subtodo.
+	 * @returns The subtodo, or null if there is no subtodo with the ID in the trash.
+	 */
+	static async readDeleted(
+		sql: postgres.Sql<any>,
+		id: number,
+	): Promise<SubTodo | null> {
+		const [row] = await sql`
+			SELECT * FROM subtodos WHERE id = ${id} AND deleted_at IS NOT NULL
 		`;
 
-		if (result.length == 0) {
-			return Promise.reject(new Error("SubTodo not deleted")); //Error handling
-		}
+		return row
+			? new SubTodo(sql, convertToCase(snakeToCamel, row) as SubTodoProps)
+			: null;
+	}
+
+	/**
+	 * Reads the subtodos that were moved to the trash on their own, most
+	 * recently deleted first. Those that went to the trash with their todo
+	 * are restored with it, so they aren't listed.
+	 * @param sql The postgres connection object.
+	 * @returns The subtodos in the trash whose todos aren't.
+	 */
+	static async readTrash(sql: postgres.Sql<any>): Promise<SubTodo[]> {
+		const rows = await sql`
+			SELECT subtodos.*
+			FROM subtodos
+			JOIN todos ON todos.id = subtodos.todo_id
+			WHERE subtodos.deleted_at IS NOT NULL AND todos.deleted_at IS NULL
+			ORDER BY subtodos.deleted_at DESC, subtodos.id
+		`;
+
+		return rows.map(
+			(row) =>
+				new SubTodo(sql, convertToCase(snakeToCamel, row) as SubTodoProps),
+		);
+	}
+
+	/**
+	 * Permanently deletes the subtodos that went to the trash before the given time.
+	 * @param sql The postgres connection object.
+	 * @param before When the subtodos must have been deleted by.
+	 * @returns How many subtodos were deleted.
+	 */
+	static async purge(sql: postgres.Sql<any>, before: Date): Promise<number> {
+		const result = await sql`
+			DELETE FROM subtodos
+			WHERE deleted_at < ${before}
+		`;
+
+		return result.count;
 	}
 
 	/**
 	 * Marks a SubTodo as complete in the database by updating the completedAt property.
 	 * This is a specific kind of update operation. It modifies the state of the specific
 	 * SubTodo instance, hence it's an instance method.
+	 * @param ifMatch The versions the subtodo may be completed at, from `getIfMatch`.
+	 * @throws PreconditionFailedError If the subtodo is at none of them.
 	 */
-	async markComplete(): Promise<void> {
+	async markComplete(ifMatch?: number[]): Promise<void> {
 		let update: Partial<SubTodoProps> = {
 			status: "complete",
 			completedAt: new Date(),
 		};
 
-		await this.update(update); //Changes the subtodo instance
+		await this.update(update, "complete", ifMatch); //Changes the subtodo instance
 	}
 
 	/**
@@ -338,17 +511,18 @@ export class SubTodo {
 	): Promise<SubTodo[]> {
 		const connection = await sql.reserve();
 
-		//Query without filtering and sorting
+		//Query without filtering and sorting, leaving out the trash
 		let query = sql<SubTodoProps[]>`
 		  SELECT *
 		  FROM subtodos
+		  WHERE deleted_at IS NULL
 		`;
 
 		//if filters exist and contain keys
 		if (filters && Object.keys(filters).length > 0) {
 			query = sql<SubTodoProps[]>`
 			${query} 
-			WHERE ${Object.entries(filters)
+			AND ${Object.entries(filters)
 				.map(([key, value]) => {
 					if (key === "status") {
 						// Adding condition for "status" field
@@ -367,7 +541,7 @@ export class SubTodo {
 			if (sortBy === "createdAt") {
 				query = sql<SubTodoProps[]>`${query} ORDER BY created_at ASC`;		//Ascending order
 			} else {
-				query = sql<SubTodoProps[]>`${query} ORDER BY ${sortBy}`;
+				query = sql<SubTodoProps[]>`${query} ORDER BY ${sql(camelToSnake(sortBy))}`;		//Column name, not a value
 			}
 		}
 
@@ -380,5 +554,68 @@ export class SubTodo {
 				new SubTodo(sql, convertToCase(snakeToCamel, row) as SubTodoProps),
 		);
 	}
+
+	/**
+	 * Reads one page of the subtodos of a todo, oldest first unless sorted otherwise.
+	 * @param sql The postgres connection object.
+	 * @param todoId The ID of the todo the subtodos belong to.
+	 * @param filters The filters to apply to the query.
+	 * @param sortBy The property to sort by. Ties are broken by ID.
+	 * @param page Which page to read.
+	 * @returns The page of subtodos, along with how many subtodos match the filters.
+	 */
+	static async readPage(
+		sql: postgres.Sql<any>,
+		todoId: number,
+		filters: Partial<SubTodoProps>,
+		sortBy: string,
+		page: PageRequest,
+	): Promise<Page<SubTodo>> {
+		const conditions = [sql`todo_id = ${todoId}`, sql`deleted_at IS NULL`];
+
+		if (filters.status) {
+			conditions.push(sql`status = ${filters.status}`);
+		}
+
+		const { items, ...rest } = await paginate(
+			sql,
+			"subtodos",
+			conditions,
+			[{ property: sortBy, order: "asc" }],
+			page,
+		);
+
+		return {
+			...rest,
+			items: items.map((props) => new SubTodo(sql, props as SubTodoProps)),
+		};
+	}
 }
 
+/**
+ * Adds a change to a subtodo to the history of its todo. A subtodo that
+ * isn't part of a todo has no history.
+ */
+const recordChange = async (
+	sql: postgres.TransactionSql<any>,
+	props: SubTodoProps,
+	action: HistoryAction,
+	changes: Changes,
+) => {
+	if (!props.todoId) {
+		return;
+	}
+
+	await HistoryEntry.record(sql, {
+		todoId: props.todoId,
+		subTodoId: props.id,
+		action,
+		changes,
+	});
+};
+
+/**
+ * What a client that sent an out of date `If-Match` is told.
+ */
+const versionMismatch =
+	"The subtodo was changed by someone else since you last read it.";
@@ -0,0 +1,213 @@
+import postgres from "postgres";
+import { convertToCase, createUTCDate, snakeToCamel } from "../utils";
+import { NotFoundError } from "../errors";
+
+export interface TagProps {
+	id?: number;
+	name: string;
+	createdAt: Date;
+	todoCount?: number;
+}
+
+/**
+ * A label that can be put on any number of todos, such as "bug" or
+ * "waiting-on-client". Tag names are unique and stored in lowercase,
+ * so "Bug" and "bug" are the same tag.
+ */
+export default class Tag {
+	constructor(
+		private sql: postgres.Sql<any>,
+		public props: TagProps,
+	) {}
+
+	/**
+	 * @param name The name as it was entered.
+	 * @returns The name as it is stored.
+	 * @example " Backend " => "backend"
+	 */
+	static normalizeName(name: string) {
+		return name.trim().toLowerCase();
+	}
+
+	/**
+	 * @returns The names of the tags in alphabetical order, to compare two
+	 * lists of tags or keep one in the history, or null if there are none.
+	 * @example ["ui", "Bug"] => "bug, ui"
+	 */
+	static joinNames(names: string[]) {
+		return names.map(Tag.normalizeName).sort().join(", ") || null;
+	}
+
+	static async create(sql: postgres.Sql<any>, name: string) {
+		const [row] = await sql<TagProps[]>`
+			INSERT INTO tags (name, created_at)
+			VALUES (${Tag.normalizeName(name)}, ${createUTCDate()})
+			RETURNING *
+		`;
+
+		return new Tag(sql, convertToCase(snakeToCamel, row) as TagProps);
+	}
+
+	static async read(sql: postgres.Sql<any>, id: number) {
+		const [row] = await sql<TagProps[]>`
+			SELECT * FROM tags WHERE id = ${id}
+		`;
+
+		return row
+			? new Tag(sql, convertToCase(snakeToCamel, row) as TagProps)
+			: null;
+	}
+
+	static async readByName(sql: postgres.Sql<any>, name: string) {
+		const [row] = await sql<TagProps[]>`
+			SELECT * FROM tags WHERE name = ${Tag.normalizeName(name)}
+		`;
+
+		return row
+			? new Tag(sql, convertToCase(snakeToCamel, row) as TagProps)
+			: null;
+	}
+
+	/**
+	 * Reads every tag in alphabetical order, along with how many todos
+	 * have it. Todos in the trash aren't counted.
+	 * @param sql The postgres connection object.
+	 * @returns The list of tags.
+	 */
+	static async readAll(sql: postgres.Sql<any>): Promise<Tag[]> {
+		const rows = await sql<TagProps[]>`
+			SELECT tags.*, COUNT(todos.id)::int AS todo_count
+			FROM tags
+			LEFT JOIN todo_tags ON todo_tags.tag_id = tags.id
+			LEFT JOIN todos ON todos.id = todo_tags.todo_id AND todos.deleted_at IS NULL
+			GROUP BY tags.id
+			ORDER BY tags.name
+		`;
+
+		return rows.map(
+			(row) => new Tag(sql, convertToCase(snakeToCamel, row) as TagProps),
+		);
+	}
+
+	/**
+	 * Reads the tags of many todos at once, so that a list of todos
+	 * doesn't need one query per todo.
+	 * @param sql The postgres connection object.
+	 * @param todoIds The IDs of the todos.
+	 * @returns The tags of each todo, in alphabetical order, keyed by todo ID.
+	 * Todos without tags are left out.
+	 */
+	static async readByTodoIds(
+		sql: postgres.Sql<any> | postgres.TransactionSql<any>,
+		todoIds: number[],
+	): Promise<Map<number, TagProps[]>> {
+		const tagsByTodoId = new Map<number, TagProps[]>();
+
+		if (todoIds.length === 0) {
+			return tagsByTodoId;
+		}
+
+		const rows = await sql`
+			SELECT todo_tags.todo_id, tags.*
+			FROM todo_tags
+			JOIN tags ON tags.id = todo_tags.tag_id
+			WHERE todo_tags.todo_id IN ${sql(todoIds)}
+			ORDER BY tags.name
+		`;
+
+		for (const { todo_id: todoId, ...row } of rows) {
+			const tags = tagsByTodoId.get(todoId) ?? [];
+			tags.push(convertToCase(snakeToCamel, row) as TagProps);
+			tagsByTodoId.set(todoId, tags);
+		}
+
+		return tagsByTodoId;
+	}
+
+	/**
+	 * Replaces the tags of a todo with the given ones, creating any tag
+	 * that doesn't exist yet. Runs in a transaction so that the todo is
+	 * never left with only some of its tags.
+	 * @param sql The postgres connection object.
+	 * @param todoId The ID of the todo.
+	 * @param names The names of every tag the todo should have.
+	 * @returns The tags the todo now has, in alphabetical order.
+	 */
+	static async setForTodo(
+		sql: postgres.Sql<any>,
+		todoId: number,
+		names: string[],
+	): Promise<TagProps[]> {
+		await sql.begin((transaction) =>
+			Tag.replaceForTodo(transaction, todoId, names),
+		);
+
+		const tags = await Tag.readByTodoIds(sql, [todoId]);
+
+		return tags.get(todoId) ?? [];
+	}
+
+	/**
+	 * Does the work of `setForTodo` inside a transaction that is already
+	 * open, so that the tags change along with the rest of the todo.
+	 * @param sql The transaction.
+	 * @param todoId The ID of the todo.
+	 * @param names The names of every tag the todo should have.
+	 */
+	static async replaceForTodo(
+		sql: postgres.TransactionSql<any>,
+		todoId: number,
+		names: string[],
+	) {
+		const uniqueNames = [...new Set(names.map(Tag.normalizeName))];
+
+		await sql`DELETE FROM todo_tags WHERE todo_id = ${todoId}`;
+
+		if (uniqueNames.length === 0) {
+			return;
+		}
+
+		// Another request may create the same tag at the same time, so let the database decide.
+		await sql`
+			INSERT INTO tags ${sql(
+				uniqueNames.map((name) => ({
+					name,
+					created_at: createUTCDate(),
+				})),
+			)}
+			ON CONFLICT (name) DO NOTHING
+		`;
+		await sql`
+			INSERT INTO todo_tags (todo_id, tag_id)
+			SELECT ${todoId}, id FROM tags WHERE name IN ${sql(uniqueNames)}
+		`;
+	}
+
+	async update(name: string) {
+		const [row] = await this.sql`
+			UPDATE tags
+			SET name = ${Tag.normalizeName(name)}
+			WHERE id = ${this.props.id}
+			RETURNING *
+		`;
+
+		// Someone else may have deleted the tag since it was read.
+		if (!row) {
+			throw new NotFoundError("Tag not found");
+		}
+
+		this.props = { ...this.props, ...convertToCase(snakeToCamel, row) };
+	}
+
+	/**
+	 * Deletes the tag and takes it off every todo that had it.
+	 */
+	async delete() {
+		const result = await this.sql`
+			DELETE FROM tags
+			WHERE id = ${this.props.id}
+		`;
+
+		return result.count === 1;
+	}
+}
@@ -6,27 +6,122 @@ import {
 	snakeToCamel,
 } from "../utils";
 import { SubTodo } from "../models/Subtodo";
+import { NotFoundError } from "../errors";
+import {
+	Page,
+	PageRequest,
+	SortKey,
+	SortOrder,
+	paginate,
+	where,
+} from "../pagination";
 import { SubTodoProps } from "../models/Subtodo";
+import Tag, { TagProps } from "../models/Tag";
+import {
+	Recurrence,
+	advanceRecurrence,
+	getNextOccurrence,
+} from "../recurrence";
+import HistoryEntry from "./HistoryEntry";
+import { getChanges, todoHistoryFields } from "../history";
+import { checkVersion } from "../etag";
+
+/**
+ * How important a todo is, from least to most. The database sorts
+ * priorities in this order too.
+ */
+export const priorities = ["low", "medium", "high", "urgent"] as const;
+
+export type Priority = (typeof priorities)[number];
 
 export interface TodoProps {
 	id?: number;
 	title: string;
 	description: string;
 	status: "incomplete" | "complete";
-	dueAt?: Date;
+	priority?: Priority;
+	dueAt?: Date | null;
 	createdAt: Date;
-	completedAt?: Date;
+	completedAt?: Date | null;
 	editedAt?: Date;
+	projectId?: number | null;
+	recurrence?: Recurrence | null;
+	deletedAt?: Date | null;
+	version?: number;
 	subTodos?: SubTodo[];
+	tags?: TagProps[];
+}
+
+/**
+ * The ways a list of todos can be narrowed down. Every filter that is
+ * set must match. Date ranges include their start and exclude their end,
+ * so `dueAfter` matches todos due at or after it, and `dueBefore` matches
+ * todos due strictly before it.
+ * @property projectId Only todos in this project.
+ * @property status Only todos with this status.
+ * @property title Only todos whose title contains this text, ignoring case.
+ * @property overdue Only todos that are (or aren't) incomplete and past their due date.
+ * @property hasIncompleteSubTodos Only todos that have (or don't have) an incomplete subtodo.
+ * @property tags Only todos with these tags: any one of them, or all of them if `tagMatch` is "all".
+ * @property tagMatch Whether a todo needs any of the `tags` (the default) or all of them.
+ * @property deleted Only todos in the trash, instead of only the ones out of it.
+ */
+export interface TodoFilters {
+	projectId?: number;
+	status?: TodoProps["status"];
+	title?: string;
+	dueAfter?: Date;
+	dueBefore?: Date;
+	createdAfter?: Date;
+	createdBefore?: Date;
+	completedAfter?: Date;
+	completedBefore?: Date;
+	overdue?: boolean;
+	hasIncompleteSubTodos?: boolean;
+	tags?: string[];
+	tagMatch?: "any" | "all";
+	deleted?: boolean;
 }
 
+/**
+ * A todo or subtodo that matched a search.
+ * @property todo The todo that matched, or the parent of the subtodo that matched.
+ * @property subTodo The subtodo that matched, if the hit was a subtodo.
+ * @property rank How well it matched. Higher is better.
+ * @property snippet The matching text, with the matched words wrapped in `<mark>` tags.
+ * The rest of the text is not escaped.
+ */
+export interface TodoSearchResult {
+	todo: TodoProps;
+	subTodo?: SubTodoProps;
+	rank: number;
+	snippet: string;
+}
+
+/**
+ * The order todos are listed in when no sort is asked for: the most
+ * important first, and among equally important ones, the soonest due.
+ */
+export const defaultTodoSort: SortKey[] = [
+	{ property: "priority", order: "desc" },
+	{ property: "dueAt", order: "asc" },
+];
+
 export default class Todo {
 	constructor(
 		private sql: postgres.Sql<any>,
 		public props: TodoProps,
 	) {}
 
-	static async create(sql: postgres.Sql<any>, props: TodoProps) {
+	/**
+	 * Creates a todo and starts its history.
+	 * @param tags The names of the tags the todo starts with.
+	 */
+	static async create(
+		sql: postgres.Sql<any>,
+		props: TodoProps,
+		tags: string[] = [],
+	) {
 		// const [row] = await sql<TodoProps[]>`
 		// 	INSERT INTO todos
 		// 		(title, description, due_at, created_at)
@@ -35,19 +130,33 @@ export default class Todo {
 		// 	RETURNING *
 		// `;
 
-		const connection = await sql.reserve();
-
 		props.createdAt = props.createdAt ?? createUTCDate();
 
-		const [row] = await connection<TodoProps[]>`
-			INSERT INTO todos
-				${sql(convertToCase(camelToSnake, props))}
-			RETURNING *
-		`;
-
-		await connection.release();
+		return await sql.begin(async (transaction) => {
+			const [row] = await transaction<TodoProps[]>`
+				INSERT INTO todos
+					${transaction(convertToCase(camelToSnake, props))}
+				RETURNING *
+			`;
+			const todoProps = convertToCase(snakeToCamel, row) as TodoProps;
+
+			if (tags.length > 0) {
+				await Tag.replaceForTodo(transaction, todoProps.id!, tags);
+				todoProps.tags = await readTags(transaction, todoProps.id!);
+			}
 
-		return new Todo(sql, convertToCase(snakeToCamel, row) as TodoProps);
+			await HistoryEntry.record(transaction, {
+				todoId: todoProps.id!,
+				action: "create",
+				changes: getChanges(
+					{},
+					{ ...todoProps, tags: joinTags(todoProps.tags) },
+					todoHistoryFields,
+				),
+			});
+
+			return new Todo(sql, todoProps);
+		});
 	}
 
 	static async read(sql: postgres.Sql<any>, id: number) {
@@ -55,7 +164,7 @@ export default class Todo {
 
 		const [row] = await connection<TodoProps[]>`
 			SELECT * FROM
-			todos WHERE id = ${id}
+			todos WHERE id = ${id} AND deleted_at IS NULL
 		`;
 
 		await connection.release();
@@ -65,16 +174,18 @@ export default class Todo {
 		}
 
 		const subTodos = await SubTodo.readByTodoId(sql, id);
+		const tags = await Tag.readByTodoIds(sql, [id]);
 
 		//return new Todo(sql, convertToCase(snakeToCamel, row) as TodoProps);
 		const todo = new Todo(sql, convertToCase(snakeToCamel, row) as TodoProps);
 		todo.props.subTodos = subTodos;
+		todo.props.tags = tags.get(id) ?? [];
     	return todo;
 	}
 
 	static async readAll(
 		sql: postgres.Sql<any>,
-		filters?: Partial<TodoProps>,
+		filters: TodoFilters = {},
 		sortBy?: string,
 		orderBy?: string,
 	): Promise<Todo[]> {
@@ -96,6 +207,10 @@ export default class Todo {
 					return sql`completed_at`;
 				case "editedAt":
 					return sql`edited_at`;
+				case "priority":
+					return sql`priority`;
+				case "deletedAt":
+					return sql`deleted_at`;
 				default:
 					return sql`id`;
 			}
@@ -108,9 +223,9 @@ export default class Todo {
 		const rows = await connection<TodoProps[]>`
 			SELECT *
 			FROM todos
-			${filters?.status ? sql`WHERE status = ${filters.status}` : sql``}
-			${sortBy ? sql`ORDER BY ${getSortBy(sortBy)}` : sql``}
-			${orderBy ? sql`${getOrderBy(orderBy)}` : sql``}
+			${where(sql, Todo.getFilterConditions(sql, filters))}
+			${sortBy ? sql`ORDER BY ${getSortBy(sortBy)}` : sql`ORDER BY priority DESC, due_at ASC NULLS LAST, id`}
+			${sortBy && orderBy ? sql`${getOrderBy(orderBy)}` : sql``}
 		`;
 
 		await connection.release();
@@ -121,40 +236,521 @@ export default class Todo {
 		);
 	}
 
-	async update(updateProps: Partial<TodoProps>) {
-		const connection = await this.sql.reserve();
+	/**
+	 * Reads one page of todos instead of all of them.
+	 * @param sql The postgres connection object.
+	 * @param filters The filters to apply to the query.
+	 * @param sortBy The property to sort by. Ties are broken by ID. Without
+	 * one, the todos are sorted by `defaultTodoSort`.
+	 * @param orderBy The direction to sort `sortBy` in.
+	 * @param page Which page to read.
+	 * @returns The page of todos, along with how many todos match the filters.
+	 */
+	static async readPage(
+		sql: postgres.Sql<any>,
+		filters: TodoFilters,
+		sortBy: string | undefined,
+		orderBy: SortOrder,
+		page: PageRequest,
+	): Promise<Page<Todo>> {
+		const { items, ...rest } = await paginate(
+			sql,
+			"todos",
+			Todo.getFilterConditions(sql, filters),
+			sortBy ? [{ property: sortBy, order: orderBy }] : defaultTodoSort,
+			page,
+		);
 
-		const [row] = await connection`
-			UPDATE todos
-			SET
-				${this.sql(convertToCase(camelToSnake, updateProps))}, edited_at = ${createUTCDate()}
-			WHERE
-				id = ${this.props.id}
-			RETURNING *
-		`;
+		const tags = await Tag.readByTodoIds(
+			sql,
+			items.map((props) => props.id),
+		);
 
-		await connection.release();
+		return {
+			...rest,
+			items: items.map(
+				(props) =>
+					new Todo(sql, {
+						...props,
+						tags: tags.get(props.id) ?? [],
+					} as TodoProps),
+			),
+		};
+	}
+
+	/**
+	 * Turns filters into the SQL conditions that a todo must meet. Todos
+	 * in the trash never meet them, unless `deleted` asks for the trash.
+	 * @param sql The postgres connection object.
+	 * @param filters The filters to turn into conditions.
+	 * @returns One condition per filter that is set.
+	 */
+	private static getFilterConditions(
+		sql: postgres.Sql<any>,
+		filters: TodoFilters,
+	) {
+		const conditions: postgres.PendingQuery<any>[] = [
+			filters.deleted
+				? sql`deleted_at IS NOT NULL`
+				: sql`deleted_at IS NULL`,
+		];
+		const now = createUTCDate();
+
+		if (filters.projectId) {
+			conditions.push(sql`project_id = ${filters.projectId}`);
+		}
+		if (filters.status) {
+			conditions.push(sql`status = ${filters.status}`);
+		}
+		if (filters.title) {
+			// Escape the LIKE wildcards so that they match themselves.
+			const pattern = filters.title.replace(/[\\%_]/g, "\\$&");
+			conditions.push(sql`title ILIKE ${"%" + pattern + "%"}`);
+		}
+		if (filters.dueAfter) {
+			conditions.push(sql`due_at >= ${filters.dueAfter}`);
+		}
+		if (filters.dueBefore) {
+			conditions.push(sql`due_at < ${filters.dueBefore}`);
+		}
+		if (filters.createdAfter) {
+			conditions.push(sql`created_at >= ${filters.createdAfter}`);
+		}
+		if (filters.createdBefore) {
+			conditions.push(sql`created_at < ${filters.createdBefore}`);
+		}
+		if (filters.completedAfter) {
+			conditions.push(sql`completed_at >= ${filters.completedAfter}`);
+		}
+		if (filters.completedBefore) {
+			conditions.push(sql`completed_at < ${filters.completedBefore}`);
+		}
+		if (filters.overdue !== undefined) {
+			const overdue = sql`(status = 'incomplete' AND due_at < ${now})`;
+			conditions.push(filters.overdue ? overdue : sql`NOT COALESCE(${overdue}, false)`);
+		}
+		if (filters.tags && filters.tags.length > 0) {
+			const names = [...new Set(filters.tags.map(Tag.normalizeName))];
+			const matchingTags = sql`
+				SELECT COUNT(*) FROM todo_tags
+				JOIN tags ON tags.id = todo_tags.tag_id
+				WHERE todo_tags.todo_id = todos.id AND tags.name IN ${sql(names)}
+			`;
+
+			conditions.push(
+				filters.tagMatch === "all"
+					? sql`(${matchingTags}) = ${names.length}`
+					: sql`(${matchingTags}) > 0`,
+			);
+		}
+		if (filters.hasIncompleteSubTodos !== undefined) {
+			const incompleteSubTodos = sql`EXISTS (
+				SELECT 1 FROM subtodos
+				WHERE subtodos.todo_id = todos.id
+					AND subtodos.status = 'incomplete'
+					AND subtodos.deleted_at IS NULL
+			)`;
+			conditions.push(
+				filters.hasIncompleteSubTodos
+					? incompleteSubTodos
+					: sql`NOT ${incompleteSubTodos}`,
+			);
+		}
+
+		return conditions;
+	}
+
+	/**
+	 * Searches the titles and descriptions of todos and the titles of
+	 * subtodos, best matches first. The search text is parsed like a web
+	 * search, so it supports "quoted phrases", `or`, and `-excluded` words.
+	 * Nothing in the trash is searched.
+	 * @param sql The postgres connection object.
+	 * @param text What to search for.
+	 * @param limit The most results to return.
+	 * @returns The results, each with its todo and a highlighted snippet.
+	 * @see https://www.postgresql.org/docs/current/textsearch-controls.html
+	 */
+	static async search(
+		sql: postgres.Sql<any>,
+		text: string,
+		limit: number,
+	): Promise<TodoSearchResult[]> {
+		const connection = await sql.reserve();
+		const headlineOptions = "StartSel=<mark>, StopSel=</mark>, MaxFragments=2";
+
+		try {
+			// The documents must match the index expressions in init.sql for the indexes to be used.
+			const hits = await connection`
+				WITH search AS (
+					SELECT websearch_to_tsquery('english', ${text}) AS query
+				)
+				SELECT
+					todos.id AS todo_id,
+					NULL::integer AS subtodo_id,
+					ts_rank(
+						setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', description), 'B'),
+						search.query
+					) AS rank,
+					ts_headline('english', title || ' - ' || description, search.query, ${headlineOptions}) AS snippet
+				FROM todos, search
+				WHERE deleted_at IS NULL
+					AND (setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', description), 'B')) @@ search.query
+				UNION ALL
+				SELECT
+					subtodos.todo_id,
+					subtodos.id,
+					ts_rank(setweight(to_tsvector('english', title), 'A'), search.query),
+					ts_headline('english', title, search.query, ${headlineOptions})
+				FROM subtodos, search
+				WHERE deleted_at IS NULL
+					AND setweight(to_tsvector('english', title), 'A') @@ search.query
+				ORDER BY rank DESC, todo_id, subtodo_id NULLS FIRST
+				LIMIT ${limit}
+			`;
+
+			if (hits.length === 0) {
+				return [];
+			}
 
-		this.props = { ...this.props, ...convertToCase(snakeToCamel, row) };
+			const todoIds = [...new Set(hits.map((hit) => hit.todo_id))];
+			const subTodoIds = hits
+				.map((hit) => hit.subtodo_id)
+				.filter((id) => id !== null);
+
+			const todos = await connection<TodoProps[]>`
+				SELECT * FROM todos WHERE id IN ${sql(todoIds)} AND deleted_at IS NULL
+			`;
+			const subTodos =
+				subTodoIds.length > 0
+					? await connection<SubTodoProps[]>`
+						SELECT * FROM subtodos WHERE id IN ${sql(subTodoIds)}
+					`
+					: [];
+
+			const findRow = (rows: Record<string, any>[], id: number) => {
+				const row = rows.find((row) => row.id === id);
+				return row && convertToCase(snakeToCamel, row);
+			};
+
+			// A todo in the trash, such as one deleted since the search ran, is no longer a result.
+			return hits
+				.map((hit) => ({
+					todo: findRow(todos, hit.todo_id) as TodoProps,
+					subTodo: findRow(subTodos, hit.subtodo_id) as
+						| SubTodoProps
+						| undefined,
+					rank: hit.rank,
+					snippet: hit.snippet,
+				}))
+				.filter((result) => result.todo);
+		} finally {
+			await connection.release();
+		}
 	}
 
-	async delete() {
-		const connection = await this.sql.reserve();
+	/**
+	 * Reads a todo that is in the trash, so that it can be restored.
+	 * @param sql The postgres connection object.
+	 * @param id The ID of the todo.
+	 * @returns The todo, or null if there is no todo with the ID in the trash.
+	 */
+	static async readDeleted(sql: postgres.Sql<any>, id: number) {
+		const [row] = await sql<TodoProps[]>`
+			SELECT * FROM todos WHERE id = ${id} AND deleted_at IS NOT NULL
+		`;
 
-		const result = await connection`
+		return row
+			? new Todo(sql, convertToCase(snakeToCamel, row) as TodoProps)
+			: null;
+	}
+
+	/**
+	 * Permanently deletes the todos that went to the trash before the given
+	 * time. Their subtodos, tags and reminders go with them.
+	 * @param sql The postgres connection object.
+	 * @param before When the todos must have been deleted by.
+	 * @returns How many todos were deleted.
+	 */
+	static async purge(sql: postgres.Sql<any>, before: Date) {
+		const result = await sql`
 			DELETE FROM todos
-			WHERE id = ${this.props.id}
+			WHERE deleted_at < ${before}
 		`;
 
-		await connection.release();
+		return result.count;
+	}
+
+	/**
+	 * Changes the todo, and adds the fields that changed to its history.
+	 * Nothing is added if the values are the same as before. The version
+	 * goes up either way.
+	 * @param updateProps The fields to change. May be empty, to only mark
+	 * the todo as edited, such as when only its tags changed.
+	 * @param ifMatch The versions the change is allowed on, from `getIfMatch`.
+	 * @param tags The names of every tag the todo should have, if they change too.
+	 * @throws PreconditionFailedError If the todo is at none of them.
+	 */
+	async update(
+		updateProps: Partial<TodoProps>,
+		ifMatch?: number[],
+		tags?: string[],
+	) {
+		await this.sql.begin(async (sql) => {
+			// Lock the row so that the history has what it was right before this change.
+			const [before] = await sql`
+				SELECT * FROM todos
+				WHERE id = ${this.props.id} AND deleted_at IS NULL
+				FOR UPDATE
+			`;
+
+			// Someone else may have deleted the row since it was read.
+			if (!before) {
+				throw new NotFoundError("Not found");
+			}
 
-		return result.count === 1;
+			checkVersion(before.version, ifMatch, versionMismatch);
+
+			const [row] = await sql`
+				UPDATE todos
+				SET
+					${sql({ ...convertToCase(camelToSnake, updateProps), edited_at: createUTCDate() })}, version = version + 1
+				WHERE
+					id = ${this.props.id}
+				RETURNING *
+			`;
+			let tagsBefore: TagProps[] | undefined;
+			let tagsAfter: TagProps[] | undefined;
+
+			if (tags) {
+				tagsBefore = await readTags(sql, this.props.id!);
+				await Tag.replaceForTodo(sql, this.props.id!, tags);
+				tagsAfter = await readTags(sql, this.props.id!);
+			}
+
+			const changes = getChanges(
+				{
+					...convertToCase(snakeToCamel, before),
+					tags: joinTags(tagsBefore),
+				},
+				{
+					...convertToCase(snakeToCamel, row),
+					tags: joinTags(tagsAfter),
+				},
+				todoHistoryFields,
+			);
+
+			if (Object.keys(changes).length > 0) {
+				await HistoryEntry.record(sql, {
+					todoId: this.props.id!,
+					action: "update",
+					changes,
+				});
+			}
+
+			this.props = {
+				...this.props,
+				...convertToCase(snakeToCamel, row),
+				tags: tagsAfter ?? this.props.tags,
+			};
+		});
 	}
 
-	async markComplete() {
-		await this.update({
-			status: "complete",
-			completedAt: createUTCDate(),
+	/**
+	 * Moves the todo to the trash, along with those of its subtodos that
+	 * aren't there already. Those are marked as deleted with the todo, which
+	 * is how `restore` knows which subtodos to bring back with it.
+	 * @param ifMatch The versions the todo may be deleted at, from `getIfMatch`.
+	 * @returns Whether the todo was moved, which it isn't if it was already in the trash.
+	 * @throws PreconditionFailedError If the todo is at none of the versions.
+	 */
+	async delete(ifMatch?: number[]) {
+		const deletedAt = createUTCDate();
+
+		return await this.sql.begin(async (sql) => {
+			const [current] = await sql`
+				SELECT version FROM todos
+				WHERE id = ${this.props.id} AND deleted_at IS NULL
+				FOR UPDATE
+			`;
+
+			if (!current) {
+				return false;
+			}
+
+			checkVersion(current.version, ifMatch, versionMismatch);
+
+			await sql`
+				UPDATE todos
+				SET deleted_at = ${deletedAt}, version = version + 1
+				WHERE id = ${this.props.id}
+			`;
+
+			await sql`
+				UPDATE subtodos
+				SET deleted_at = ${deletedAt}, deleted_with_todo = true
+				WHERE todo_id = ${this.props.id} AND deleted_at IS NULL
+			`;
+			await HistoryEntry.record(sql, {
+				todoId: this.props.id!,
+				action: "delete",
+				changes: getChanges({}, { deletedAt }, ["deletedAt"]),
+				createdAt: deletedAt,
+			});
+
+			this.props.deletedAt = deletedAt;
+			this.props.version = current.version + 1;
+			return true;
+		});
+	}
+
+	/**
+	 * Takes the todo out of the trash, along with the subtodos that went
+	 * to the trash with it. Subtodos that were deleted on their own before
+	 * that stay in the trash.
+	 * @returns Whether the todo was restored, which it isn't if it wasn't in the trash.
+	 */
+	async restore() {
+		const { deletedAt } = this.props;
+
+		if (!deletedAt) {
+			return false;
+		}
+
+		return await this.sql.begin(async (sql) => {
+			const [row] = await sql`
+				UPDATE todos
+				SET deleted_at = NULL, version = version + 1
+				WHERE id = ${this.props.id} AND deleted_at = ${deletedAt}
+				RETURNING version
+			`;
+
+			if (!row) {
+				return false;
+			}
+
+			await sql`
+				UPDATE subtodos
+				SET deleted_at = NULL, deleted_with_todo = false
+				WHERE todo_id = ${this.props.id} AND deleted_with_todo
+			`;
+			await HistoryEntry.record(sql, {
+				todoId: this.props.id!,
+				action: "restore",
+				changes: getChanges({ deletedAt }, {}, ["deletedAt"]),
+			});
+
+			this.props.deletedAt = null;
+			this.props.version = row.version;
+			return true;
+		});
+	}
+
+	/**
+	 * Marks the todo as complete. If it repeats and was incomplete until
+	 * now, the next occurrence is created in the same transaction: a copy
+	 * of the todo, with its tags and incomplete copies of its subtodos, due
+	 * at the next date of the recurrence. A todo without a due date repeats
+	 * from when it was completed. Both go in the history.
+	 * @param ifMatch The versions the todo may be completed at, from `getIfMatch`.
+	 * @returns The next occurrence, if one was created.
+	 * @throws PreconditionFailedError If the todo is at none of the versions.
+	 */
+	async markComplete(ifMatch?: number[]): Promise<Todo | null> {
+		const completedAt = createUTCDate();
+
+		return await this.sql.begin(async (sql) => {
+			// Lock the row so that completing it twice at once can't create two next occurrences.
+			const [current] = await sql`
+				SELECT * FROM todos
+				WHERE id = ${this.props.id} AND deleted_at IS NULL
+				FOR UPDATE
+			`;
+
+			if (!current) {
+				throw new NotFoundError("Not found");
+			}
+
+			checkVersion(current.version, ifMatch, versionMismatch);
+
+			const [row] = await sql`
+				UPDATE todos
+				SET status = 'complete', completed_at = ${completedAt}, edited_at = ${completedAt}, version = version + 1
+				WHERE id = ${this.props.id}
+				RETURNING *
+			`;
+
+			this.props = { ...this.props, ...convertToCase(snakeToCamel, row) };
+
+			await HistoryEntry.record(sql, {
+				todoId: this.props.id!,
+				action: "complete",
+				changes: getChanges(
+					convertToCase(snakeToCamel, current),
+					this.props,
+					todoHistoryFields,
+				),
+				createdAt: completedAt,
+			});
+
+			const { recurrence } = this.props;
+
+			if (current.status === "complete" || !recurrence) {
+				return null;
+			}
+
+			const dueAt = getNextOccurrence(
+				recurrence,
+				this.props.dueAt ?? completedAt,
+			);
+
+			if (!dueAt) {
+				return null;
+			}
+
+			const nextProps: TodoProps = {
+				title: this.props.title,
+				description: this.props.description,
+				status: "incomplete",
+				priority: this.props.priority,
+				dueAt,
+				createdAt: completedAt,
+				projectId: this.props.projectId ?? null,
+				recurrence: advanceRecurrence(recurrence),
+			};
+
+			const [nextRow] = await sql`
+				INSERT INTO todos ${sql(convertToCase(camelToSnake, nextProps))}
+				RETURNING *
+			`;
+
+			await sql`
+				INSERT INTO todo_tags (todo_id, tag_id)
+				SELECT ${nextRow.id}, tag_id FROM todo_tags WHERE todo_id = ${this.props.id}
+			`;
+			await sql`
+				INSERT INTO subtodos (title, status, created_at, todo_id)
+				SELECT title, 'incomplete', ${completedAt}, ${nextRow.id}
+				FROM subtodos WHERE todo_id = ${this.props.id} AND deleted_at IS NULL
+				ORDER BY id
+			`;
+
+			const nextTodoProps = convertToCase(snakeToCamel, nextRow) as TodoProps;
+
+			nextTodoProps.tags = await readTags(sql, nextTodoProps.id!);
+
+			await HistoryEntry.record(sql, {
+				todoId: nextTodoProps.id!,
+				action: "create",
+				changes: getChanges(
+					{},
+					{ ...nextTodoProps, tags: joinTags(nextTodoProps.tags) },
+					todoHistoryFields,
+				),
+				createdAt: completedAt,
+			});
+
+			return new Todo(this.sql, nextTodoProps);
 		});
 	}
 
@@ -212,5 +808,26 @@ export default class Todo {
 	}
 }
 
-
-
+/**
+ * What a client that sent an out of date `If-Match` is told.
+ */
+const versionMismatch =
+	"The todo was changed by someone else since you last read it.";
+
+/**
+ * Reads the tags of a todo inside a transaction, so that they are the
+ * ones the transaction is about to save.
+ */
+const readTags = async (sql: postgres.TransactionSql<any>, todoId: number) => {
+	const tags = await Tag.readByTodoIds(sql, [todoId]);
+
+	return tags.get(todoId) ?? [];
+};
+
+/**
+ * @returns The tags as the history keeps them, or undefined if they
+ * weren't read, so that they don't count as changed.
+ */
+const joinTags = (tags?: TagProps[]) => {
+	return tags && Tag.joinNames(tags.map((tag) => tag.name));
+};
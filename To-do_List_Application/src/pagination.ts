@@ -0,0 +1,388 @@
+import postgres from "postgres";
+import { OutgoingHttpHeaders } from "http";
+import { camelToSnake, convertToCase, snakeToCamel } from "./utils";
+import { ValidationError } from "./errors";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortOrder = "asc" | "desc";
+
+/**
+ * One of the properties a list is sorted by.
+ * @property property The camelCase name of the column.
+ * @property order The direction to sort it in.
+ */
+export interface SortKey {
+	property: string;
+	order: SortOrder;
+}
+
+/**
+ * Which page the client asked for. A page either starts `offset` rows
+ * into the list, or right after (or before) the row a cursor points at.
+ * Cursors stay correct when rows are added or removed between requests
+ * and don't get slower the further into the list they are.
+ * @property limit The most rows to return.
+ * @property offset How many rows to skip. Ignored when there is a cursor.
+ * @property cursor A `nextCursor` or `prevCursor` from a previous page.
+ */
+export interface PageRequest {
+	limit: number;
+	offset?: number;
+	cursor?: string;
+}
+
+/**
+ * One page of a sorted list.
+ * @property items The rows on this page, in list order.
+ * @property total How many rows the whole list has.
+ * @property limit The most rows a page can have.
+ * @property offset How many rows come before this page, if the page was read by offset.
+ * @property nextCursor A cursor to the page after this one, if there is one.
+ * @property prevCursor A cursor to the page before this one, if there is one.
+ */
+export interface Page<T> {
+	items: T[];
+	total: number;
+	limit: number;
+	offset?: number;
+	nextCursor?: string;
+	prevCursor?: string;
+}
+
+/**
+ * The `next` and `prev` URLs of a page. They keep the rest of the
+ * query string, so filters and sorting carry over from page to page.
+ */
+export interface PageLinks {
+	next?: string;
+	prev?: string;
+}
+
+/**
+ * What a list endpoint sends to describe the page it returned.
+ * @see getPagination
+ */
+export interface Pagination {
+	total: number;
+	limit: number;
+	offset?: number;
+	nextCursor?: string;
+	prevCursor?: string;
+	links: PageLinks;
+}
+
+/**
+ * The position a cursor points at: the sort values and ID of a row. A
+ * `before` cursor selects the rows before that row, otherwise the rows
+ * after it. The sort order is kept so a cursor can't be reused with a
+ * different one, where the position would no longer make sense.
+ * @property sort The sort keys, written out like `priority:desc,dueAt:asc`.
+ * @property values The row's value for each sort key.
+ * @property dates Which of the values are dates, since JSON turns them into strings.
+ */
+interface Cursor {
+	sort: string;
+	values: any[];
+	dates: boolean[];
+	id: number;
+	before?: boolean;
+}
+
+/**
+ * Reads one page of rows from a table, sorted by the sort keys and then
+ * by ID so that rows with the same sort values always come in the same
+ * order. NULLs are sorted last in both directions. With a cursor, the
+ * page is found with a keyset condition on the sort columns instead of
+ * an offset.
+ * @param sql The postgres connection object.
+ * @param table The table to read from.
+ * @param conditions The filters to apply, joined with AND.
+ * @param sort The properties to sort by, most significant first. The ID
+ * is sorted in the same direction as the last one.
+ * @param page Which page to read.
+ * @returns The page, with its rows converted to camelCase.
+ * @throws ValidationError If the cursor is invalid or was made for another sort order.
+ */
+export const paginate = async (
+	sql: postgres.Sql<any>,
+	table: string,
+	conditions: postgres.PendingQuery<any>[],
+	sort: SortKey[],
+	page: PageRequest,
+): Promise<Page<Record<string, any>>> => {
+	const cursor = page.cursor ? decodeCursor(page.cursor, sort) : undefined;
+	const before = cursor?.before ?? false;
+	const keys: SortKey[] = [
+		...sort,
+		{ property: "id", order: sort[sort.length - 1]?.order ?? "asc" },
+	];
+
+	// Going backwards means reading in the opposite order and flipping the rows afterwards.
+	const orderBy = keys
+		.map(({ property, order }) => {
+			const direction = (order === "asc") !== before ? sql`ASC` : sql`DESC`;
+			const nulls = before ? sql`NULLS FIRST` : sql`NULLS LAST`;
+
+			return sql`${sql(camelToSnake(property))} ${direction} ${nulls}`;
+		})
+		.reduce((clause, key) => sql`${clause}, ${key}`);
+	const filters = cursor
+		? [...conditions, keysetCondition(sql, keys, cursor)]
+		: conditions;
+
+	const connection = await sql.reserve();
+	let total: number;
+	let rows: Record<string, any>[];
+
+	try {
+		[{ total }] = await connection`
+			SELECT COUNT(*)::int AS total
+			FROM ${sql(table)}
+			${where(sql, conditions)}
+		`;
+
+		// One extra row tells us whether there is another page in the same direction.
+		rows = await connection`
+			SELECT *
+			FROM ${sql(table)}
+			${where(sql, filters)}
+			ORDER BY ${orderBy}
+			LIMIT ${page.limit + 1}
+			${cursor ? sql`` : sql`OFFSET ${page.offset ?? 0}`}
+		`;
+	} finally {
+		await connection.release();
+	}
+
+	const hasMore = rows.length > page.limit;
+	const items = rows
+		.slice(0, page.limit)
+		.map((row) => convertToCase(snakeToCamel, row));
+
+	if (before) {
+		items.reverse();
+	}
+
+	const offset = cursor ? undefined : (page.offset ?? 0);
+	const hasNext = before || hasMore;
+	const hasPrev = cursor ? !before || hasMore : offset! > 0;
+	const first = items[0];
+	const last = items[items.length - 1];
+
+	return {
+		items,
+		total,
+		limit: page.limit,
+		offset,
+		nextCursor: hasNext && last ? encodeCursor(sort, last, false) : undefined,
+		prevCursor: hasPrev && first ? encodeCursor(sort, first, true) : undefined,
+	};
+};
+
+/**
+ * Describes a page for the client, with links that keep the rest of the
+ * request's query string. A page that the client asked for by offset
+ * links to the neighbouring offsets. Any other page links to the
+ * neighbouring cursors, including the first page when no offset was
+ * asked for, so that a client that follows the links pages by cursor.
+ * @param page The page that is being sent.
+ * @param url The URL of the request for the page.
+ * @returns What to send along with the page's items.
+ */
+export const getPagination = (page: Page<any>, url: URL): Pagination => {
+	const { total, limit, offset, nextCursor, prevCursor } = page;
+	const links: PageLinks = {};
+
+	const linkTo = (name: "offset" | "cursor", value: string) => {
+		const search = new URLSearchParams(url.searchParams);
+
+		search.delete("offset");
+		search.delete("cursor");
+		search.set("limit", `${limit}`);
+		search.set(name, value);
+
+		return `${url.pathname}?${search}`;
+	};
+
+	if (offset === undefined || !url.searchParams.has("offset")) {
+		if (nextCursor) {
+			links.next = linkTo("cursor", nextCursor);
+		}
+		if (prevCursor) {
+			links.prev = linkTo("cursor", prevCursor);
+		}
+	} else {
+		if (nextCursor) {
+			links.next = linkTo("offset", `${offset + limit}`);
+		}
+		if (offset > 0) {
+			links.prev = linkTo("offset", `${Math.max(offset - limit, 0)}`);
+		}
+	}
+
+	return { total, limit, offset, nextCursor, prevCursor, links };
+};
+
+/**
+ * @param links The links of a page.
+ * @returns A `Link` header with the links, or no headers if there are none.
+ * @see https://www.rfc-editor.org/rfc/rfc8288#section-3
+ * @example { next: "/todos?offset=20" } => { Link: '</todos?offset=20>; rel="next"' }
+ */
+export const getLinkHeader = (links: PageLinks): OutgoingHttpHeaders => {
+	const values = Object.entries(links)
+		.filter(([, url]) => url)
+		.map(([rel, url]) => `<${url}>; rel="${rel}"`);
+
+	return values.length > 0 ? { Link: values.join(", ") } : {};
+};
+
+/**
+ * @example [{ property: "priority", order: "desc" }, { property: "dueAt", order: "asc" }] => "priority:desc,dueAt:asc"
+ */
+const describeSort = (sort: SortKey[]) => {
+	return sort.map(({ property, order }) => `${property}:${order}`).join(",");
+};
+
+/**
+ * Makes a cursor that points at the given row. Cursors are opaque to
+ * clients, so they are base64url-encoded JSON.
+ */
+const encodeCursor = (
+	sort: SortKey[],
+	row: Record<string, any>,
+	before: boolean,
+): string => {
+	const values = sort.map(({ property }) => row[property] ?? null);
+	const cursor: Cursor = {
+		sort: describeSort(sort),
+		values: values.map((value) =>
+			value instanceof Date ? value.toISOString() : value,
+		),
+		dates: values.map((value) => value instanceof Date),
+		id: row.id,
+		before,
+	};
+
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+};
+
+/**
+ * Reads a cursor that the client sent back. Its values end up in the
+ * query, so each one must be a string, a number or null, and the ones
+ * marked as dates must be dates.
+ * @throws ValidationError If the cursor can't be read or was made for another sort order.
+ */
+const decodeCursor = (encoded: string, sort: SortKey[]): Cursor => {
+	let cursor: Cursor | undefined;
+
+	try {
+		cursor = JSON.parse(Buffer.from(encoded, "base64url").toString());
+	} catch (error) {
+		cursor = undefined;
+	}
+
+	if (
+		!cursor ||
+		!Number.isInteger(cursor.id) ||
+		cursor.sort !== describeSort(sort) ||
+		!Array.isArray(cursor.values) ||
+		!Array.isArray(cursor.dates) ||
+		cursor.values.length !== sort.length ||
+		cursor.dates.length !== sort.length ||
+		!cursor.values.every((value, i) =>
+			isCursorValue(value, cursor!.dates[i]),
+		) ||
+		(cursor.before !== undefined && typeof cursor.before !== "boolean")
+	) {
+		throw new ValidationError("Invalid cursor.", {
+			cursor: "Invalid cursor.",
+		});
+	}
+
+	return cursor;
+};
+
+/**
+ * @returns Whether the value can be a sort value of a cursor.
+ * @example ("2024-03-22T12:00:00.000Z", true) => true
+ */
+const isCursorValue = (value: unknown, isDate: unknown) => {
+	if (value === null) {
+		return typeof isDate === "boolean";
+	}
+
+	if (isDate === true) {
+		return typeof value === "string" && !isNaN(Date.parse(value));
+	}
+
+	return (
+		isDate === false &&
+		(typeof value === "string" || Number.isFinite(value))
+	);
+};
+
+/**
+ * Builds the condition that selects the rows after (or before) a cursor,
+ * in the order `paginate` sorts them. Rows are compared one sort key at a
+ * time: a row comes after the cursor if its first key comes after the
+ * cursor's, or if they are equal and the rest of the keys come after.
+ * Row value comparisons can't be used since the keys may be NULL and may
+ * be sorted in different directions, so the comparison is spelled out.
+ * @param keys The sort keys, ending with the ID.
+ * @param cursor The cursor, with one value per sort key except the ID.
+ */
+const keysetCondition = (
+	sql: postgres.Sql<any>,
+	keys: SortKey[],
+	cursor: Cursor,
+): postgres.PendingQuery<any> => {
+	const values = [
+		...cursor.values.map((value, i) =>
+			cursor.dates[i] && value !== null ? new Date(value) : value,
+		),
+		cursor.id,
+	];
+
+	const compare = (i: number): postgres.PendingQuery<any> => {
+		const column = sql(camelToSnake(keys[i].property));
+		const value = values[i];
+		const operator = (keys[i].order === "asc") !== Boolean(cursor.before)
+			? sql`>`
+			: sql`<`;
+
+		if (i === keys.length - 1) {
+			return sql`${column} ${operator} ${value}`;
+		}
+
+		const rest = compare(i + 1);
+
+		// NULLs come after every value, so moving forward past a value includes them
+		// and moving backward past a NULL includes every value.
+		if (value === null) {
+			return cursor.before
+				? sql`(${column} IS NOT NULL OR (${column} IS NULL AND ${rest}))`
+				: sql`(${column} IS NULL AND ${rest})`;
+		}
+
+		return cursor.before
+			? sql`(${column} ${operator} ${value} OR (${column} = ${value} AND ${rest}))`
+			: sql`(${column} ${operator} ${value} OR ${column} IS NULL OR (${column} = ${value} AND ${rest}))`;
+	};
+
+	return compare(0);
+};
+
+/**
+ * @returns A WHERE clause joining the conditions with AND, or nothing if there are none.
+ */
+export const where = (
+	sql: postgres.Sql<any>,
+	conditions: postgres.PendingQuery<any>[],
+) => {
+	return conditions.length > 0
+		? sql`WHERE ${conditions.reduce((clause, condition) => sql`${clause} AND ${condition}`)}`
+		: sql``;
+};
@@ -0,0 +1,307 @@
+import { ValidationError } from "./errors";
+import { DEFAULT_LOCALE, Locale, translate } from "./i18n/i18n";
+import {
+	formatDateToISO,
+	formatDateToLocal,
+	fromZonedTime,
+	toZonedTime,
+} from "./utils";
+
+export const frequencies = ["daily", "weekly", "monthly", "yearly"] as const;
+
+export type Frequency = (typeof frequencies)[number];
+
+/**
+ * The days of the week as RRULE writes them, starting on Monday
+ * like RRULE weeks do.
+ * @see https://www.rfc-editor.org/rfc/rfc5545#section-3.3.10
+ */
+export const weekdays = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+
+export type Weekday = (typeof weekdays)[number];
+
+/**
+ * How a todo repeats, modelled on an RRULE. It ends on a date, after a
+ * number of occurrences, or never.
+ * @property frequency How often it repeats.
+ * @property interval How many days, weeks, months or years apart the occurrences are.
+ * @property weekdays Which days of the week a weekly todo is due on.
+ * @property until The last day, as YYYY-MM-DD, that an occurrence may be due on.
+ * @property count How many occurrences are left, counting this one.
+ * @property timeZone The time zone whose wall clock the occurrences keep
+ * to, so that a todo due at 9:00 stays due at 9:00 when the clocks change.
+ * UTC if it isn't set.
+ * @example { frequency: "weekly", interval: 2, weekdays: ["MO", "TH"], count: 6, timeZone: "Europe/Paris" }
+ */
+export interface Recurrence {
+	frequency: Frequency;
+	interval: number;
+	weekdays?: Weekday[];
+	until?: string;
+	count?: number;
+	timeZone?: string;
+}
+
+/**
+ * The recurrence fields of a todo form or request body, as they come
+ * out of `todoSchema`. `repeat` is "never" to stop a todo repeating.
+ */
+export interface RecurrenceFields {
+	repeat?: Frequency | "never";
+	repeatInterval?: number;
+	repeatWeekdays?: Weekday[];
+	repeatUntil?: Date;
+	repeatCount?: number;
+}
+
+/**
+ * Builds a recurrence from the fields of a form or request body, and
+ * checks that the fields make sense together.
+ * @param fields The fields, already checked one by one against `todoSchema`.
+ * @param timeZone The time zone of the person who filled in the fields.
+ * @returns The recurrence, or null if the todo doesn't repeat.
+ * @throws ValidationError If the fields contradict each other.
+ */
+export const toRecurrence = (
+	fields: RecurrenceFields,
+	timeZone?: string,
+): Recurrence | null => {
+	const { repeat, repeatInterval, repeatWeekdays, repeatUntil, repeatCount } =
+		fields;
+	const errors: Record<string, string> = {};
+
+	if (!repeat || repeat === "never") {
+		return null;
+	}
+	if (repeatWeekdays?.length && repeat !== "weekly") {
+		errors.repeatWeekdays =
+			"Days of the week can only be chosen for weekly todos.";
+	}
+	if (repeatUntil && repeatCount) {
+		errors.repeatCount =
+			"Choose either an end date or a number of times, not both.";
+	}
+	if (Object.keys(errors).length > 0) {
+		throw new ValidationError(Object.values(errors)[0], errors);
+	}
+
+	const recurrence: Recurrence = {
+		frequency: repeat,
+		interval: repeatInterval ?? 1,
+	};
+
+	if (repeatWeekdays?.length) {
+		recurrence.weekdays = weekdays.filter((day) =>
+			repeatWeekdays.includes(day),
+		);
+	}
+	if (repeatUntil) {
+		recurrence.until = formatDateToISO(repeatUntil, timeZone);
+	}
+	if (repeatCount) {
+		recurrence.count = repeatCount;
+	}
+	if (timeZone) {
+		recurrence.timeZone = timeZone;
+	}
+
+	return recurrence;
+};
+
+/**
+ * Turns a recurrence back into the fields it was built from, so that a
+ * form can be filled in with it or some of the fields can be changed.
+ * The end date is the start of that day in the recurrence's time zone.
+ */
+export const toRecurrenceFields = (
+	recurrence?: Recurrence | null,
+): RecurrenceFields => {
+	return {
+		repeat: recurrence?.frequency ?? "never",
+		repeatInterval: recurrence?.interval,
+		repeatWeekdays: recurrence?.weekdays,
+		repeatUntil: recurrence?.until
+			? fromZonedTime(
+					new Date(recurrence.until),
+					recurrence.timeZone ?? "UTC",
+				)
+			: undefined,
+		repeatCount: recurrence?.count,
+	};
+};
+
+/**
+ * Works out when the occurrence after the given one is due. Months and
+ * years keep the day of the month, except that days the month doesn't
+ * have become its last day, so a todo due on January 31st is next due on
+ * February 28th (or 29th). Occurrences keep the time of day on the wall
+ * clock of the recurrence's time zone, even across a change of the clocks.
+ * @param recurrence How the todo repeats.
+ * @param from When the current occurrence is due.
+ * @returns When the next occurrence is due, or null if the recurrence has ended.
+ * @example ({ frequency: "weekly", interval: 1, weekdays: ["MO", "TH"] }, Monday the 1st) => Thursday the 4th
+ */
+export const getNextOccurrence = (
+	recurrence: Recurrence,
+	from: Date,
+): Date | null => {
+	const { frequency, interval, until, count, timeZone = "UTC" } = recurrence;
+
+	if (count !== undefined && count <= 1) {
+		return null;
+	}
+
+	// The calendar arithmetic is done on the wall clock, in UTC fields.
+	const wallClock = toZonedTime(from, timeZone);
+	let next: Date;
+
+	switch (frequency) {
+		case "daily":
+			next = addDays(wallClock, interval);
+			break;
+		case "weekly":
+			next = getNextWeekday(recurrence, wallClock);
+			break;
+		case "monthly":
+			next = addMonths(wallClock, interval);
+			break;
+		case "yearly":
+			next = addMonths(wallClock, interval * 12);
+			break;
+	}
+
+	if (until && formatDateToISO(next) > until) {
+		return null;
+	}
+
+	return fromZonedTime(next, timeZone);
+};
+
+/**
+ * @returns The recurrence of the occurrence after one with the given recurrence.
+ * Only the number of occurrences left changes.
+ */
+export const advanceRecurrence = (recurrence: Recurrence): Recurrence => {
+	return recurrence.count === undefined
+		? recurrence
+		: { ...recurrence, count: recurrence.count - 1 };
+};
+
+/**
+ * @param recurrence The recurrence to describe.
+ * @param locale The locale to describe it in.
+ * @returns How the recurrence reads to a person.
+ * @example { frequency: "weekly", interval: 2, weekdays: ["MO", "TH"], count: 3 } => "Every 2 weeks on Mon, Thu, 3 more times"
+ */
+export const describeRecurrence = (
+	recurrence: Recurrence,
+	locale: Locale = DEFAULT_LOCALE,
+): string => {
+	const every: Record<Frequency, string> = {
+		daily: "Every {count} days",
+		weekly: "Every {count} weeks",
+		monthly: "Every {count} months",
+		yearly: "Every {count} years",
+	};
+	const parts = [
+		translate(locale, every[recurrence.frequency], {
+			count: recurrence.interval,
+		}),
+	];
+
+	if (recurrence.weekdays?.length) {
+		parts[0] = translate(locale, "{every} on {days}", {
+			every: parts[0],
+			days: recurrence.weekdays
+				.map((day) => getWeekdayName(day, locale))
+				.join(", "),
+		});
+	}
+	if (recurrence.until) {
+		const until = formatDateToLocal(
+			new Date(recurrence.until),
+			{ dateStyle: "long", timeZone: "UTC" },
+			undefined,
+			locale,
+		);
+		parts.push(translate(locale, "until {date}", { date: until }));
+	}
+	if (recurrence.count !== undefined) {
+		parts.push(
+			translate(locale, "{count} more times", { count: recurrence.count }),
+		);
+	}
+
+	return parts.join(", ");
+};
+
+/**
+ * @returns The short name of the day of the week in the locale.
+ * @example ("TH", "en") => "Thu"
+ * @example ("TH", "fr") => "jeu."
+ */
+const getWeekdayName = (day: Weekday, locale: Locale) => {
+	// Monday, January 1st 2024, and the days after it.
+	const date = new Date(Date.UTC(2024, 0, 1 + weekdays.indexOf(day)));
+
+	return formatDateToLocal(
+		date,
+		{ weekday: "short", timeZone: "UTC" },
+		undefined,
+		locale,
+	);
+};
+
+/**
+ * @returns Where the date's day falls in an RRULE week, from 0 for Monday to 6 for Sunday.
+ */
+const getWeekdayIndex = (date: Date) => {
+	return (date.getUTCDay() + 6) % 7;
+};
+
+/**
+ * Finds the next chosen day of the week. Without chosen days, a weekly
+ * todo is due on the same day every `interval` weeks. With them, it is
+ * due on each of them in turn, and after the last one of the week it
+ * skips ahead `interval` weeks to the first one.
+ */
+const getNextWeekday = (recurrence: Recurrence, from: Date): Date => {
+	const days = (recurrence.weekdays ?? []).map((day) => weekdays.indexOf(day));
+
+	if (days.length === 0) {
+		return addDays(from, recurrence.interval * 7);
+	}
+
+	const today = getWeekdayIndex(from);
+	const laterThisWeek = days.find((day) => day > today);
+
+	return laterThisWeek === undefined
+		? addDays(from, recurrence.interval * 7 - today + days[0])
+		: addDays(from, laterThisWeek - today);
+};
+
+const addDays = (date: Date, days: number) => {
+	const result = new Date(date);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result;
+};
+
+/**
+ * Adds months, moving to the last day of the month when the day
+ * doesn't exist in it.
+ * @example (2024-01-31, 1) => 2024-02-29
+ */
+const addMonths = (date: Date, months: number) => {
+	const result = new Date(date);
+	const day = date.getUTCDate();
+
+	result.setUTCDate(1);
+	result.setUTCMonth(result.getUTCMonth() + months);
+
+	const lastDay = new Date(
+		Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+	).getUTCDate();
+
+	result.setUTCDate(Math.min(day, lastDay));
+	return result;
+};
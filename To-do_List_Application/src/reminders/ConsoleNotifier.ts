@@ -0,0 +1,36 @@
+import fs from "fs/promises";
+import { Notifier, Reminder, describeReminder } from "./Notifier";
+
+/**
+ * Options for creating a ConsoleNotifier.
+ * @property file A file to also append every reminder to, as one line of JSON each.
+ */
+export interface ConsoleNotifierOptions {
+	file?: string;
+}
+
+/**
+ * Logs reminders to the console, and to a file if one is given. Useful
+ * in development, and as a record of what was sent.
+ */
+export default class ConsoleNotifier implements Notifier {
+	readonly name = "console";
+
+	constructor(private options: ConsoleNotifierOptions = {}) {}
+
+	notify = async (reminder: Reminder) => {
+		console.log(`[reminder] ${describeReminder(reminder)}`);
+
+		if (this.options.file) {
+			const line = JSON.stringify({
+				kind: reminder.kind,
+				todoId: reminder.todo.id,
+				title: reminder.todo.title,
+				dueAt: reminder.dueAt,
+				sentAt: new Date(),
+			});
+
+			await fs.appendFile(this.options.file, `${line}\n`);
+		}
+	};
+}
@@ -0,0 +1,57 @@
+import { TodoProps } from "../models/Todo";
+import { ReminderKind } from "../models/ReminderEvent";
+import { formatDateToLocal } from "../utils";
+
+/**
+ * A reminder that a todo is due soon or is overdue.
+ * @property kind Whether the todo is due soon ("upcoming") or already past due ("overdue").
+ * @property todo The todo, as it was when the reminder was sent.
+ * @property dueAt When the todo is due.
+ * @property timeZone The time zone to write the due date in.
+ */
+export interface Reminder {
+	kind: ReminderKind;
+	todo: TodoProps;
+	dueAt: Date;
+	timeZone: string;
+}
+
+/**
+ * Something that can deliver reminders to a person, such as a log file
+ * or an email relay. The `ReminderScheduler` hands every reminder to each
+ * of its notifiers.
+ * @example scheduler = new ReminderScheduler(sql, { notifiers: [new ConsoleNotifier()] });
+ */
+export interface Notifier {
+	/**
+	 * What the notifier is called in the logs.
+	 */
+	readonly name: string;
+
+	/**
+	 * Delivers a reminder.
+	 * @throws Error If the reminder could not be delivered.
+	 */
+	notify(reminder: Reminder): Promise<void>;
+}
+
+/**
+ * @returns A one-line summary of the reminder, for a log line or an email subject.
+ * @example Overdue: "Send invoices" was due Thursday, March 21, 2024 at 9:00 AM
+ */
+export const describeReminder = ({
+	kind,
+	todo,
+	dueAt,
+	timeZone,
+}: Reminder) => {
+	const due = formatDateToLocal(
+		dueAt,
+		{ dateStyle: "full", timeStyle: "short" },
+		timeZone,
+	);
+
+	return kind === "overdue"
+		? `Overdue: "${todo.title}" was due ${due}`
+		: `Upcoming: "${todo.title}" is due ${due}`;
+};
@@ -0,0 +1,130 @@
+import postgres from "postgres";
+import Todo from "../models/Todo";
+import ReminderEvent from "../models/ReminderEvent";
+import { Notifier } from "./Notifier";
+import { DEFAULT_TIME_ZONE, createUTCDate } from "../utils";
+
+/**
+ * Options for creating a ReminderScheduler.
+ * @property notifiers Where to send the reminders. Every reminder goes to each of them.
+ * @property interval How often to look for todos that need a reminder, in milliseconds.
+ * @property leadTime How long before its due date a todo gets the upcoming reminder, in milliseconds.
+ * @property timeZone The time zone to write due dates in. Defaults to the time zone of the server.
+ */
+export interface ReminderSchedulerOptions {
+	notifiers: Notifier[];
+	interval?: number;
+	leadTime?: number;
+	timeZone?: string;
+}
+
+/**
+ * Looks for incomplete todos that are due soon or overdue every so often
+ * and sends a reminder about each of them. Every todo gets at most one
+ * upcoming and one overdue reminder per due date, which `ReminderEvent`
+ * records in the database so that it holds across restarts and servers.
+ */
+export default class ReminderScheduler {
+	private timer?: NodeJS.Timeout;
+	private scanning?: Promise<number>;
+	private interval: number;
+	private leadTime: number;
+
+	constructor(
+		private sql: postgres.Sql<any>,
+		private options: ReminderSchedulerOptions,
+	) {
+		this.interval = options.interval ?? 60_000;
+		this.leadTime = options.leadTime ?? 24 * 60 * 60 * 1000;
+	}
+
+	/**
+	 * Scans right away, and then every `interval` milliseconds until stopped.
+	 * The timer doesn't keep the process alive on its own.
+	 */
+	start = () => {
+		if (this.timer) {
+			return;
+		}
+
+		this.timer = setInterval(this.tick, this.interval);
+		this.timer.unref();
+		this.tick();
+	};
+
+	/**
+	 * Stops scanning, after waiting for a scan that is already running.
+	 */
+	stop = async () => {
+		clearInterval(this.timer);
+		this.timer = undefined;
+		await this.scanning;
+	};
+
+	/**
+	 * Sends the reminders that are due. A reminder that none of the
+	 * notifiers could deliver is tried again on the next scan.
+	 * @param now The current time.
+	 * @returns How many reminders were sent.
+	 */
+	scan = async (now = createUTCDate()) => {
+		const events = await ReminderEvent.claimDue(this.sql, now, this.leadTime);
+		let sent = 0;
+
+		for (const event of events) {
+			const todo = await Todo.read(this.sql, event.props.todoId);
+
+			// The todo was deleted between claiming the reminder and now.
+			if (!todo) {
+				continue;
+			}
+
+			const reminder = {
+				kind: event.props.kind,
+				todo: todo.props,
+				dueAt: event.props.dueAt,
+				timeZone: this.options.timeZone ?? DEFAULT_TIME_ZONE,
+			};
+			const results = await Promise.allSettled(
+				this.options.notifiers.map((notifier) => notifier.notify(reminder)),
+			);
+
+			results.forEach((result, index) => {
+				if (result.status === "rejected") {
+					console.error(
+						`Reminder for todo ${todo.props.id} could not be sent by ${this.options.notifiers[index].name}:`,
+						result.reason,
+					);
+				}
+			});
+
+			if (results.some((result) => result.status === "fulfilled")) {
+				await event.markSent(createUTCDate());
+				sent++;
+			} else {
+				await event.release();
+			}
+		}
+
+		return sent;
+	};
+
+	/**
+	 * Runs a scan unless the last one is still running, which happens when
+	 * a notifier is slower than the interval.
+	 */
+	private tick = () => {
+		if (this.scanning) {
+			return;
+		}
+
+		this.scanning = this.scan()
+			.catch((error) => {
+				console.error("Reminder scan failed:", error);
+				return 0;
+			})
+			.finally(() => {
+				this.scanning = undefined;
+			});
+	};
+}
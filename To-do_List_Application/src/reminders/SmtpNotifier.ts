@@ -0,0 +1,192 @@
+import net from "net";
+import os from "os";
+import { randomUUID } from "crypto";
+import { Notifier, Reminder, describeReminder } from "./Notifier";
+import { getPath } from "../url";
+
+/**
+ * Options for creating an SmtpNotifier.
+ * @property host The host of the SMTP server.
+ * @property port The port of the SMTP server.
+ * @property from The address the reminders are sent from.
+ * @property to The addresses the reminders are sent to.
+ * @property timeout How long to wait for the server to answer, in milliseconds.
+ */
+export interface SmtpNotifierOptions {
+	host: string;
+	port: number;
+	from: string;
+	to: string[];
+	timeout?: number;
+}
+
+/**
+ * Emails reminders through an SMTP server. It speaks plain SMTP without
+ * TLS or authentication, so it is meant for a relay on the same machine
+ * or network, such as a local Postfix or a test inbox like Mailpit.
+ * @see https://www.rfc-editor.org/rfc/rfc5321
+ */
+export default class SmtpNotifier implements Notifier {
+	readonly name = "smtp";
+
+	constructor(private options: SmtpNotifierOptions) {}
+
+	notify = async (reminder: Reminder) => {
+		const { host, port, from, to, timeout = 10_000 } = this.options;
+		const connection = await SmtpConnection.open(host, port, timeout);
+
+		try {
+			await connection.expect(220);
+			await connection.command(`EHLO ${os.hostname()}`, 250);
+			await connection.command(`MAIL FROM:<${from}>`, 250);
+
+			for (const recipient of to) {
+				await connection.command(`RCPT TO:<${recipient}>`, 250);
+			}
+
+			await connection.command("DATA", 354);
+			await connection.command(`${this.formatMessage(reminder)}\r\n.`, 250);
+			await connection.command("QUIT", 221);
+		} finally {
+			connection.close();
+		}
+	};
+
+	/**
+	 * Writes the reminder as a plain text email. Lines that start with a
+	 * dot get another one, so that none of them ends the message early.
+	 * @see https://www.rfc-editor.org/rfc/rfc5321#section-4.5.2
+	 */
+	private formatMessage = (reminder: Reminder) => {
+		const { from, to } = this.options;
+		const subject = describeReminder(reminder);
+		const body = [
+			subject,
+			"",
+			reminder.todo.description,
+			"",
+			getPath(`todos/${reminder.todo.id}`),
+		];
+		const headers = [
+			`From: <${from}>`,
+			`To: ${to.map((address) => `<${address}>`).join(", ")}`,
+			`Subject: ${encodeHeader(subject)}`,
+			`Date: ${new Date().toUTCString()}`,
+			`Message-ID: <${randomUUID()}@${os.hostname()}>`,
+			"MIME-Version: 1.0",
+			"Content-Type: text/plain; charset=utf-8",
+			"Content-Transfer-Encoding: 8bit",
+		];
+
+		return [...headers, "", ...body]
+			.join("\n")
+			.split(/\r?\n/)
+			.map((line) => (line.startsWith(".") ? `.${line}` : line))
+			.join("\r\n");
+	};
+}
+
+/**
+ * Makes text safe to put in a header: it can't start a new header, and
+ * anything that isn't ASCII is encoded.
+ * @see https://www.rfc-editor.org/rfc/rfc2047
+ * @example "Überweisung" => "=?UTF-8?B?w5xiZXJ3ZWlzdW5n?="
+ */
+const encodeHeader = (text: string) => {
+	const singleLine = text.replace(/[\r\n]+/g, " ");
+
+	return /^[\x20-\x7e]*$/.test(singleLine)
+		? singleLine
+		: `=?UTF-8?B?${Buffer.from(singleLine).toString("base64")}?=`;
+};
+
+/**
+ * One conversation with an SMTP server: send a command, wait for the
+ * reply, and check its code.
+ */
+class SmtpConnection {
+	private buffer = "";
+	private waiting?: {
+		resolve: (reply: string) => void;
+		reject: (error: Error) => void;
+	};
+	private error?: Error;
+
+	private constructor(private socket: net.Socket) {
+		socket.setEncoding("utf8");
+		socket.on("data", (chunk: string) => {
+			this.buffer += chunk;
+			this.checkReply();
+		});
+		socket.on("error", (error) => this.fail(error));
+		socket.on("timeout", () => this.fail(new Error("SMTP server timed out")));
+		socket.on("close", () => this.fail(new Error("SMTP server hung up")));
+	}
+
+	static open = (host: string, port: number, timeout: number) => {
+		return new Promise<SmtpConnection>((resolve, reject) => {
+			const socket = net.createConnection({ host, port, timeout });
+
+			socket.once("connect", () => resolve(new SmtpConnection(socket)));
+			socket.once("error", reject);
+			socket.once("timeout", () => {
+				socket.destroy();
+				reject(new Error("SMTP server timed out"));
+			});
+		});
+	};
+
+	/**
+	 * Sends a command and waits for the reply.
+	 * @throws Error If the reply doesn't have the expected code.
+	 */
+	command = async (line: string, code: number) => {
+		this.socket.write(`${line}\r\n`);
+		return await this.expect(code);
+	};
+
+	/**
+	 * Waits for the next reply. A reply may span many lines, with every
+	 * line but the last having a dash after the code.
+	 * @throws Error If the reply doesn't have the expected code.
+	 */
+	expect = async (code: number) => {
+		const reply = await new Promise<string>((resolve, reject) => {
+			this.waiting = { resolve, reject };
+			this.checkReply();
+		});
+
+		if (!reply.startsWith(`${code}`)) {
+			throw new Error(`SMTP server replied: ${reply.trim()}`);
+		}
+
+		return reply;
+	};
+
+	close = () => {
+		this.socket.destroy();
+	};
+
+	private checkReply = () => {
+		if (!this.waiting) {
+			return;
+		}
+
+		const { resolve, reject } = this.waiting;
+		const match = this.buffer.match(/^(?:\d{3}-.*\r?\n)*\d{3}(?: .*)?\r?\n/);
+
+		if (match) {
+			this.buffer = this.buffer.slice(match[0].length);
+			this.waiting = undefined;
+			resolve(match[0]);
+		} else if (this.error) {
+			this.waiting = undefined;
+			reject(this.error);
+		}
+	};
+
+	private fail = (error: Error) => {
+		this.error = this.error ?? error;
+		this.checkReply();
+	};
+}
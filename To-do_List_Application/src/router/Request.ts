@@ -1,4 +1,26 @@
 import { IncomingMessage } from "http";
+import { randomUUID } from "crypto";
+import { RouteParams } from "./Router";
+import { DEFAULT_TIME_ZONE } from "../utils";
+import { DEFAULT_LOCALE, Locale, translate } from "../i18n/i18n";
+import {
+	ContentTooLargeError,
+	UnsupportedMediaTypeError,
+	ValidationError,
+} from "../errors";
+import {
+	BodyOptions,
+	DEFAULT_MAX_BODY_SIZE,
+	DEFAULT_UPLOAD_DIR,
+	bodyTypes,
+	getDecoder,
+	isJSONType,
+	limitSize,
+	parseContentType,
+	parseUrlEncoded,
+	readAll,
+} from "./body";
+import { UploadedFile, parseMultipart } from "./multipart";
 
 /**
  * A class to represent an HTTP request and provide utility methods for parsing
@@ -8,52 +30,125 @@ import { IncomingMessage } from "http";
  */
 export default class Request {
 	req: IncomingMessage;
+	id: string = randomUUID();
 	body: Record<string, any> = {};
+	/**
+	 * The files uploaded in a multipart body. `parseBody` fills them in.
+	 */
+	files: UploadedFile[] = [];
+	params: RouteParams = {};
+	query: Record<string, any> = {};
+	/**
+	 * The time zone that the client reads and writes dates in. The
+	 * `resolveTimeZone` middleware sets it from the request.
+	 */
+	timeZone: string = DEFAULT_TIME_ZONE;
+	/**
+	 * The locale to answer in. The `resolveLocale` middleware sets it
+	 * from the request.
+	 */
+	locale: Locale = DEFAULT_LOCALE;
 
 	constructor(req: IncomingMessage) {
 		this.req = req;
 	}
 
 	/**
-	 * Parses the request body as JSON and sets the `props`
-	 * property to the parsed object. Rejects the promise if
-	 * the request body is not valid JSON.
-	 * @returns A promise that resolves to the parsed request body.
+	 * Reads the request body and sets the `body` property to its fields,
+	 * and `files` to any files uploaded with it. JSON, form and multipart
+	 * bodies are read, in the character set their `Content-Type` names,
+	 * UTF-8 if it doesn't. A body without a `Content-Type` is read as JSON.
+	 * Multipart bodies are streamed, with their files written to disk as
+	 * they come in, and other bodies are small enough to read whole.
+	 * @param options How big a body may be and where uploaded files go.
+	 * @returns A promise that resolves to the fields of the body.
+	 * @throws ContentTooLargeError If the body has more than `maxSize` bytes.
+	 * @throws UnsupportedMediaTypeError If the body is in a format or character set we can't read.
+	 * @throws ValidationError If the body isn't valid in its format.
 	 */
-	parseBody = async () => {
-		return new Promise((resolve, reject) => {
-			let bodyRaw = "";
+	parseBody = async ({
+		maxSize = DEFAULT_MAX_BODY_SIZE,
+		uploadDir = DEFAULT_UPLOAD_DIR,
+	}: BodyOptions = {}) => {
+		const { headers } = this.req;
 
-			this.req.on("data", (chunk) => {
-				bodyRaw += chunk;
-			});
+		// A request only has a body if it says how long it is or that it is chunked.
+		if (
+			!Number(headers["content-length"]) &&
+			headers["transfer-encoding"] === undefined
+		) {
+			return this.body;
+		}
 
-			this.req.on("end", () => {
-				let body: Record<string, any>;
-				try {
-					if (
-						this.req.headers["content-type"]?.includes(
-							"x-www-form-urlencoded",
-						)
-					) {
-						// application/x-www-form-urlencoded => name=Pikachu&type=Electric
-						body = Object.fromEntries(
-							new URLSearchParams(bodyRaw).entries(),
-						);
-					} else {
-						// application/json => {"name":"Pikachu","type":"Electric"}
-						body = JSON.parse(bodyRaw);
-					}
-				} catch (error) {
-					console.log("Error parsing JSON:", error);
-					reject("Request body must be valid JSON");
-					return;
-				}
+		// No need to read a body that says up front it is too big.
+		if (Number(headers["content-length"]) > maxSize) {
+			throw new ContentTooLargeError(maxSize);
+		}
+
+		const { type, params } = parseContentType(
+			headers["content-type"] ?? "application/json",
+		);
+		// The rest of a body that is too big is left unread, rather than
+		// destroying the request before the 413 can be sent.
+		const chunks = limitSize(
+			this.req.iterator({ destroyOnReturn: false }),
+			maxSize,
+		);
+
+		if (type === "multipart/form-data") {
+			if (!params.boundary) {
+				throw new ValidationError("Multipart body is malformed", {
+					reason: "The Content-Type has no boundary.",
+				});
+			}
 
-				this.body = body;
-				resolve(body);
+			const { fields, files } = await parseMultipart(
+				chunks,
+				params.boundary,
+				uploadDir,
+			);
+
+			this.body = toObject(fields);
+			this.files = files;
+		} else if (type === "application/x-www-form-urlencoded") {
+			// application/x-www-form-urlencoded => name=Pikachu&type=Electric
+			const decoder = getDecoder(params.charset);
+
+			this.body = toObject(
+				parseUrlEncoded(await readAll(chunks), decoder),
+			);
+		} else if (isJSONType(type)) {
+			// application/json => {"name":"Pikachu","type":"Electric"}
+			const text = getDecoder(params.charset).decode(
+				await readAll(chunks),
+			);
+
+			let body: unknown;
+
+			try {
+				body = JSON.parse(text);
+			} catch {
+				throw new ValidationError("Request body must be valid JSON");
+			}
+
+			// Every route reads fields from the body, which a bare value or a list doesn't have.
+			if (
+				typeof body !== "object" ||
+				body === null ||
+				Array.isArray(body)
+			) {
+				throw new ValidationError("Request body must be a JSON object");
+			}
+
+			this.body = body;
+		} else {
+			throw new UnsupportedMediaTypeError("Unsupported content type", {
+				contentType: type,
+				supported: bodyTypes,
 			});
-		});
+		}
+
+		return this.body;
 	};
 
 	/**
@@ -88,19 +183,69 @@ export default class Request {
 	};
 
 	/**
-	 * @returns The ID from the request URL.
-	 * @example http://localhost:3000/todos/1 => 1
+	 * @returns The search params of the request URL as an object. A param
+	 * that appears more than once becomes an array of its values.
+	 * @example http://localhost:3000/todos?tag=bug&tag=ui&status=complete => { tag: ["bug", "ui"], status: "complete" }
+	 */
+	getQuery = () => {
+		return toObject(this.getSearchParams());
+	};
+
+	/**
+	 * The Router fills in `params` with every `:name` segment of the
+	 * matched route pattern before the handler is called.
+	 * @param name The name of the segment in the route pattern, without the `:`.
+	 * @returns The value of the named segment, or `undefined` if there isn't one.
+	 * @example /todos/:id + http://localhost:3000/todos/1 => getParam("id") => "1"
+	 */
+	getParam = (name: string): string | undefined => {
+		return this.params[name];
+	};
+
+	/**
+	 * @returns The `:id` param of the matched route as a number.
+	 * @example /todos/:id + http://localhost:3000/todos/1 => 1
 	 */
 	getId = () => {
-		return Number(this.req.url?.split("/")[2]);
+		return Number(this.getParam("id"));
 	};
 
 	/**
-	 * @returns The ID of the sub-todo from the request URL.
-	 * @example http://localhost:3000/todos/1/sub-todos/2 => 2
+	 * @returns The `:subid` param of the matched route as a number.
+	 * @example /todos/:id/subtodos/:subid + http://localhost:3000/todos/1/subtodos/2 => 2
 	 */
 	getSubTodoId = () => {
-		return Number(this.req.url?.split("/")[4]);
+		return Number(this.getParam("subid"));
+	};
+
+	/**
+	 * @param name The name of the cookie.
+	 * @returns The value of the cookie, or `undefined` if the request doesn't have it.
+	 * @example Cookie: timeZone=Europe%2FParis; theme=dark => getCookie("timeZone") => "Europe/Paris"
+	 */
+	getCookie = (name: string): string | undefined => {
+		for (const pair of (this.req.headers.cookie ?? "").split(";")) {
+			const [key, ...value] = pair.trim().split("=");
+
+			if (key === name) {
+				try {
+					return decodeURIComponent(value.join("="));
+				} catch {
+					return undefined;
+				}
+			}
+		}
+
+		return undefined;
+	};
+
+	/**
+	 * Translates a message into the locale of the request.
+	 * @see translate
+	 * @example req.t("Todo retrieved") => "Tâche récupérée"
+	 */
+	t = (message: string, params?: Record<string, unknown>) => {
+		return translate(this.locale, message, params);
 	};
 
 	accepts = (type: string) => {
@@ -109,3 +254,22 @@ export default class Request {
 			: false;
 	};
 }
+
+/**
+ * Turns search params or form fields into an object. A param that appears
+ * more than once, like the checked boxes of a group, becomes an array of
+ * its values.
+ * @example tag=bug&tag=ui&status=complete => { tag: ["bug", "ui"], status: "complete" }
+ */
+const toObject = (params: Iterable<[string, string]>) => {
+	const object: Record<string, string | string[]> = {};
+
+	for (const [key, value] of params) {
+		const existing = object[key];
+
+		object[key] =
+			existing === undefined ? value : [...[existing].flat(), value];
+	}
+
+	return object;
+};
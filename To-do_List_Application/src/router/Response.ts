@@ -1,16 +1,32 @@
-import { ServerResponse } from "http";
+import { OutgoingHttpHeaders, ServerResponse } from "http";
 import View from "../views/View";
 import Request from "./Request";
+import { AppError } from "../errors";
+import { isFresh, toETag, toWeakETag } from "../etag";
+import {
+	COMPRESSION_THRESHOLD,
+	compress,
+	negotiateEncoding,
+	withEncoding,
+} from "../compression";
 
 export enum StatusCode {
 	OK = 200,
 	Created = 201,
 	NoContent = 204,
+	PartialContent = 206,
 	Redirect = 302,
+	NotModified = 304,
 	BadRequest = 400,
 	Unauthorized = 401,
 	Forbidden = 403,
 	NotFound = 404,
+	MethodNotAllowed = 405,
+	Conflict = 409,
+	PreconditionFailed = 412,
+	ContentTooLarge = 413,
+	UnsupportedMediaType = 415,
+	RangeNotSatisfiable = 416,
 	InternalServerError = 500,
 }
 
@@ -19,14 +35,38 @@ export enum ContentType {
 	HTML = "text/html",
 }
 
+/**
+ * @property version The version of the todo or subtodo being sent, to make
+ * a strong ETag from that can be sent back in `If-Match`. Anything else gets
+ * a weak ETag.
+ * @property lastModified When what is being sent last changed, for `If-Modified-Since`.
+ */
 export interface ResponseProps {
 	statusCode: StatusCode;
 	message: string;
 	payload?: any;
 	template?: string;
 	redirect?: string;
+	headers?: OutgoingHttpHeaders;
+	version?: number;
+	lastModified?: Date;
 }
 
+/**
+ * How long browsers and proxies may keep what they get, unless a route
+ * says otherwise. Pages depend on the cookies of the person asking for
+ * them, so only their browser keeps them, and it checks with the server
+ * before showing them again, which is cheap thanks to the ETag.
+ */
+const DEFAULT_CACHE_CONTROL = "private, no-cache";
+
+/**
+ * The request headers that a page or JSON body depends on, besides its URL:
+ * HTML or JSON, the locale, the locale and time zone cookies, and whether
+ * and how it is compressed.
+ */
+const VARY = "Accept, Accept-Encoding, Accept-Language, Cookie";
+
 /**
  * A class that wraps the `ServerResponse` object and provides
  * a method for sending JSON responses. This class is used by
@@ -34,6 +74,13 @@ export interface ResponseProps {
  * by the controllers to send responses to the client.
  */
 export default class Response {
+	/**
+	 * Data that every template rendered for this response gets, on top of
+	 * its payload. Middleware puts things here that the layout needs, such
+	 * as the projects in the header.
+	 */
+	locals: Record<string, any> = {};
+
 	constructor(
 		public request: Request,
 		public res: ServerResponse,
@@ -45,34 +92,175 @@ export default class Response {
 	 * `payload` property. The `message` property is a string
 	 * that describes the response. The `payload` property is
 	 * an object that contains the data to be sent to the client.
+	 * The message is translated into the locale of the request. A successful
+	 * GET or HEAD gets an ETag and caching headers, and a client that
+	 * already has the same body gets 304 Not Modified without it.
 	 */
 	send = async (props: ResponseProps) => {
-		const { statusCode, message, payload, redirect, template } = props;
-
-		console.log(
-			`<<< ${statusCode} ${message} ${payload ? JSON.stringify(payload, null, 2) : ""}`,
-		);
+		const { statusCode, payload, redirect, template, headers } = props;
+		const message = this.request.t(props.message);
 
 		if (this.request.accepts(ContentType.HTML)) {
 			// If a redirect URL is provided, send a 302 status code and the redirect URL.
 			if (redirect) {
-				this.res.writeHead(StatusCode.Redirect, { Location: redirect });
+				this.res.writeHead(StatusCode.Redirect, {
+					...headers,
+					Location: redirect,
+				});
 				this.res.end();
 				return;
 			}
 
 			// If a template is provided and the client accepts HTML, render the template.
 			if (template) {
-				this.res.writeHead(statusCode, {
-					"Content-Type": ContentType.HTML,
-				});
-				this.res.end(await View.render(template, payload));
+				await this.end(
+					props,
+					ContentType.HTML,
+					await View.render(template, { ...this.locals, ...payload }),
+				);
 				return;
 			}
 		}
 
 		// Otherwise, send a JSON response.
-		this.res.writeHead(statusCode, { "Content-Type": ContentType.JSON });
-		this.res.end(JSON.stringify({ message, payload }, null, 2));
+		await this.end(
+			props,
+			ContentType.JSON,
+			JSON.stringify({ message, payload }, null, 2),
+		);
+	};
+
+	/**
+	 * Sends an error to the client. HTML clients get the ErrorView with a
+	 * status-specific heading, and everyone else gets a JSON body with the
+	 * error's stable `code`, its `message`, any `details`, and the ID of
+	 * the request so that it can be found in the server logs. The text of
+	 * the error is translated into the locale of the request, but `code`
+	 * stays the same in every locale. Neither is to be cached.
+	 * @param error The error to send.
+	 * @example { "code": "NOT_FOUND", "message": "Not found", "requestId": "..." }
+	 */
+	sendError = async (error: AppError) => {
+		const { statusCode, code, headers } = error;
+		const { t, id: requestId } = this.request;
+		const title = t(error.title);
+		const hint = t(error.hint);
+		const message = t(error.messageKey, error.params);
+		const details = error.details && translateDetails(error.details, t);
+
+		if (this.request.accepts(ContentType.HTML)) {
+			this.res.writeHead(statusCode, {
+				...headers,
+				"Cache-Control": "no-store",
+				"Content-Type": ContentType.HTML,
+			});
+			this.res.end(
+				await View.render("ErrorView", {
+					...this.locals,
+					statusCode,
+					title,
+					hint,
+					message,
+					details,
+					requestId,
+				}),
+			);
+			return;
+		}
+
+		this.res.writeHead(statusCode, {
+			...headers,
+			"Cache-Control": "no-store",
+			"Content-Type": ContentType.JSON,
+		});
+		this.res.end(
+			JSON.stringify({ code, message, details, requestId }, null, 2),
+		);
+	};
+
+	/**
+	 * Sends a rendered body. A successful GET gets validators: an ETag made
+	 * from the body, and `Last-Modified` if the route knows it, along with
+	 * `Cache-Control` and `Vary`. If the client's copy has the same ETag, or
+	 * isn't older than `Last-Modified`, it gets 304 Not Modified instead.
+	 * Anything else, such as the response to a change, isn't to be cached.
+	 * A strong ETag is sent for a todo or subtodo even when it isn't a GET,
+	 * so that a client can make its next change depend on it.
+	 * A body of at least `COMPRESSION_THRESHOLD` bytes is compressed the way
+	 * the client likes best, if it names one in `Accept-Encoding`.
+	 * @see https://www.rfc-editor.org/rfc/rfc9111#section-5.2.2
+	 */
+	private end = async (
+		props: ResponseProps,
+		contentType: ContentType,
+		body: string,
+	) => {
+		const { statusCode, version, lastModified } = props;
+		const negotiated = Buffer.byteLength(body) >= COMPRESSION_THRESHOLD;
+		const encoding = negotiated
+			? negotiateEncoding(this.request.req.headers["accept-encoding"])
+			: null;
+		const { method } = this.request.req;
+		// HEAD gets the same headers as GET would, only without the body.
+		const cacheable =
+			(method === "GET" || method === "HEAD") &&
+			statusCode === StatusCode.OK;
+		const headers: OutgoingHttpHeaders = {
+			"Cache-Control": cacheable ? DEFAULT_CACHE_CONTROL : "no-store",
+			...props.headers,
+			"Content-Type": contentType,
+		};
+
+		if (version !== undefined) {
+			headers.ETag = withEncoding(toETag(version, body), encoding);
+		}
+
+		// Whatever the method or status, the body was compressed or not
+		// depending on Accept-Encoding.
+		if (negotiated) {
+			headers.Vary = "Accept-Encoding";
+		}
+
+		if (cacheable) {
+			const etag = (headers.ETag as string | undefined) ?? toWeakETag(body);
+
+			headers.ETag = etag;
+			headers.Vary = VARY;
+
+			if (lastModified) {
+				headers["Last-Modified"] = lastModified.toUTCString();
+			}
+
+			if (isFresh(this.request.req.headers, etag, lastModified)) {
+				delete headers["Content-Type"];
+				this.res.writeHead(StatusCode.NotModified, headers);
+				this.res.end();
+				return;
+			}
+		}
+
+		if (encoding) {
+			headers["Content-Encoding"] = encoding;
+		}
+
+		this.res.writeHead(statusCode, headers);
+		this.res.end(encoding ? await compress(body, encoding) : body);
 	};
 }
+
+/**
+ * Translates the messages in the details of an error, such as the
+ * message of each field that failed validation. Anything that isn't
+ * text is kept as it is.
+ */
+const translateDetails = (
+	details: Record<string, unknown>,
+	t: Request["t"],
+) => {
+	return Object.fromEntries(
+		Object.entries(details).map(([key, value]) => [
+			key,
+			typeof value === "string" ? t(value) : value,
+		]),
+	);
+};
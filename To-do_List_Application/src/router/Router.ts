@@ -1,8 +1,56 @@
 import Request from "./Request";
-import Response from "./Response";
+import Response, { StatusCode } from "./Response";
+import { MethodNotAllowedError, NotFoundError } from "../errors";
 
-interface RouteHandler {
-	(req: Request, res: Response): void;
+export interface RouteHandler {
+	(req: Request, res: Response): void | Promise<void>;
+}
+
+/**
+ * Passes control to the next middleware in the chain, or to the
+ * route handler once every middleware has run. Resolves when
+ * everything further down the chain has finished.
+ */
+export interface NextFunction {
+	(): Promise<void>;
+}
+
+/**
+ * A function that runs before the route handler. It can inspect or
+ * modify the request and response, send a response itself and stop
+ * the chain, or call `next()` to continue. Code after `await next()`
+ * runs once the rest of the chain has finished.
+ * @example const timer: Middleware = async (req, res, next) => { const start = Date.now(); await next(); console.log(Date.now() - start); };
+ */
+export interface Middleware {
+	(req: Request, res: Response, next: NextFunction): void | Promise<void>;
+}
+
+/**
+ * A middleware registered with `Router.use`, along with the path
+ * prefix it is restricted to. A prefix of "/" matches every request.
+ */
+interface MiddlewareLayer {
+	prefix: string;
+	middleware: Middleware;
+}
+
+/**
+ * The named segments captured from a path, keyed by the name
+ * used in the route pattern (without the leading `:`).
+ * @example "/todos/:id/subtodos/:subid" + "/todos/1/subtodos/2" => { id: "1", subid: "2" }
+ */
+export interface RouteParams {
+	[name: string]: string;
+}
+
+/**
+ * The result of a successful route lookup: the handler to call
+ * and the parameters that were captured from the path.
+ */
+export interface RouteMatch {
+	handler: RouteHandler;
+	params: RouteParams;
 }
 
 interface Routes {
@@ -18,36 +66,199 @@ interface Routes {
  */
 export default class Router {
 	routes: Routes;
+	private middleware: MiddlewareLayer[] = [];
 
 	constructor(routes?: Routes) {
 		this.routes = routes || {
 			GET: {},
 			POST: {},
 			PUT: {},
+			PATCH: {},
 			DELETE: {},
 		};
 	}
 
+	/**
+	 * Registers middleware that runs before the route handler. Without a
+	 * prefix, the middleware runs for every request. With a prefix, it only
+	 * runs for paths that start with the prefix's segments (which may
+	 * include `:name` params). Middleware runs in the order it was registered.
+	 * @param prefixOrMiddleware The path prefix, or the first middleware.
+	 * @param middleware The middleware to register.
+	 * @example router.use(logRequest);
+	 * @example router.use("/todos/:id/subtodos", requireTodo);
+	 */
+	use(
+		prefixOrMiddleware: string | Middleware,
+		...middleware: Middleware[]
+	) {
+		let prefix = "/";
+
+		if (typeof prefixOrMiddleware === "string") {
+			prefix = prefixOrMiddleware;
+		} else {
+			middleware.unshift(prefixOrMiddleware);
+		}
+
+		for (const fn of middleware) {
+			this.middleware.push({ prefix, middleware: fn });
+		}
+	}
+
+	/**
+	 * Runs a request through every middleware whose prefix matches the
+	 * request path and then through the matching route handler. If no
+	 * route matches, a 404 Not Found response is sent instead.
+	 * @param req The request object.
+	 * @param res The response object.
+	 */
+	handle = async (req: Request, res: Response) => {
+		const path = this.removeQueryString(req.req.url ?? "");
+		const stack = this.middleware
+			.filter(({ prefix }) => this.doesPathMatchPrefix(path, prefix))
+			.map(({ middleware }) => middleware);
+
+		await this.runMiddleware(stack, req, res, () =>
+			this.dispatch(req, res),
+		);
+	};
+
+	/**
+	 * Finds the route handler for the request and calls it with
+	 * the params captured from the path. HEAD requests fall back to the
+	 * GET handler (Node drops the body of a response to a HEAD request).
+	 * When the path exists but not for this method, OPTIONS requests are
+	 * answered with the allowed methods and anything else gets a 405.
+	 * @throws NotFoundError If no route has the path.
+	 * @throws MethodNotAllowedError If the path exists but not for this method.
+	 * @param req The request object.
+	 * @param res The response object.
+	 */
+	private dispatch = async (req: Request, res: Response) => {
+		const url = req.req.url ?? "";
+		const method = req.getMethod();
+		const match =
+			this.findMatchingHandler(method, url) ??
+			(method === "HEAD"
+				? this.findMatchingHandler("GET", url)
+				: undefined);
+
+		if (!match) {
+			const allowedMethods = this.findAllowedMethods(url);
+
+			// If no method has this path, it's a 404 Not Found.
+			if (allowedMethods.length === 0) {
+				throw new NotFoundError(
+					"Invalid route: {method} {url}",
+					undefined,
+					{ method: req.req.method, url },
+				);
+			}
+
+			if (method === "OPTIONS") {
+				await res.send({
+					statusCode: StatusCode.NoContent,
+					message: "Allowed methods",
+					headers: { Allow: allowedMethods.join(", ") },
+				});
+				return;
+			}
+
+			throw new MethodNotAllowedError(method, url, allowedMethods);
+		}
+
+		// If a handler is found, hand it the params captured from the
+		// path and call it with the request and response objects.
+		req.params = match.params;
+		await match.handler(req, res);
+	};
+
+	/**
+	 * Calls each middleware in turn, giving each one a `next` function
+	 * that calls the one after it. Once the stack is exhausted, `final`
+	 * is called.
+	 * @param stack The middleware to run, in order.
+	 * @param req The request object.
+	 * @param res The response object.
+	 * @param final What to call after the last middleware.
+	 */
+	private runMiddleware = async (
+		stack: Middleware[],
+		req: Request,
+		res: Response,
+		final: () => void | Promise<void>,
+	) => {
+		const run = async (index: number): Promise<void> => {
+			if (index === stack.length) {
+				await final();
+				return;
+			}
+
+			let called = false;
+
+			await stack[index](req, res, async () => {
+				// Calling next() twice would run the rest of the chain twice.
+				if (called) {
+					throw new Error("next() called multiple times");
+				}
+
+				called = true;
+				await run(index + 1);
+			});
+		};
+
+		await run(0);
+	};
+
+	/**
+	 * Wraps a route handler so that its own middleware runs before it.
+	 * @param handlers Any number of middleware followed by the route handler.
+	 * @returns A single route handler that runs the whole chain.
+	 */
+	private withMiddleware = (
+		handlers: [...Middleware[], RouteHandler],
+	): RouteHandler => {
+		const handler = handlers[handlers.length - 1] as RouteHandler;
+		const stack = handlers.slice(0, -1) as Middleware[];
+
+		if (stack.length === 0) {
+			return handler;
+		}
+
+		return (req: Request, res: Response) =>
+			this.runMiddleware(stack, req, res, () => handler(req, res));
+	};
+
 	/**
 	 * Given an HTTP method and a path, this method returns the
-	 * handler that matches the method and path. If no matching
+	 * handler that matches the method and path, along with the
+	 * named parameters captured from the path. If no matching
 	 * handler is found, it returns `undefined`.
 	 * @param method The HTTP method of the request.
 	 * @param path The path of the request.
-	 * @returns The matching handler or `undefined` if no match is found.
+	 * @returns The matching handler and params or `undefined` if no match is found.
+	 * @example findMatchingHandler("GET", "/todos/1") => { handler: getTodo, params: { id: "1" } }
 	 */
 	findMatchingHandler = (
 		method: string,
 		path: string,
-	): RouteHandler | undefined => {
+	): RouteMatch | undefined => {
 		const methodRoutes = this.routes[method]; // Get routes for the HTTP method.
 
 		if (!methodRoutes) return undefined; // Not a supported method.
 
-		// Iterate through defined routes of the current method.
-		for (const routePattern in methodRoutes) {
-			if (this.doesPathMatchPattern(path, routePattern)) {
-				return methodRoutes[routePattern]; // Found a match!
+		// Iterate through defined routes of the current method, most specific
+		// first, so that "/todos/new" wins over "/todos/:id" no matter which
+		// one was registered first.
+		const routePatterns = Object.keys(methodRoutes).sort(
+			this.compareSpecificity,
+		);
+
+		for (const routePattern of routePatterns) {
+			const params = this.matchPathToPattern(path, routePattern);
+
+			if (params) {
+				return { handler: methodRoutes[routePattern], params }; // Found a match!
 			}
 		}
 
@@ -55,36 +266,148 @@ export default class Router {
 	};
 
 	/**
-	 * Checks if a given path matches a given route pattern.
+	 * Lists every method that has a route matching the given path. HEAD is
+	 * included wherever GET is, and OPTIONS whenever the path exists at all.
+	 * @param path The path of the request.
+	 * @returns The allowed methods, or an empty array if no route has the path.
+	 * @example findAllowedMethods("/todos/1") => ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]
+	 */
+	findAllowedMethods = (path: string): string[] => {
+		const allowedMethods: string[] = [];
+
+		for (const method in this.routes) {
+			const hasMatch = Object.keys(this.routes[method]).some(
+				(routePattern) => this.matchPathToPattern(path, routePattern),
+			);
+
+			if (!hasMatch) continue;
+
+			allowedMethods.push(method);
+
+			if (method === "GET" && !this.routes.HEAD) {
+				allowedMethods.push("HEAD");
+			}
+		}
+
+		if (allowedMethods.length > 0 && !allowedMethods.includes("OPTIONS")) {
+			allowedMethods.push("OPTIONS");
+		}
+
+		return allowedMethods;
+	};
+
+	/**
+	 * Sort comparator that puts more specific route patterns first. Patterns
+	 * are compared segment by segment from the left, and at the first segment
+	 * where one is static and the other is a param, the static one wins. If
+	 * that doesn't settle it, the pattern with more static segments wins,
+	 * then the longer pattern.
+	 * @param a The first route pattern.
+	 * @param b The second route pattern.
+	 * @returns A negative number if `a` is more specific, positive if `b` is.
+	 * @example ["/todos/:id", "/todos/new"].sort(compareSpecificity) => ["/todos/new", "/todos/:id"]
+	 * @example ["/:type/new", "/todos/:id"].sort(compareSpecificity) => ["/todos/:id", "/:type/new"]
+	 */
+	private compareSpecificity = (a: string, b: string): number => {
+		const aSegments = a.split("/");
+		const bSegments = b.split("/");
+		const isParam = (segment: string) => segment.startsWith(":");
+
+		for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+			const aIsParam = isParam(aSegments[i]);
+			const bIsParam = isParam(bSegments[i]);
+
+			if (aIsParam !== bIsParam) return aIsParam ? 1 : -1;
+		}
+
+		const countStatic = (segments: string[]) =>
+			segments.filter((segment) => !isParam(segment)).length;
+
+		return (
+			countStatic(bSegments) - countStatic(aSegments) ||
+			bSegments.length - aSegments.length
+		);
+	};
+
+	/**
+	 * Checks if a given path matches a given route pattern and, if it
+	 * does, collects the value of every dynamic (`:name`) segment.
 	 * @param path The path to check from the request.
 	 * @param routePattern The route pattern to match against.
-	 * @returns Whether the path matches the pattern.
-	 * @example doesPathMatchPattern("/todos/1", "/todos/:id") => true
-	 * @example doesPathMatchPattern("/todos/1", "/todos") => false
+	 * @returns The captured params, or `null` if the path does not match.
+	 * @example matchPathToPattern("/todos/1", "/todos/:id") => { id: "1" }
+	 * @example matchPathToPattern("/todos/1", "/todos") => null
 	 */
-	private doesPathMatchPattern = (
+	private matchPathToPattern = (
 		path: string,
 		routePattern: string,
-	): boolean => {
+	): RouteParams | null => {
 		const pathSegments = this.removeQueryString(path).split("/");
 		const patternSegments = routePattern.split("/");
+		const params: RouteParams = {};
 
 		// Basic check: Do they even have the same number of segments?
-		if (pathSegments.length !== patternSegments.length) return false;
+		if (pathSegments.length !== patternSegments.length) return null;
 
 		// Segment-by-segment comparison. We'll check each segment of the path
 		// against the corresponding segment of the pattern. If we find a mismatch,
-		// we'll return false. If we make it through the entire path and pattern
-		// without finding a mismatch, we'll return true.
+		// we'll return null. If we make it through the entire path and pattern
+		// without finding a mismatch, we'll return the collected params.
 		for (let i = 0; i < pathSegments.length; i++) {
 			// Dynamic segment (starts with ':' in your pattern).
-			if (patternSegments[i].startsWith(":")) continue; // These always match.
+			if (patternSegments[i].startsWith(":")) {
+				// An empty segment (e.g. "/todos//edit") can't fill a param.
+				if (pathSegments[i] === "") return null;
+
+				params[patternSegments[i].slice(1)] = this.decodeSegment(
+					pathSegments[i],
+				);
+				continue;
+			}
 
 			// If not an exact match, it's no good.
-			if (patternSegments[i] !== pathSegments[i]) return false;
+			if (patternSegments[i] !== pathSegments[i]) return null;
 		}
 
-		return true; // We've successfully matched all segments!
+		return params; // We've successfully matched all segments!
+	};
+
+	/**
+	 * Checks if a path starts with every segment of a middleware prefix.
+	 * @param path The path of the request, without the query string.
+	 * @param prefix The prefix the middleware was registered with.
+	 * @returns Whether the middleware should run for the path.
+	 * @example doesPathMatchPrefix("/todos/1/edit", "/todos") => true
+	 * @example doesPathMatchPrefix("/todosearch", "/todos") => false
+	 */
+	private doesPathMatchPrefix = (path: string, prefix: string): boolean => {
+		if (prefix === "/") return true;
+
+		const pathSegments = path.split("/");
+		const prefixSegments = prefix.split("/");
+
+		if (pathSegments.length < prefixSegments.length) return false;
+
+		return prefixSegments.every(
+			(segment, i) =>
+				(segment.startsWith(":") && pathSegments[i] !== "") ||
+				segment === pathSegments[i],
+		);
+	};
+
+	/**
+	 * Decodes a percent-encoded path segment. Malformed sequences are
+	 * returned as-is rather than throwing.
+	 * @param segment The raw path segment.
+	 * @returns The decoded segment.
+	 * @example decodeSegment("hello%20world") => "hello world"
+	 */
+	private decodeSegment = (segment: string): string => {
+		try {
+			return decodeURIComponent(segment);
+		} catch {
+			return segment;
+		}
 	};
 
 	/**
@@ -98,19 +421,28 @@ export default class Router {
 		return parts[0];
 	};
 
-	get(path: string, handler: RouteHandler) {
-		this.routes.GET[path] = handler;
+	/**
+	 * The route registration methods accept any number of middleware
+	 * before the handler. These only run for that one route.
+	 * @example router.get("/todos/:id", loadTodo, this.getTodo);
+	 */
+	get(path: string, ...handlers: [...Middleware[], RouteHandler]) {
+		this.routes.GET[path] = this.withMiddleware(handlers);
+	}
+
+	post(path: string, ...handlers: [...Middleware[], RouteHandler]) {
+		this.routes.POST[path] = this.withMiddleware(handlers);
 	}
 
-	post(path: string, handler: RouteHandler) {
-		this.routes.POST[path] = handler;
+	put(path: string, ...handlers: [...Middleware[], RouteHandler]) {
+		this.routes.PUT[path] = this.withMiddleware(handlers);
 	}
 
-	put(path: string, handler: RouteHandler) {
-		this.routes.PUT[path] = handler;
+	patch(path: string, ...handlers: [...Middleware[], RouteHandler]) {
+		this.routes.PATCH[path] = this.withMiddleware(handlers);
 	}
 
-	del(path: string, handler: RouteHandler) {
-		this.routes.DELETE[path] = handler;
+	del(path: string, ...handlers: [...Middleware[], RouteHandler]) {
+		this.routes.DELETE[path] = this.withMiddleware(handlers);
 	}
 }
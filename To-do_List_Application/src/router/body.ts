@@ -0,0 +1,183 @@
+import os from "os";
+import path from "path";
+import {
+	ContentTooLargeError,
+	UnsupportedMediaTypeError,
+	ValidationError,
+} from "../errors";
+
+/**
+ * Options for reading request bodies.
+ * @property maxSize The most bytes a body may have, files included. Bigger
+ * bodies get 413 Content Too Large.
+ * @property uploadDir The directory that uploaded files are written to.
+ */
+export interface BodyOptions {
+	maxSize?: number;
+	uploadDir?: string;
+}
+
+export const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+
+export const DEFAULT_UPLOAD_DIR = path.join(os.tmpdir(), "todo-uploads");
+
+/**
+ * The media types that a request body can be sent in. JSON also covers
+ * types like `application/merge-patch+json`.
+ */
+export const bodyTypes = [
+	"application/json",
+	"application/x-www-form-urlencoded",
+	"multipart/form-data",
+];
+
+/**
+ * A media type and its parameters, with the names lower-cased.
+ * @example "text/html; charset=UTF-8" => { type: "text/html", params: { charset: "UTF-8" } }
+ */
+export interface MediaType {
+	type: string;
+	params: Record<string, string>;
+}
+
+/**
+ * Splits a `Content-Type` header into its media type and parameters.
+ * Parameter values may be quoted, as the boundary of a multipart body
+ * often is.
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-8.3.1
+ * @example 'multipart/form-data; boundary="abc"' => { type: "multipart/form-data", params: { boundary: "abc" } }
+ */
+export const parseContentType = (header = ""): MediaType => {
+	const [type] = header.split(";", 1);
+	const params: Record<string, string> = {};
+
+	for (const [, name, quoted, token] of header
+		.slice(type.length)
+		.matchAll(
+			/;\s*([\w!#$%&'*+.^`|~-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;\s]*))/g,
+		)) {
+		params[name.toLowerCase()] = quoted?.replace(/\\(.)/g, "$1") ?? token;
+	}
+
+	return { type: type.trim().toLowerCase(), params };
+};
+
+/**
+ * @returns Whether bodies of the media type are JSON.
+ * @example "application/merge-patch+json" => true
+ */
+export const isJSONType = (type: string) => {
+	return type === "application/json" || type.endsWith("+json");
+};
+
+/**
+ * @param charset The `charset` parameter of a body or part, if it has one.
+ * @returns A decoder that turns its bytes into text. Bytes that aren't
+ * valid in the character set throw a ValidationError instead of becoming
+ * replacement characters. A byte order mark at the start is dropped.
+ * @throws UnsupportedMediaTypeError If the character set isn't one we know.
+ * @example ("ISO-8859-1").decode(Buffer.from([0xe9])) => "é"
+ */
+export const getDecoder = (charset = "utf-8") => {
+	let decoder: TextDecoder;
+
+	try {
+		decoder = new TextDecoder(charset, { fatal: true });
+	} catch {
+		throw new UnsupportedMediaTypeError("Unsupported character set", {
+			charset,
+		});
+	}
+
+	return {
+		decode: (bytes: Uint8Array) => {
+			try {
+				return decoder.decode(bytes);
+			} catch {
+				throw new ValidationError(
+					"Request body is not valid text in its character set",
+					{ charset },
+				);
+			}
+		},
+	};
+};
+
+export type Decoder = ReturnType<typeof getDecoder>;
+
+/**
+ * Parses a form body. `URLSearchParams` always reads percent-encoded
+ * bytes as UTF-8, so the bytes are decoded by hand, in the body's own
+ * character set.
+ * @param body The raw bytes of the body.
+ * @param decoder The decoder for the body's character set.
+ * @returns The name and value of every field, in order.
+ * @see https://url.spec.whatwg.org/#urlencoded-parsing
+ * @example "title=Caf%E9&done=on" in ISO-8859-1 => [["title", "Café"], ["done", "on"]]
+ */
+export const parseUrlEncoded = (
+	body: Buffer,
+	decoder: Decoder,
+): [string, string][] => {
+	const decode = (text: string) =>
+		decoder.decode(percentDecode(text.replace(/\+/g, " ")));
+
+	return body
+		.toString("latin1")
+		.split("&")
+		.filter((pair) => pair !== "")
+		.map((pair) => {
+			const [name, ...value] = pair.split("=");
+
+			return [decode(name), decode(value.join("="))];
+		});
+};
+
+/**
+ * Yields the chunks of a body until it has been read, counting its bytes
+ * as they come in.
+ * @throws ContentTooLargeError As soon as the body has more than `maxSize` bytes.
+ */
+export async function* limitSize(
+	body: AsyncIterable<Buffer>,
+	maxSize: number,
+): AsyncGenerator<Buffer> {
+	let size = 0;
+
+	for await (const chunk of body) {
+		size += chunk.length;
+
+		if (size > maxSize) {
+			throw new ContentTooLargeError(maxSize);
+		}
+
+		yield chunk;
+	}
+}
+
+/**
+ * Reads the rest of a body into one buffer.
+ */
+export const readAll = async (body: AsyncIterable<Buffer>) => {
+	const chunks: Buffer[] = [];
+
+	for await (const chunk of body) {
+		chunks.push(chunk);
+	}
+
+	return Buffer.concat(chunks);
+};
+
+/**
+ * Turns `%XX` escapes into the bytes they stand for, and leaves anything
+ * else as it is. The text is one character per byte, as `latin1` reads it.
+ * @example "Caf%C3%A9" => <43 61 66 c3 a9>
+ */
+const percentDecode = (text: string) => {
+	return Buffer.from(
+		text.replace(/%([0-9a-f]{2})/gi, (escape, hex) =>
+			String.fromCharCode(parseInt(hex, 16)),
+		),
+		"latin1",
+	);
+};
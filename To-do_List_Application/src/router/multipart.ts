@@ -0,0 +1,348 @@
+import { createWriteStream, WriteStream } from "fs";
+import { mkdir, rm } from "fs/promises";
+import { once } from "events";
+import path from "path";
+import { randomUUID } from "crypto";
+import { ValidationError } from "../errors";
+import { getDecoder, parseContentType } from "./body";
+
+/**
+ * A file that was uploaded in a multipart body and written to disk. It
+ * is deleted once the route handler is done, so a handler that wants to
+ * keep it has to move it somewhere else first.
+ * @property fieldName The name of the form field it was sent in.
+ * @property fileName The name the file had on the client's computer. It
+ * is never used as a path, so it may be anything.
+ * @property contentType The media type the client said the file has.
+ * @property path Where the file was written to.
+ * @property size The size of the file, in bytes.
+ */
+export interface UploadedFile {
+	fieldName: string;
+	fileName: string;
+	contentType: string;
+	path: string;
+	size: number;
+}
+
+/**
+ * The fields and files of a multipart body, in the order they were sent.
+ */
+export interface MultipartBody {
+	fields: [string, string][];
+	files: UploadedFile[];
+}
+
+/**
+ * The most bytes the headers of one part may have. Browsers send a
+ * couple of short headers, so anything bigger is an attack or a mistake.
+ */
+const MAX_HEADER_SIZE = 16 * 1024;
+
+/**
+ * Parses a `multipart/form-data` body as it streams in. Text fields are
+ * kept in memory, and files are written straight to the upload directory
+ * under a random name, so a big upload never has to fit in memory. If
+ * anything goes wrong, the files written so far are deleted again.
+ * @param body The chunks of the body.
+ * @param boundary The `boundary` parameter of the body's `Content-Type`.
+ * @param uploadDir The directory to write the files to. It is created if it doesn't exist.
+ * @returns The fields and files of the body.
+ * @throws ValidationError If the body isn't valid multipart, or a field
+ * isn't valid text in its character set.
+ * @see https://www.rfc-editor.org/rfc/rfc7578
+ */
+export const parseMultipart = async (
+	body: AsyncIterable<Buffer>,
+	boundary: string,
+	uploadDir: string,
+): Promise<MultipartBody> => {
+	const parser = new MultipartParser(boundary, uploadDir);
+
+	try {
+		for await (const chunk of body) {
+			await parser.write(chunk);
+		}
+
+		return parser.end();
+	} catch (error) {
+		await parser.abort();
+		throw error;
+	}
+};
+
+/**
+ * Removes uploaded files, skipping any that were already moved away.
+ */
+export const removeUploads = async (files: UploadedFile[]) => {
+	await Promise.all(files.map((file) => rm(file.path, { force: true })));
+};
+
+/**
+ * One part of a multipart body while it is being read: either a text
+ * field whose bytes are collected, or a file being written to disk. A
+ * file keeps the error its stream failed with, if it did.
+ */
+type Part =
+	| { name: string; charset?: string; chunks: Buffer[] }
+	| { file: UploadedFile; stream: WriteStream; error?: Error };
+
+/**
+ * Reads a multipart body one chunk at a time. Each part starts after a
+ * delimiter, the boundary on a line of its own, and the last delimiter
+ * has two dashes after it. Whatever comes before the first delimiter or
+ * after the last one is ignored.
+ */
+class MultipartParser {
+	private buffer: Buffer;
+	private delimiter: Buffer;
+	private state: "preamble" | "headers" | "content" | "done" = "preamble";
+	private part?: Part;
+	private fields: [string, string][] = [];
+	private files: UploadedFile[] = [];
+
+	constructor(
+		boundary: string,
+		private uploadDir: string,
+	) {
+		this.delimiter = Buffer.from(`\r\n--${boundary}`);
+		// The first delimiter doesn't need a line break before it.
+		this.buffer = Buffer.from("\r\n");
+	}
+
+	write = async (chunk: Buffer) => {
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+
+		while (await this.step()) {
+			// Keep going while there is enough in the buffer to make progress.
+		}
+	};
+
+	end = (): MultipartBody => {
+		if (this.state !== "done") {
+			throw new ValidationError("Multipart body is malformed", {
+				reason: "The body ended before its last boundary.",
+			});
+		}
+
+		return { fields: this.fields, files: this.files };
+	};
+
+	abort = async () => {
+		if (this.part && "stream" in this.part) {
+			this.part.stream.destroy();
+			this.files.push(this.part.file);
+		}
+
+		await removeUploads(this.files);
+	};
+
+	/**
+	 * Reads as much of the buffer as it can in the current state.
+	 * @returns Whether it read anything, so that it is worth trying again.
+	 */
+	private step = async () => {
+		switch (this.state) {
+			case "preamble":
+			case "content":
+				return await this.readContent();
+			case "headers":
+				return await this.readHeaders();
+			case "done":
+				// The epilogue after the last delimiter is ignored.
+				this.buffer = Buffer.alloc(0);
+				return false;
+		}
+	};
+
+	/**
+	 * Passes on the content of the current part up to the next delimiter.
+	 * Without a delimiter in the buffer, it keeps back as many bytes as
+	 * one has, since a delimiter may start in them and end in the next chunk.
+	 */
+	private readContent = async () => {
+		const index = this.buffer.indexOf(this.delimiter);
+		const end =
+			index === -1
+				? Math.max(this.buffer.length - this.delimiter.length + 1, 0)
+				: index;
+
+		if (end > 0) {
+			await this.addContent(this.buffer.subarray(0, end));
+			this.buffer = this.buffer.subarray(end);
+		}
+
+		// Two more bytes are needed to know whether it's the last delimiter.
+		if (index === -1 || this.buffer.length < this.delimiter.length + 2) {
+			return false;
+		}
+
+		const after = this.buffer
+			.subarray(this.delimiter.length, this.delimiter.length + 2)
+			.toString("latin1");
+
+		await this.endPart();
+		this.buffer = this.buffer.subarray(this.delimiter.length + 2);
+
+		if (after === "--") {
+			this.state = "done";
+		} else if (after === "\r\n") {
+			this.state = "headers";
+		} else {
+			throw new ValidationError("Multipart body is malformed", {
+				reason: "A boundary wasn't followed by a line break.",
+			});
+		}
+
+		return true;
+	};
+
+	/**
+	 * Reads the headers of the next part, up to the blank line after them,
+	 * and starts the part.
+	 */
+	private readHeaders = async () => {
+		const index = this.buffer.indexOf("\r\n\r\n");
+
+		if (index === -1) {
+			if (this.buffer.length > MAX_HEADER_SIZE) {
+				throw new ValidationError("Multipart body is malformed", {
+					reason: "The headers of a part are too long.",
+				});
+			}
+
+			return false;
+		}
+
+		// Header values that aren't ASCII are UTF-8, as browsers send them.
+		const headers = parseHeaders(
+			this.buffer.subarray(0, index).toString("utf8"),
+		);
+
+		this.buffer = this.buffer.subarray(index + 4);
+		await this.startPart(headers);
+		this.state = "content";
+		return true;
+	};
+
+	private startPart = async (headers: Record<string, string>) => {
+		// Browsers don't escape the backslashes in a Windows path, so they
+		// are made slashes before they can be read as escapes.
+		const disposition = parseContentType(
+			headers["content-disposition"]?.replace(/\\/g, "/"),
+		);
+		const contentType = parseContentType(headers["content-type"]);
+		const name = disposition.params.name;
+
+		if (disposition.type !== "form-data" || name === undefined) {
+			throw new ValidationError("Multipart body is malformed", {
+				reason: "A part has no form field name.",
+			});
+		}
+
+		// A file input that nothing was chosen in is sent with no file
+		// name, and is read as an empty field, like an empty text input.
+		if (!disposition.params.filename) {
+			this.part = {
+				name,
+				charset: contentType.params.charset,
+				chunks: [],
+			};
+			return;
+		}
+
+		await mkdir(this.uploadDir, { recursive: true });
+
+		const filePath = path.join(this.uploadDir, randomUUID());
+		const part: Part = {
+			file: {
+				fieldName: name,
+				fileName: path.posix.basename(disposition.params.filename),
+				contentType: contentType.type || "application/octet-stream",
+				path: filePath,
+				size: 0,
+			},
+			stream: createWriteStream(filePath, { flags: "wx" }),
+		};
+
+		// The file can fail to open or to be written, such as when the disk
+		// is full, while nothing is waiting on the stream. Unheard, that
+		// error would crash the server, so it is kept for the next write or
+		// the end of the part to throw.
+		part.stream.on("error", (error) => {
+			part.error = error;
+		});
+		this.part = part;
+	};
+
+	private addContent = async (content: Buffer) => {
+		if (!this.part) {
+			// Before the first delimiter, in the preamble.
+			return;
+		}
+
+		if ("chunks" in this.part) {
+			this.part.chunks.push(content);
+			return;
+		}
+
+		if (this.part.error) {
+			throw this.part.error;
+		}
+
+		this.part.file.size += content.length;
+
+		if (!this.part.stream.write(content)) {
+			await once(this.part.stream, "drain");
+		}
+	};
+
+	private endPart = async () => {
+		const part = this.part;
+
+		this.part = undefined;
+
+		if (!part) {
+			return;
+		}
+
+		if ("chunks" in part) {
+			const value = getDecoder(part.charset).decode(
+				Buffer.concat(part.chunks),
+			);
+
+			this.fields.push([part.name, value]);
+			return;
+		}
+
+		// Counted before it is closed, so that it is removed if closing fails.
+		this.files.push(part.file);
+
+		if (part.error) {
+			throw part.error;
+		}
+
+		part.stream.end();
+		await once(part.stream, "close");
+	};
+}
+
+/**
+ * Splits the header block of a part into its headers, by lower-cased name.
+ * @example 'Content-Disposition: form-data; name="title"' => { "content-disposition": 'form-data; name="title"' }
+ */
+const parseHeaders = (block: string) => {
+	const headers: Record<string, string> = {};
+
+	for (const line of block.split("\r\n")) {
+		const colon = line.indexOf(":");
+
+		if (colon > 0) {
+			headers[line.slice(0, colon).trim().toLowerCase()] = line
+				.slice(colon + 1)
+				.trim();
+		}
+	}
+
+	return headers;
+};
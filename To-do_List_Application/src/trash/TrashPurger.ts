@@ -0,0 +1,95 @@
+import postgres from "postgres";
+import Todo from "../models/Todo";
+import { SubTodo } from "../models/Subtodo";
+import { createUTCDate } from "../utils";
+
+/**
+ * Options for creating a TrashPurger.
+ * @property retention How long things stay in the trash before they are deleted for good, in milliseconds.
+ * @property interval How often to look for things to delete, in milliseconds.
+ */
+export interface TrashPurgerOptions {
+	retention?: number;
+	interval?: number;
+}
+
+/**
+ * Empties the trash every so often of the todos and subtodos that have
+ * been in it for longer than the retention period. Until then they can
+ * be restored.
+ */
+export default class TrashPurger {
+	private timer?: NodeJS.Timeout;
+	private purging?: Promise<number>;
+	private retention: number;
+	private interval: number;
+
+	constructor(
+		private sql: postgres.Sql<any>,
+		options: TrashPurgerOptions = {},
+	) {
+		this.retention = options.retention ?? 30 * 24 * 60 * 60 * 1000;
+		this.interval = options.interval ?? 60 * 60 * 1000;
+	}
+
+	/**
+	 * Purges right away, and then every `interval` milliseconds until stopped.
+	 * The timer doesn't keep the process alive on its own.
+	 */
+	start = () => {
+		if (this.timer) {
+			return;
+		}
+
+		this.timer = setInterval(this.tick, this.interval);
+		this.timer.unref();
+		this.tick();
+	};
+
+	/**
+	 * Stops purging, after waiting for a purge that is already running.
+	 */
+	stop = async () => {
+		clearInterval(this.timer);
+		this.timer = undefined;
+		await this.purging;
+	};
+
+	/**
+	 * Permanently deletes what has been in the trash for longer than the
+	 * retention period. The subtodos of a purged todo go with it.
+	 * @param now The current time.
+	 * @returns How many todos and subtodos were deleted, not counting the subtodos of purged todos.
+	 */
+	purge = async (now = createUTCDate()) => {
+		const before = new Date(now.getTime() - this.retention);
+		const todos = await Todo.purge(this.sql, before);
+		const subTodos = await SubTodo.purge(this.sql, before);
+
+		if (todos + subTodos > 0) {
+			console.log(
+				`Purged ${todos} todos and ${subTodos} subtodos from the trash.`,
+			);
+		}
+
+		return todos + subTodos;
+	};
+
+	/**
+	 * Runs a purge unless the last one is still running.
+	 */
+	private tick = () => {
+		if (this.purging) {
+			return;
+		}
+
+		this.purging = this.purge()
+			.catch((error) => {
+				console.error("Trash purge failed:", error);
+				return 0;
+			})
+			.finally(() => {
+				this.purging = undefined;
+			});
+	};
+}
@@ -1,3 +1,5 @@
+import { DEFAULT_LOCALE, Locale, translate } from "./i18n/i18n";
+
 /**
  * Converts a camelCase string to snake_case.
  * @param camelCase The camelCase string to convert.
@@ -51,50 +53,267 @@ export const convertToCase = (
 };
 
 /**
- * A UTC (Universal Time) date is a date without a timezone.
- * This is useful for storing dates in a database without worrying
- * about timezones. Once we need to display the date to the user,
- * we can convert it to the local timezone.
- * @returns A new date in UTC.
+ * The time zone dates are shown in when a request doesn't say which one
+ * it wants: the zone of the server, which the TZ environment variable sets.
+ * @example "America/Toronto"
+ */
+export const DEFAULT_TIME_ZONE =
+	Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Dates are stored as `timestamptz`, which is a moment in time no matter
+ * which time zone it is shown in, so this is the moment itself. It is
+ * rounded down to the second so that it reads back from the database as
+ * the same date.
+ * @param date The moment to use instead of now.
+ * @returns A new date.
  * @example 2024-03-21T04:01:00.000Z
- * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Date/UTC
  */
 export const createUTCDate = (date?: Date): Date => {
-	const now = date ?? new Date();
+	const time = (date ?? new Date()).getTime();
+	return new Date(time - (((time % 1000) + 1000) % 1000));
+};
+
+/**
+ * @returns Whether the name is a time zone that dates can be shown in.
+ * @example "Europe/Paris" => true, "Mars/Olympus" => false
+ */
+export const isValidTimeZone = (timeZone: string) => {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Formatters are slow to create, so there is one per time zone.
+ */
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Reads the wall clock of a time zone at a moment: the date and time that
+ * a clock in that zone shows.
+ * @returns A date whose UTC fields are the wall clock, for doing calendar
+ * arithmetic with the UTC methods of Date.
+ * @example (2024-03-10T14:00:00.000Z, "America/New_York") => 2024-03-10T10:00:00.000Z
+ */
+export const toZonedTime = (date: Date, timeZone: string) => {
+	let formatter = wallClockFormatters.get(timeZone);
+
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric",
+		});
+		wallClockFormatters.set(timeZone, formatter);
+	}
+
+	const parts = Object.fromEntries(
+		formatter
+			.formatToParts(date)
+			.map(({ type, value }) => [type, Number(value)]),
+	);
+
 	return new Date(
 		Date.UTC(
-			now.getFullYear(),
-			now.getMonth(),
-			now.getDate(),
-			now.getHours(),
-			now.getMinutes(),
-			now.getSeconds(),
+			parts.year,
+			parts.month - 1,
+			parts.day,
+			parts.hour,
+			parts.minute,
+			parts.second,
+			date.getUTCMilliseconds(),
 		),
 	);
 };
 
+/**
+ * Finds the moment at which a time zone's wall clock shows the given date
+ * and time; the opposite of `toZonedTime`. A time that the clocks skip
+ * when they spring forward is moved forward by the gap, and a time that
+ * happens twice when they fall back is the first of the two.
+ * @param wallClock A date whose UTC fields are the wall clock.
+ * @example (2024-03-10T10:00:00.000Z, "America/New_York") => 2024-03-10T14:00:00.000Z
+ * @example (2024-03-10T02:30:00.000Z, "America/New_York") => 2024-03-10T07:30:00.000Z, which is 3:30 EDT
+ */
+export const fromZonedTime = (wallClock: Date, timeZone: string) => {
+	const getOffset = (date: Date) =>
+		toZonedTime(date, timeZone).getTime() - date.getTime();
+	const isRight = (date: Date) =>
+		toZonedTime(date, timeZone).getTime() === wallClock.getTime();
+	// Time zones change their offset at most once a day, so the offsets a
+	// day either side are the only ones that the wall clock could be in.
+	const roughly = wallClock.getTime() - getOffset(wallClock);
+	const day = 24 * 60 * 60 * 1000;
+	const earlier = new Date(
+		wallClock.getTime() - getOffset(new Date(roughly - day)),
+	);
+	const later = new Date(
+		wallClock.getTime() - getOffset(new Date(roughly + day)),
+	);
+
+	if (isRight(earlier)) {
+		return earlier;
+	}
+
+	// The clocks skipped the time, so the earlier offset puts it after the gap.
+	return isRight(later) ? later : earlier;
+};
+
+/**
+ * Reads a date the way a form sends it. A date or time without an offset,
+ * which is what date and datetime-local inputs send, is a wall clock time
+ * in the given zone. Anything else is parsed as it is.
+ * @param text The date, e.g. from a form or a JSON body.
+ * @param timeZone The zone of dates without an offset.
+ * @returns The date, which is invalid if the text isn't a date.
+ * @example ("2024-03-21", "Europe/Paris") => 2024-03-20T23:00:00.000Z
+ * @example ("2024-03-21T09:00:00.000Z", "Europe/Paris") => 2024-03-21T09:00:00.000Z
+ */
+export const parseDate = (text: string, timeZone: string) => {
+	const local = text.match(
+		/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?))?$/,
+	);
+
+	if (!local) {
+		return new Date(text);
+	}
+
+	const wallClock = new Date(`${local[1]}T${local[2] ?? "00:00"}Z`);
+
+	return isNaN(wallClock.getTime())
+		? wallClock
+		: fromZonedTime(wallClock, timeZone);
+};
+
 /**
  * @param utcDate The date to format.
+ * @param options How to format it. A time zone given here wins over `timeZone`.
+ * @param timeZone The time zone to show it in.
+ * @param locale The locale whose language and conventions to write it in.
  * @returns The date in a human-readable format.
  * @example 2024-03-21T04:01:00.000Z => Thursday, March 21, 2024
+ * @example (2024-03-21T04:01:00.000Z, undefined, "UTC", "fr") => jeudi 21 mars 2024
  */
 export const formatDateToLocal = (
 	utcDate: Date,
-	options?: Intl.DateTimeFormatOptions,
+	options: Intl.DateTimeFormatOptions = { dateStyle: "full" },
+	timeZone = DEFAULT_TIME_ZONE,
+	locale: Locale = DEFAULT_LOCALE,
 ) => {
-	return new Intl.DateTimeFormat(
-		"en-US",
-		options ?? {
-			dateStyle: "full",
-		},
-	).format(utcDate);
+	return new Intl.DateTimeFormat(locale, { timeZone, ...options }).format(
+		utcDate,
+	);
 };
 
 /**
  * @param utcDate The date to format.
- * @returns The date in ISO format.
+ * @param timeZone The time zone whose calendar to use.
+ * @returns The date in ISO format, as a date input expects it.
  * @example 2024-03-21T04:01:00.000Z => 2024-03-21
+ * @example (2024-03-21T04:01:00.000Z, "America/Toronto") => 2024-03-21, since it is 00:01 there
+ */
+export const formatDateToISO = (utcDate: Date, timeZone = "UTC") => {
+	return toZonedTime(utcDate, timeZone).toISOString().slice(0, 10);
+};
+
+/**
+ * Counts the calendar days from one date to another, as the calendar of
+ * the time zone has them. The time of day doesn't matter.
+ * @returns The number of days, negative if `to` is before `from`.
+ * @example (2024-03-21T22:00:00.000Z, 2024-03-24T08:00:00.000Z, "UTC") => 3
  */
-export const formatDateToISO = (utcDate: Date) => {
-	return utcDate.toISOString().slice(0, 10);
+export const getDaysBetween = (from: Date, to: Date, timeZone = "UTC") => {
+	const day = 24 * 60 * 60 * 1000;
+	const startOfDay = (date: Date) =>
+		Date.parse(formatDateToISO(date, timeZone));
+
+	return Math.round((startOfDay(to) - startOfDay(from)) / day);
+};
+
+/**
+ * @returns The latest of the dates, skipping missing ones, or undefined if they are all missing.
+ * @example (2024-03-21, undefined, 2024-03-24) => 2024-03-24
+ */
+export const getLatest = (...dates: (Date | undefined)[]) => {
+	return dates.reduce<Date | undefined>(
+		(latest, date) => (date && (!latest || date > latest) ? date : latest),
+		undefined,
+	);
+};
+
+/**
+ * Describes when something is due relative to now. Due dates within a
+ * week either way are described in days, and any others by their date.
+ * @param dueAt When it is due.
+ * @param now The current time.
+ * @param timeZone The time zone whose calendar days to count in.
+ * @param locale The locale to write it in.
+ * @example 3 days from now => "Due 3 days from now"
+ * @example 1 day ago => "Due yesterday"
+ * @example 2024-03-21T04:01:00.000Z, months away => "Due March 21, 2024"
+ */
+export const formatDueDate = (
+	dueAt: Date,
+	now = new Date(),
+	timeZone = DEFAULT_TIME_ZONE,
+	locale: Locale = DEFAULT_LOCALE,
+) => {
+	const days = getDaysBetween(now, dueAt, timeZone);
+
+	if (days === 0) {
+		return translate(locale, "Due today");
+	}
+	if (days === 1) {
+		return translate(locale, "Due tomorrow");
+	}
+	if (days === -1) {
+		return translate(locale, "Due yesterday");
+	}
+	if (days > 1 && days <= 7) {
+		return translate(locale, "Due {count} days from now", { count: days });
+	}
+	if (days < -1 && days >= -7) {
+		return translate(locale, "Due {count} days ago", { count: -days });
+	}
+
+	return translate(locale, "Due {date}", {
+		date: formatDateToLocal(dueAt, { dateStyle: "long" }, timeZone, locale),
+	});
+};
+
+/**
+ * Describes how late something is. Something is late once its due time has
+ * passed, the same as for the `overdue` filter of the todo list.
+ * @param dueAt When it was due.
+ * @param now The current time.
+ * @param timeZone The time zone whose calendar days to count in.
+ * @param locale The locale to write it in.
+ * @returns The description, or an empty string if it isn't overdue yet.
+ * @example 3 days ago => "3 days overdue"
+ * @example earlier today => "overdue"
+ */
+export const formatOverdue = (
+	dueAt: Date,
+	now = new Date(),
+	timeZone = DEFAULT_TIME_ZONE,
+	locale: Locale = DEFAULT_LOCALE,
+) => {
+	if (dueAt >= now) {
+		return "";
+	}
+
+	const days = getDaysBetween(dueAt, now, timeZone);
+
+	return days === 0
+		? translate(locale, "overdue")
+		: translate(locale, "{count} days overdue", { count: days });
 };
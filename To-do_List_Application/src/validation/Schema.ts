@@ -0,0 +1,288 @@
+import { parseDate } from "../utils";
+import { DEFAULT_LOCALE, Locale, translate } from "../i18n/i18n";
+
+/**
+ * The kinds of values a field can hold. Incoming values are usually
+ * strings (from a form or a query string), so each type also says
+ * how the string is coerced.
+ * - `string`: trimmed text.
+ * - `number`: parsed with `Number`.
+ * - `date`: parsed with `parseDate`, so a date without an offset is in
+ *   the `timeZone` of the validation options.
+ * - `boolean`: `true`/`false`, `1`/`0`, or `on` as sent by a checked checkbox.
+ * - `enum`: text that must be one of `values`.
+ * - `list`: an array of text, or comma-separated text. Each item is
+ *   trimmed and empty items are dropped, and must be one of `values`
+ *   if there are any.
+ */
+export type FieldType =
+	| "string"
+	| "number"
+	| "date"
+	| "boolean"
+	| "enum"
+	| "list";
+
+/**
+ * The rules for a single field of a schema.
+ * @property type What kind of value the field holds.
+ * @property label The name used in error messages. Defaults to the field name.
+ * @property required Whether the field must be present and non-empty.
+ * @property nullable Whether a partial update may clear the field by sending it as null or empty.
+ * @property values The allowed values of an `enum` field, or of each item of a `list`.
+ * @property integer Whether a `number` field must be a whole number.
+ * @property min The smallest allowed number, or the shortest allowed string.
+ * @property max The largest allowed number, the longest allowed string, or the most items in a list.
+ * @property pattern What a string, or each item of a list, must look like.
+ * @property default The value to use when the field is missing.
+ * @property message A message to use instead of the generated one for any error on this field.
+ */
+export interface FieldRule {
+	type: FieldType;
+	label?: string;
+	required?: boolean;
+	nullable?: boolean;
+	values?: readonly string[];
+	integer?: boolean;
+	min?: number;
+	max?: number;
+	pattern?: RegExp;
+	default?: any;
+	message?: string;
+}
+
+/**
+ * A declarative description of an object, keyed by field name.
+ * @example { title: { type: "string", required: true, max: 255 } }
+ */
+export interface Schema {
+	[field: string]: FieldRule;
+}
+
+/**
+ * The outcome of validating an object against a schema.
+ * @property value The coerced values of the fields the schema knows about.
+ * @property errors One message per invalid field. Empty if the object is valid.
+ */
+export interface ValidationResult {
+	value: Record<string, any>;
+	errors: Record<string, string>;
+}
+
+/**
+ * Options that change how a schema is applied.
+ * @property partial Only check the fields that were supplied, ignoring
+ * `required` for missing ones and not filling in defaults. A `nullable`
+ * field that was supplied empty is kept as null, to clear it. Used for PATCH.
+ * @property timeZone The time zone of dates that don't say which one they
+ * are in, such as the value of a date input. Defaults to UTC.
+ * @property locale The locale to write error messages in. Defaults to English.
+ */
+export interface ValidationOptions {
+	partial?: boolean;
+	timeZone?: string;
+	locale?: Locale;
+}
+
+/**
+ * Checks an object against a schema, coercing every known field to its
+ * type. Fields that aren't in the schema are dropped. Empty strings count
+ * as missing, since that is what an empty HTML form input sends.
+ * @param schema The schema to check against.
+ * @param input The object to check, usually a request body or query string.
+ * @param options Options that change how the schema is applied.
+ * @returns The coerced values and any errors.
+ * @example validateSchema({ age: { type: "number" } }, { age: "3" }) => { value: { age: 3 }, errors: {} }
+ */
+export const validateSchema = (
+	schema: Schema,
+	input: Record<string, any>,
+	options: ValidationOptions = {},
+): ValidationResult => {
+	const value: Record<string, any> = {};
+	const errors: Record<string, string> = {};
+
+	for (const [field, rule] of Object.entries(schema)) {
+		const raw = typeof input[field] === "string" ? input[field].trim() : input[field];
+		const isSupplied = field in input && input[field] !== undefined;
+		const isEmpty = raw === undefined || raw === null || raw === "";
+
+		if (isEmpty) {
+			// Something that was sent but empty is still an attempt to blank the field.
+			if (rule.required && (!options.partial || isSupplied)) {
+				errors[field] = getMessage(
+					field,
+					rule,
+					options,
+					"{label} is required.",
+				);
+			} else if (options.partial && isSupplied && rule.nullable) {
+				value[field] = null;
+			} else if (!options.partial && rule.default !== undefined) {
+				value[field] = rule.default;
+			}
+
+			continue;
+		}
+
+		const result = coerceField(rule, raw, options);
+
+		if ("error" in result) {
+			errors[field] = getMessage(
+				field,
+				rule,
+				options,
+				result.error,
+				result.params,
+			);
+		} else {
+			value[field] = result.value;
+		}
+	}
+
+	return { value, errors };
+};
+
+/**
+ * Coerces a single non-empty value to the type of its rule and checks
+ * the rule's constraints.
+ * @returns The coerced value, or a message describing why it is invalid
+ * along with the values of its placeholders.
+ */
+const coerceField = (
+	rule: FieldRule,
+	raw: any,
+	options: ValidationOptions,
+):
+	| { value: any }
+	| { error: string; params?: Record<string, unknown> } => {
+	switch (rule.type) {
+		case "string": {
+			if (typeof raw !== "string") {
+				return { error: "{label} must be text." };
+			}
+			if (rule.min !== undefined && raw.length < rule.min) {
+				return {
+					error: "{label} must be at least {min} characters.",
+					params: { min: rule.min },
+				};
+			}
+			if (rule.max !== undefined && raw.length > rule.max) {
+				return {
+					error: "{label} must be at most {max} characters.",
+					params: { max: rule.max },
+				};
+			}
+			if (rule.pattern && !rule.pattern.test(raw)) {
+				return { error: "{label} is not in the right format." };
+			}
+			return { value: raw };
+		}
+		case "number": {
+			const number = typeof raw === "number" ? raw : Number(raw);
+
+			if (typeof raw === "boolean" || isNaN(number)) {
+				return { error: "{label} must be a number." };
+			}
+			if (rule.integer && !Number.isInteger(number)) {
+				return { error: "{label} must be a whole number." };
+			}
+			if (rule.min !== undefined && number < rule.min) {
+				return {
+					error: "{label} must be at least {min}.",
+					params: { min: rule.min },
+				};
+			}
+			if (rule.max !== undefined && number > rule.max) {
+				return {
+					error: "{label} must be at most {max}.",
+					params: { max: rule.max },
+				};
+			}
+			return { value: number };
+		}
+		case "date": {
+			const date =
+				raw instanceof Date
+					? raw
+					: typeof raw === "string"
+						? parseDate(raw, options.timeZone ?? "UTC")
+						: new Date(raw);
+
+			if (typeof raw === "boolean" || isNaN(date.getTime())) {
+				return { error: "{label} must be a valid date." };
+			}
+			return { value: date };
+		}
+		case "boolean": {
+			if (raw === true || ["true", "1", "on"].includes(raw)) {
+				return { value: true };
+			}
+			if (raw === false || ["false", "0"].includes(raw)) {
+				return { value: false };
+			}
+			return { error: "{label} must be true or false." };
+		}
+		case "enum": {
+			if (!rule.values?.includes(raw)) {
+				return {
+					error: "{label} must be one of {values}.",
+					params: { values: rule.values?.join(", ") },
+				};
+			}
+			return { value: raw };
+		}
+		case "list": {
+			const items = Array.isArray(raw) ? raw : `${raw}`.split(",");
+
+			if (items.some((item) => typeof item !== "string")) {
+				return { error: "{label} must be a list of text." };
+			}
+
+			const list = items
+				.map((item: string) => item.trim())
+				.filter((item: string) => item !== "");
+
+			if (rule.max !== undefined && list.length > rule.max) {
+				return {
+					error: "{label} must have at most {max} items.",
+					params: { max: rule.max },
+				};
+			}
+			if (rule.pattern && list.some((item) => !rule.pattern!.test(item))) {
+				return { error: "{label} has an item that is not in the right format." };
+			}
+			if (
+				rule.values &&
+				list.some((item) => !rule.values!.includes(item))
+			) {
+				return {
+					error: "{label} must be some of {values}.",
+					params: { values: rule.values.join(", ") },
+				};
+			}
+			return { value: list };
+		}
+	}
+};
+
+/**
+ * Writes the message for an invalid field in the locale of the options,
+ * with the field's label in place of `{label}`. The field's own message,
+ * if it has one, is used instead.
+ * @example ("title", { type: "string", label: "Title" }, { locale: "fr" }, "{label} is required.") => "Titre : ce champ est requis."
+ */
+const getMessage = (
+	field: string,
+	rule: FieldRule,
+	options: ValidationOptions,
+	message: string,
+	params: Record<string, unknown> = {},
+) => {
+	const locale = options.locale ?? DEFAULT_LOCALE;
+
+	return translate(locale, rule.message ?? message, {
+		...params,
+		label: translate(locale, rule.label ?? field),
+	});
+};
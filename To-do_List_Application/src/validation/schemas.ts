@@ -0,0 +1,265 @@
+import { FieldRule, Schema } from "./Schema";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../pagination";
+import { priorities } from "../models/Todo";
+import { frequencies, weekdays } from "../recurrence";
+
+const statuses = ["incomplete", "complete"] as const;
+
+/**
+ * What a tag name may look like: letters, numbers, dashes and
+ * underscores, starting with a letter or number, up to 50 characters.
+ */
+const tagNamePattern = /^[a-z0-9][a-z0-9_-]{0,49}$/i;
+
+/**
+ * The query params that choose a page of a list.
+ * @see PageRequest
+ */
+const pageQuerySchema: Schema = {
+	limit: {
+		type: "number",
+		label: "Limit",
+		integer: true,
+		min: 1,
+		max: MAX_PAGE_SIZE,
+		default: DEFAULT_PAGE_SIZE,
+	},
+	offset: { type: "number", label: "Offset", integer: true, min: 0 },
+	cursor: { type: "string", label: "Cursor", max: 1024 },
+};
+
+/**
+ * The params of any route under /todos/:id.
+ */
+export const todoParamsSchema: Schema = {
+	id: {
+		type: "number",
+		integer: true,
+		min: 1,
+		required: true,
+		message: "Invalid ID",
+	},
+};
+
+/**
+ * The params of any route under /todos/:id/subtodos/:subid.
+ */
+export const subTodoParamsSchema: Schema = {
+	...todoParamsSchema,
+	subid: {
+		type: "number",
+		integer: true,
+		min: 1,
+		required: true,
+		message: "Invalid ID",
+	},
+};
+
+/**
+ * The project a todo is in. Missing means no project.
+ */
+const projectIdRule: FieldRule = {
+	type: "number",
+	label: "Project",
+	integer: true,
+	min: 1,
+	nullable: true,
+	message: "Invalid project",
+};
+
+/**
+ * The fields a client may set when creating or editing a todo. The
+ * `repeat` fields are turned into a `Recurrence` by `toRecurrence`.
+ * @see TodoProps
+ */
+export const todoSchema: Schema = {
+	title: { type: "string", label: "Title", required: true, max: 255 },
+	description: { type: "string", label: "Description", required: true },
+	status: { type: "enum", label: "Status", values: statuses },
+	priority: {
+		type: "enum",
+		label: "Priority",
+		values: priorities,
+		default: "medium",
+	},
+	dueAt: { type: "date", label: "Due date", nullable: true },
+	tags: {
+		type: "list",
+		label: "Tags",
+		max: 10,
+		pattern: tagNamePattern,
+		default: [],
+		message:
+			"Tags must be at most 10 names made of letters, numbers, - and _.",
+	},
+	projectId: projectIdRule,
+	repeat: {
+		type: "enum",
+		label: "Repeat",
+		values: ["never", ...frequencies],
+		nullable: true,
+	},
+	repeatInterval: {
+		type: "number",
+		label: "Repeat interval",
+		integer: true,
+		min: 1,
+		max: 365,
+		nullable: true,
+	},
+	repeatWeekdays: {
+		type: "list",
+		label: "Days of the week",
+		values: weekdays,
+		nullable: true,
+	},
+	repeatUntil: { type: "date", label: "Repeat until", nullable: true },
+	repeatCount: {
+		type: "number",
+		label: "Number of times",
+		integer: true,
+		min: 1,
+		max: 1000,
+		nullable: true,
+	},
+};
+
+/**
+ * The version of a todo that the edit form was filled in from, which
+ * stands in for the `If-Match` header that HTML forms can't send.
+ * @see getIfMatch
+ */
+export const versionSchema: Schema = {
+	version: { type: "number", label: "Version", integer: true, min: 1 },
+};
+
+/**
+ * The body of PUT /todos/:id/project, which moves a todo to another
+ * project, or out of its project if `projectId` is missing.
+ */
+export const moveTodoSchema: Schema = {
+	projectId: projectIdRule,
+};
+
+/**
+ * The fields a client may set when creating or editing a subtodo.
+ * @see SubTodoProps
+ */
+export const subTodoSchema: Schema = {
+	title: { type: "string", label: "Title", required: true, max: 255 },
+	status: { type: "enum", label: "Status", values: statuses },
+};
+
+/**
+ * The query params accepted by GET /todos. The filters are the
+ * ones in `TodoFilters`, and the `sortBy` values are the columns
+ * that `Todo.readPage` knows how to sort by. Without a `sortBy`,
+ * the todos are sorted by `defaultTodoSort`.
+ */
+export const todoListQuerySchema: Schema = {
+	status: {
+		type: "enum",
+		values: statuses,
+		message: "Invalid filter parameter.",
+	},
+	title: { type: "string", label: "Title", max: 255 },
+	dueAfter: { type: "date", label: "Due after" },
+	dueBefore: { type: "date", label: "Due before" },
+	createdAfter: { type: "date", label: "Created after" },
+	createdBefore: { type: "date", label: "Created before" },
+	completedAfter: { type: "date", label: "Completed after" },
+	completedBefore: { type: "date", label: "Completed before" },
+	overdue: { type: "boolean", label: "Overdue" },
+	hasIncompleteSubTodos: {
+		type: "boolean",
+		label: "Has incomplete subtodos",
+	},
+	tag: { type: "list", label: "Tag", pattern: tagNamePattern },
+	tagMatch: {
+		type: "enum",
+		values: ["any", "all"],
+		message: "Invalid tagMatch parameter.",
+	},
+	sortBy: {
+		type: "enum",
+		values: [
+			"id",
+			"title",
+			"description",
+			"status",
+			"dueAt",
+			"createdAt",
+			"completedAt",
+			"editedAt",
+			"priority",
+		],
+		message: "Invalid sortBy parameter.",
+	},
+	orderBy: {
+		type: "enum",
+		values: ["asc", "desc"],
+		default: "asc",
+		message: "Invalid orderBy parameter.",
+	},
+	...pageQuerySchema,
+};
+
+/**
+ * The params of any route under /tags/:id.
+ */
+export const tagParamsSchema: Schema = todoParamsSchema;
+
+/**
+ * The fields a client may set when creating or renaming a tag.
+ * @see TagProps
+ */
+export const tagSchema: Schema = {
+	name: {
+		type: "string",
+		label: "Name",
+		required: true,
+		max: 50,
+		pattern: tagNamePattern,
+	},
+};
+
+/**
+ * The params of any route under /projects/:id.
+ */
+export const projectParamsSchema: Schema = todoParamsSchema;
+
+/**
+ * The fields a client may set when creating or editing a project.
+ * @see ProjectProps
+ */
+export const projectSchema: Schema = {
+	name: { type: "string", label: "Name", required: true, max: 100 },
+	description: { type: "string", label: "Description", max: 1000 },
+};
+
+/**
+ * The query params accepted by GET /todos/search.
+ */
+export const searchQuerySchema: Schema = {
+	q: { type: "string", label: "Search text", required: true, max: 200 },
+	limit: pageQuerySchema.limit,
+};
+
+/**
+ * The query params accepted by GET /todos/:id/subtodos. The `sortBy`
+ * values are the columns that `SubTodo.readPage` knows how to sort by.
+ */
+export const subTodoListQuerySchema: Schema = {
+	status: {
+		type: "enum",
+		values: statuses,
+		message: "Invalid status",
+	},
+	sortBy: {
+		type: "enum",
+		values: ["id", "title", "status", "createdAt", "completedAt"],
+		default: "id",
+		message: "Invalid sortBy parameter",
+	},
+	...pageQuerySchema,
+};
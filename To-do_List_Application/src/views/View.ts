@@ -2,6 +2,21 @@ import handlebars from "handlebars";
 import { getImagesPath, getPath, getStylesPath } from "../url";
 import fs from "fs/promises";
 import { glob } from "glob";
+import { Recurrence, describeRecurrence } from "../recurrence";
+import { DEFAULT_LOCALE, Locale, translate } from "../i18n/i18n";
+import {
+	FieldChange,
+	describeChange,
+	describeField,
+	describeFieldValue,
+	describeHistoryAction,
+} from "../history";
+import {
+	DEFAULT_TIME_ZONE,
+	formatDateToLocal,
+	formatDueDate,
+	formatOverdue,
+} from "../utils";
 
 interface TemplateData {
 	[key: string]: any;
@@ -42,6 +57,141 @@ export default class View {
 		handlebars.registerHelper("images", (relativePath: string) =>
 			getImagesPath(relativePath),
 		);
+
+		// Register a Handlebars helper for comparing two values, e.g. to select an option.
+		handlebars.registerHelper("eq", (a: any, b: any) => a === b);
+
+		// Register a Handlebars helper for comparing IDs, which are numbers
+		// when read from the database but text when refilled from a form.
+		handlebars.registerHelper(
+			"sameId",
+			(a: any, b: any) => a != null && b != null && `${a}` === `${b}`,
+		);
+
+		// Register a Handlebars helper for checking whether a list has a value,
+		// e.g. to check a box. A single value counts as a list of one.
+		handlebars.registerHelper("includes", (list: any, value: any) =>
+			[list ?? []].flat().includes(value),
+		);
+
+		// Register a Handlebars helper for translating a message into the locale
+		// of the request, e.g. {{t "in {title}" title=todo.title}}.
+		handlebars.registerHelper(
+			"t",
+			(message: string | undefined, options: handlebars.HelperOptions) =>
+				message == null
+					? ""
+					: translate(getLocale(options), `${message}`, options.hash),
+		);
+
+		// Register a Handlebars helper for describing how a todo repeats.
+		handlebars.registerHelper(
+			"describeRecurrence",
+			(recurrence: Recurrence, options: handlebars.HelperOptions) =>
+				describeRecurrence(recurrence, getLocale(options)),
+		);
+
+		// Register a Handlebars helper for showing a date in full, e.g. in a tooltip.
+		handlebars.registerHelper(
+			"formatDate",
+			(date: Date | string | undefined, options: handlebars.HelperOptions) =>
+				date
+					? formatDateToLocal(
+							new Date(date),
+							{ dateStyle: "full", timeStyle: "short" },
+							getTimeZone(options),
+							getLocale(options),
+						)
+					: "",
+		);
+
+		// Register a Handlebars helper for saying when a todo is due, e.g. "Due tomorrow".
+		handlebars.registerHelper(
+			"formatDueDate",
+			(dueAt: Date | string | undefined, options: handlebars.HelperOptions) =>
+				dueAt
+					? formatDueDate(
+							new Date(dueAt),
+							new Date(),
+							getTimeZone(options),
+							getLocale(options),
+						)
+					: "",
+		);
+
+		// Register a Handlebars helper for saying how late a todo is, e.g. "3 days overdue".
+		// It is empty, and so false in an {{#if}}, unless the todo is incomplete and late.
+		handlebars.registerHelper(
+			"formatOverdue",
+			(
+				dueAt: Date | string | undefined,
+				status: string | undefined,
+				options: handlebars.HelperOptions,
+			) =>
+				dueAt && status === "incomplete"
+					? formatOverdue(
+							new Date(dueAt),
+							new Date(),
+							getTimeZone(options),
+							getLocale(options),
+						)
+					: "",
+		);
+
+		// Register a Handlebars helper for the heading of an entry of a todo's history.
+		handlebars.registerHelper(
+			"describeHistoryAction",
+			(entry: any, options: handlebars.HelperOptions) =>
+				describeHistoryAction(entry, getLocale(options)),
+		);
+
+		// Register a Handlebars helper for saying how a field changed, e.g. "Status: incomplete → complete".
+		handlebars.registerHelper(
+			"describeChange",
+			(
+				field: string,
+				change: FieldChange,
+				options: handlebars.HelperOptions,
+			) =>
+				describeChange(
+					field,
+					change,
+					getLocale(options),
+					getTimeZone(options),
+				),
+		);
+
+		// Register a Handlebars helper for naming a field of a todo, e.g. "Due date".
+		handlebars.registerHelper(
+			"describeField",
+			(field: string, options: handlebars.HelperOptions) =>
+				describeField(field, getLocale(options)),
+		);
+
+		// Register a Handlebars helper for showing the value of a field as the history keeps it.
+		handlebars.registerHelper(
+			"describeFieldValue",
+			(field: string, value: unknown, options: handlebars.HelperOptions) =>
+				describeFieldValue(
+					field,
+					value,
+					getLocale(options),
+					getTimeZone(options),
+				),
+		);
+
+		// Register a Handlebars helper for showing a search snippet. Everything
+		// in the snippet is escaped except the <mark> tags around matched words.
+		handlebars.registerHelper(
+			"highlight",
+			(snippet: string) =>
+				new handlebars.SafeString(
+					handlebars.Utils.escapeExpression(snippet).replace(
+						/&lt;(\/?)mark&gt;/g,
+						"<$1mark>",
+					),
+				),
+		);
 	}
 
 	/**
@@ -146,3 +296,19 @@ export default class View {
 		this.data = data;
 	};
 }
+
+/**
+ * @returns The time zone of the request being rendered, which the
+ * `resolveTimeZone` middleware passes to every template.
+ */
+const getTimeZone = (options: handlebars.HelperOptions): string => {
+	return options.data?.root?.timeZone ?? DEFAULT_TIME_ZONE;
+};
+
+/**
+ * @returns The locale of the request being rendered, which the
+ * `resolveLocale` middleware passes to every template.
+ */
+const getLocale = (options: handlebars.HelperOptions): Locale => {
+	return options.data?.root?.locale ?? DEFAULT_LOCALE;
+};
@@ -0,0 +1,385 @@
+import http, { IncomingHttpHeaders, OutgoingHttpHeaders } from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { existsSync, readFileSync } from "fs";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import Router from "../src/router/Router";
+import Request from "../src/router/Request";
+import Response, { StatusCode } from "../src/router/Response";
+import { handleErrors } from "../src/middleware/handleErrors";
+import { parseBody } from "../src/middleware/parseBody";
+import {
+	getDecoder,
+	limitSize,
+	parseContentType,
+	parseUrlEncoded,
+	readAll,
+} from "../src/router/body";
+import { parseMultipart } from "../src/router/multipart";
+import {
+	ContentTooLargeError,
+	UnsupportedMediaTypeError,
+	ValidationError,
+} from "../src/errors";
+import { test, describe, expect, beforeAll, afterAll, vi } from "vitest";
+
+/**
+ * The error that the next upload stream fails with once its file is
+ * open, standing in for a disk that fills up halfway through an upload.
+ */
+const disk = vi.hoisted(() => ({ error: null as Error | null }));
+
+vi.mock("fs", async (importOriginal) => {
+	const fs = await importOriginal<typeof import("fs")>();
+
+	return {
+		...fs,
+		createWriteStream: (
+			...args: Parameters<typeof fs.createWriteStream>
+		) => {
+			const stream = fs.createWriteStream(...args);
+			const error = disk.error;
+
+			if (error) {
+				disk.error = null;
+				stream.once("open", () => stream.destroy(error));
+			}
+
+			return stream;
+		},
+	};
+});
+
+const boundary = "----TodoBoundary7MA4YWxk";
+
+let uploadDir: string;
+let server: http.Server;
+
+/**
+ * Builds a multipart body from parts given as their headers and content.
+ */
+const multipart = (...parts: [string, string | Buffer][]) => {
+	return Buffer.concat([
+		...parts.flatMap(([headers, content]) => [
+			Buffer.from(`--${boundary}\r\n${headers}\r\n\r\n`),
+			Buffer.from(content),
+			Buffer.from("\r\n"),
+		]),
+		Buffer.from(`--${boundary}--\r\n`),
+	]);
+};
+
+/**
+ * Yields the bytes one at a time, so that every delimiter is split
+ * across chunks somewhere.
+ */
+async function* byteByByte(body: Buffer) {
+	for (const byte of body) {
+		yield Buffer.from([byte]);
+	}
+}
+
+/**
+ * Posts a body to the test server. The response is resolved even if the
+ * server stops reading the body, as it does when the body is too big.
+ */
+const post = (
+	body: Buffer | string,
+	headers: OutgoingHttpHeaders,
+): Promise<{
+	statusCode?: number;
+	headers: IncomingHttpHeaders;
+	body: any;
+}> => {
+	const { port } = server.address() as AddressInfo;
+
+	return new Promise((resolve, reject) => {
+		const req = http.request(
+			{
+				host: "localhost",
+				port,
+				method: "POST",
+				path: "/upload",
+				headers: { Accept: "application/json", ...headers },
+			},
+			(res) => {
+				let text = "";
+
+				res.setEncoding("utf8");
+				res.on("data", (chunk) => (text += chunk));
+				res.on("end", () =>
+					resolve({
+						statusCode: res.statusCode,
+						headers: res.headers,
+						body: JSON.parse(text),
+					}),
+				);
+			},
+		);
+
+		// The server may hang up before it has all of a body that is too big.
+		req.on("error", (error) =>
+			"code" in error && error.code === "EPIPE"
+				? undefined
+				: reject(error),
+		);
+		req.end(body);
+	});
+};
+
+beforeAll(async () => {
+	uploadDir = await mkdtemp(path.join(os.tmpdir(), "uploads-"));
+
+	const router = new Router();
+
+	router.use(handleErrors);
+	router.use(parseBody({ maxSize: 1024, uploadDir }));
+	router.post("/upload", async (req, res) => {
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Uploaded",
+			payload: {
+				body: req.body,
+				files: req.files.map((file) => ({
+					...file,
+					content: readFileSync(file.path, "utf8"),
+				})),
+			},
+		});
+	});
+
+	server = http.createServer((req, res) => {
+		const request = new Request(req);
+
+		router.handle(request, new Response(request, res));
+	});
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+	await rm(uploadDir, { recursive: true, force: true });
+});
+
+describe("Body parsing", () => {
+	test("Content type was split into its type and parameters.", () => {
+		expect(parseContentType(`Multipart/Form-Data; Boundary="a;b"`)).toEqual(
+			{ type: "multipart/form-data", params: { boundary: "a;b" } },
+		);
+		expect(parseContentType("text/plain; charset=ISO-8859-1")).toEqual({
+			type: "text/plain",
+			params: { charset: "ISO-8859-1" },
+		});
+		expect(parseContentType()).toEqual({ type: "", params: {} });
+	});
+
+	test("Form was read in its character set.", () => {
+		expect(
+			parseUrlEncoded(
+				Buffer.from("title=Caf%E9+cr%E8me&done=on&empty="),
+				getDecoder("ISO-8859-1"),
+			),
+		).toEqual([
+			["title", "Café crème"],
+			["done", "on"],
+			["empty", ""],
+		]);
+		expect(
+			parseUrlEncoded(Buffer.from("title=Caf%C3%A9"), getDecoder()),
+		).toEqual([["title", "Café"]]);
+		// A lone byte that isn't UTF-8 isn't quietly turned into "�".
+		expect(() =>
+			parseUrlEncoded(Buffer.from("title=Caf%E9"), getDecoder()),
+		).toThrow(ValidationError);
+		expect(() => getDecoder("klingon")).toThrow(UnsupportedMediaTypeError);
+	});
+
+	test("Body was cut off once it was too big.", async () => {
+		const body = byteByByte(Buffer.from("0123456789"));
+
+		await expect(readAll(limitSize(body, 9))).rejects.toThrow(
+			ContentTooLargeError,
+		);
+		expect(
+			(await readAll(limitSize(byteByByte(Buffer.from("0123")), 4)))
+				.length,
+		).toBe(4);
+	});
+
+	test("Multipart body was read even when split at every byte.", async () => {
+		const body = multipart(
+			[
+				'Content-Disposition: form-data; name="title"',
+				"Groceries\r\n--not a boundary",
+			],
+			[
+				'Content-Disposition: form-data; name="note"\r\nContent-Type: text/plain; charset=ISO-8859-1',
+				Buffer.from([0x63, 0x61, 0x66, 0xe9]),
+			],
+			[
+				'Content-Disposition: form-data; name="list"; filename="C:\\Users\\me\\list.txt"\r\nContent-Type: text/plain',
+				"milk\r\neggs",
+			],
+		);
+		const { fields, files } = await parseMultipart(
+			byteByByte(Buffer.concat([Buffer.from("preamble\r\n"), body])),
+			boundary,
+			uploadDir,
+		);
+
+		expect(fields).toEqual([
+			["title", "Groceries\r\n--not a boundary"],
+			["note", "café"],
+		]);
+		expect(files).toHaveLength(1);
+		expect(files[0]).toMatchObject({
+			fieldName: "list",
+			fileName: "list.txt",
+			contentType: "text/plain",
+			size: 10,
+		});
+		expect(path.dirname(files[0].path)).toBe(uploadDir);
+		expect(readFileSync(files[0].path, "utf8")).toBe("milk\r\neggs");
+
+		await rm(files[0].path);
+	});
+
+	test("Files of a multipart body that broke off were removed.", async () => {
+		const body = multipart([
+			'Content-Disposition: form-data; name="list"; filename="list.txt"',
+			"milk",
+		]);
+		const before = await readdir(uploadDir);
+
+		await expect(
+			parseMultipart(
+				byteByByte(body.subarray(0, body.length - 10)),
+				boundary,
+				uploadDir,
+			),
+		).rejects.toThrow("Multipart body is malformed");
+		expect(await readdir(uploadDir)).toEqual(before);
+	});
+
+	test("File that failed to be written between chunks was removed.", async () => {
+		const body = multipart([
+			'Content-Disposition: form-data; name="list"; filename="list.txt"',
+			"milk\r\neggs\r\nbread",
+		]);
+		const before = await readdir(uploadDir);
+
+		disk.error = Object.assign(new Error("No space left on device"), {
+			code: "ENOSPC",
+		});
+
+		// The stream fails while the parser is waiting for the next chunk.
+		async function* slowly() {
+			for (const chunk of [body.subarray(0, 100), body.subarray(100)]) {
+				yield chunk;
+				await new Promise((resolve) => setTimeout(resolve, 20));
+			}
+		}
+
+		await expect(
+			parseMultipart(slowly(), boundary, uploadDir),
+		).rejects.toThrow("No space left on device");
+		expect(await readdir(uploadDir)).toEqual(before);
+	});
+});
+
+describe("Body parsing middleware", () => {
+	test("Multipart fields and files reached the handler.", async () => {
+		const { statusCode, body } = await post(
+			multipart(
+				['Content-Disposition: form-data; name="tag"', "bug"],
+				['Content-Disposition: form-data; name="tag"', "ui"],
+				[
+					'Content-Disposition: form-data; name="attachment"; filename="../../etc/passwd"',
+					"not really",
+				],
+				// A file input that nothing was chosen in.
+				[
+					'Content-Disposition: form-data; name="other"; filename=""\r\nContent-Type: application/octet-stream',
+					"",
+				],
+			),
+			{ "Content-Type": `multipart/form-data; boundary=${boundary}` },
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.body).toEqual({ tag: ["bug", "ui"], other: "" });
+
+		const [file] = body.payload.files;
+
+		expect(file.fileName).toBe("passwd");
+		expect(file.content).toBe("not really");
+		expect(path.dirname(file.path)).toBe(uploadDir);
+		// It is removed once the handler is done with it.
+		await vi.waitFor(() => expect(existsSync(file.path)).toBe(false));
+	});
+
+	test("Form in another character set was read.", async () => {
+		const { body } = await post("title=Caf%E9", {
+			"Content-Type":
+				"application/x-www-form-urlencoded; charset=windows-1252",
+		});
+
+		expect(body.payload.body).toEqual({ title: "Café" });
+	});
+
+	test("Body that was too big was refused.", async () => {
+		const big = JSON.stringify({ title: "x".repeat(2000) });
+		let { statusCode, body, headers } = await post(big, {
+			"Content-Type": "application/json",
+		});
+
+		expect(statusCode).toBe(StatusCode.ContentTooLarge);
+		expect(body.code).toBe("CONTENT_TOO_LARGE");
+		expect(headers.connection).toBe("close");
+
+		// Without a Content-Length, it is only found out while reading it.
+		({ statusCode } = await post(big, {
+			"Content-Type": "application/json",
+			"Transfer-Encoding": "chunked",
+		}));
+
+		expect(statusCode).toBe(StatusCode.ContentTooLarge);
+	});
+
+	test("Body in a format we can't read was refused.", async () => {
+		let { statusCode, body } = await post("<todo/>", {
+			"Content-Type": "application/xml",
+		});
+
+		expect(statusCode).toBe(StatusCode.UnsupportedMediaType);
+		expect(body.code).toBe("UNSUPPORTED_MEDIA_TYPE");
+		expect(body.details.supported).toContain("multipart/form-data");
+
+		({ statusCode } = await post("{}", {
+			"Content-Type": "application/json; charset=klingon",
+		}));
+
+		expect(statusCode).toBe(StatusCode.UnsupportedMediaType);
+
+		({ statusCode, body } = await post("{", {
+			"Content-Type": "application/json",
+		}));
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Request body must be valid JSON");
+	});
+
+	test.each(["null", "5", '"x"', "[]"])(
+		"JSON body %s that wasn't an object was refused.",
+		async (json) => {
+			const { statusCode, body } = await post(json, {
+				"Content-Type": "application/json",
+			});
+
+			expect(statusCode).toBe(StatusCode.BadRequest);
+			expect(body.code).toBe("VALIDATION_FAILED");
+			expect(body.message).toBe("Request body must be a JSON object");
+		},
+	);
+});
@@ -2,7 +2,11 @@ import { test, expect } from "@playwright/test";
 import { getPath } from "../src/url";
 import postgres from "postgres";
 import Todo, { TodoProps } from "../src/models/Todo";
-import { createUTCDate } from "../src/utils";
+import {
+	DEFAULT_TIME_ZONE,
+	createUTCDate,
+	formatDateToISO,
+} from "../src/utils";
 //import SubTodo, { SubTodoProps } from "../src/models/Subtodo";
 const sql = postgres({
 	database: "TodoDB",
@@ -42,7 +46,14 @@ const createTodo = async (props: Partial<TodoProps> = {}) => {
  * @see https://www.postgresql.org/docs/13/sql-altersequence.html
  */
 test.afterEach(async () => {
-	const tables = ["todos", "subtodos"];
+	const tables = [
+		"todos",
+		"subtodos",
+		"tags",
+		"projects",
+		"reminder_events",
+		"todo_history",
+	];
 
 	try {
 		for (const table of tables) {
@@ -161,6 +172,39 @@ test("Todo updated successfully.", async ({ page }) => {
 	expect(await descriptionElement?.innerText()).toBe(newDescription);
 });
 
+test("Todo edited by someone else in the meantime was merged.", async ({
+	page,
+}) => {
+	const todo = await createTodo();
+
+	await page.goto(`todos/${todo.props.id}/edit`);
+	// Someone else saves a change while the form is open.
+	await todo.update({ description: "Changed by someone else" });
+	await page.fill('form#edit-todo-form input[name="title"]', "My title");
+	await page.click("form#edit-todo-form #edit-todo-form-submit-button");
+
+	expect(await page.innerText("#conflict h2")).toMatch(
+		"Someone else changed this todo while you were editing it.",
+	);
+	expect(await page.innerText('#conflict tr[field="description"]')).toMatch(
+		"Changed by someone else",
+	);
+	expect(
+		await page.inputValue('form#edit-todo-form input[name="title"]'),
+	).toBe("My title");
+
+	// Saving the merged form again goes through.
+	await page.fill(
+		'form#edit-todo-form textarea[name="description"]',
+		"Changed by someone else",
+	);
+	await page.click("form#edit-todo-form #edit-todo-form-submit-button");
+
+	expect(await page?.url()).toBe(getPath(`todos/${todo.props.id}`));
+	expect(await page.innerText("#title")).toBe("My title");
+	expect(await page.innerText("#description")).toBe("Changed by someone else");
+});
+
 test("Todo deleted successfully.", async ({ page }) => {
 	const todo = await createTodo();
 
@@ -269,128 +313,131 @@ test("SubTodo completed successfully.", async ({ page }) => {
 	expect(statusElement).not.toBeNull();
 });
 
-// Uncomment the following tests if you've implemented the due date functionality.
-
-// test("Todo is created with the correct due date using form.", async ({
-// 	page,
-// }) => {
-// 	const title = "Test Todo";
-// 	const description = "This is a test todo";
-// 	const dueAt = createUTCDate(
-// 		new Date(new Date().setDate(new Date().getDate() + 7)),
-// 	);
-// 	const year = dueAt.getFullYear();
-// 	const month = (dueAt.getMonth() + 1).toString().padStart(2, "0");
-// 	const day = dueAt.getDate().toString().padStart(2, "0");
-
-// 	await page.goto("/todos/new");
-
-// 	await page.fill('form#new-todo-form input[name="title"]', title);
-// 	await page.fill(
-// 		'form#new-todo-form textarea[name="description"]',
-// 		description,
-// 	);
-// 	await page.fill(
-// 		'form#new-todo-form input[name="date"]',
-// 		`${year}-${month}-${day}`,
-// 	);
-// 	await page.click("form#new-todo-form button");
-
-// 	const todo = await Todo.read(sql, 1);
-
-// 	expect(todo?.props.dueAt!.getUTCDate()).toBe(dueAt.getUTCDate());
-// });
+test("Todo is created with the correct due date using form.", async ({
+	page,
+}) => {
+	const title = "Test Todo";
+	const description = "This is a test todo";
+	const dueAt = createUTCDate(
+		new Date(new Date().setDate(new Date().getDate() + 7)),
+	);
+	const year = dueAt.getFullYear();
+	const month = (dueAt.getMonth() + 1).toString().padStart(2, "0");
+	const day = dueAt.getDate().toString().padStart(2, "0");
 
-// test("Due date is edited successfully.", async ({ page }) => {
-// 	const todo = await createTodo();
+	await page.goto("/todos/new");
 
-// 	const dueAt = createUTCDate(
-// 		new Date(new Date().setDate(new Date().getDate() + 7)),
-// 	);
-// 	const year = dueAt.getFullYear();
-// 	const month = (dueAt.getMonth() + 1).toString().padStart(2, "0");
-// 	const day = dueAt.getDate().toString().padStart(2, "0");
+	await page.fill('form#new-todo-form input[name="title"]', title);
+	await page.fill(
+		'form#new-todo-form textarea[name="description"]',
+		description,
+	);
+	await page.fill(
+		'form#new-todo-form input[name="dueAt"]',
+		`${year}-${month}-${day}`,
+	);
+	await page.click("form#new-todo-form button");
 
-// 	await page.goto(`todos/${todo.props.id}/edit`);
+	const todo = await Todo.read(sql, 1);
 
-// 	await page.fill(
-// 		'form#edit-todo-form input[name="date"]',
-// 		`${year}-${month}-${day}`,
-// 	);
-// 	await page.click("form#edit-todo-form button");
+	// The browser runs in the same time zone as the tests, and tells the server about it.
+	expect(formatDateToISO(todo!.props.dueAt!, DEFAULT_TIME_ZONE)).toBe(
+		`${year}-${month}-${day}`,
+	);
+});
 
-// 	const updatedTodo = await Todo.read(sql, todo.props.id!);
+test("Due date is edited successfully.", async ({ page }) => {
+	const todo = await createTodo();
 
-// 	expect(updatedTodo?.props.dueAt!.getUTCDate()).toBe(dueAt.getUTCDate());
-// });
+	const dueAt = createUTCDate(
+		new Date(new Date().setDate(new Date().getDate() + 7)),
+	);
+	const year = dueAt.getFullYear();
+	const month = (dueAt.getMonth() + 1).toString().padStart(2, "0");
+	const day = dueAt.getDate().toString().padStart(2, "0");
 
-// test("Due day is displayed correctly in the future.", async ({ page }) => {
-// 	const todo = await createTodo({
-// 		dueAt: createUTCDate(
-// 			new Date(new Date().setDate(new Date().getDate() + 3)),
-// 		),
-// 	});
+	await page.goto(`todos/${todo.props.id}/edit`);
 
-// 	await page.goto(`todos/${todo.props.id}`);
+	await page.fill(
+		'form#edit-todo-form input[name="dueAt"]',
+		`${year}-${month}-${day}`,
+	);
+	await page.click("form#edit-todo-form button");
 
-// 	const dueAtElement = await page.$("#due-at");
+	const updatedTodo = await Todo.read(sql, todo.props.id!);
 
-// 	expect(await dueAtElement?.innerText()).toMatch("Due 3 days from now");
-// });
+	expect(formatDateToISO(updatedTodo!.props.dueAt!, DEFAULT_TIME_ZONE)).toBe(
+		`${year}-${month}-${day}`,
+	);
+});
 
-// test("Due day is displayed correctly in the past.", async ({ page }) => {
-// 	const todo = await createTodo({
-// 		dueAt: createUTCDate(
-// 			new Date(new Date().setDate(new Date().getDate() - 3)),
-// 		),
-// 	});
+test("Due day is displayed correctly in the future.", async ({ page }) => {
+	const todo = await createTodo({
+		dueAt: createUTCDate(
+			new Date(new Date().setDate(new Date().getDate() + 3)),
+		),
+	});
 
-// 	await page.goto(`todos/${todo.props.id}`);
+	await page.goto(`todos/${todo.props.id}`);
 
-// 	const dueAtElement = await page.$("#due-at");
+	const dueAtElement = await page.$("#due-at");
 
-// 	expect(await dueAtElement?.innerText()).toMatch("Due 3 days ago");
-// });
+	expect(await dueAtElement?.innerText()).toMatch("Due 3 days from now");
+});
 
-// test("Due day is displayed correctly yesterday.", async ({ page }) => {
-// 	const todo = await createTodo({
-// 		dueAt: createUTCDate(
-// 			new Date(new Date().setDate(new Date().getDate() - 1)),
-// 		),
-// 	});
+test("Due day is displayed correctly in the past.", async ({ page }) => {
+	const todo = await createTodo({
+		dueAt: createUTCDate(
+			new Date(new Date().setDate(new Date().getDate() - 3)),
+		),
+	});
 
-// 	await page.goto(`todos/${todo.props.id}`);
+	await page.goto(`todos/${todo.props.id}`);
 
-// 	const dueAtElement = await page.$("#due-at");
+	const dueAtElement = await page.$("#due-at");
 
-// 	expect(await dueAtElement?.innerText()).toMatch("Due yesterday");
-// });
+	expect(await dueAtElement?.innerText()).toMatch("Due 3 days ago");
+});
 
-// test("Due day is displayed correctly tomorrow.", async ({ page }) => {
-// 	const todo = await createTodo({
-// 		dueAt: createUTCDate(
-// 			new Date(new Date().setDate(new Date().getDate() + 1)),
-// 		),
-// 	});
+test("Due day is displayed correctly yesterday.", async ({ page }) => {
+	const todo = await createTodo({
+		dueAt: createUTCDate(
+			new Date(new Date().setDate(new Date().getDate() - 1)),
+		),
+	});
 
-// 	await page.goto(`todos/${todo.props.id}`);
+	await page.goto(`todos/${todo.props.id}`);
 
-// 	const dueAtElement = await page.$("#due-at");
+	const dueAtElement = await page.$("#due-at");
 
-// 	expect(await dueAtElement?.innerText()).toMatch("Due tomorrow");
-// });
+	expect(await dueAtElement?.innerText()).toMatch("Due yesterday");
+});
 
-// test("Due day is displayed correctly today.", async ({ page }) => {
-// 	const todo = await createTodo({
-// 		dueAt: createUTCDate(),
-// 	});
+test("Due day is displayed correctly tomorrow.", async ({ page }) => {
+	const todo = await createTodo({
+		dueAt: createUTCDate(
+			new Date(new Date().setDate(new Date().getDate() + 1)),
+		),
+	});
 
-// 	await page.goto(`todos/${todo.props.id}`);
+	await page.goto(`todos/${todo.props.id}`);
 
-// 	const dueAtElement = await page.$("#due-at");
+	const dueAtElement = await page.$("#due-at");
 
-// 	expect(await dueAtElement?.innerText()).toMatch("Due today");
-// });
+	expect(await dueAtElement?.innerText()).toMatch("Due tomorrow");
+});
+
+test("Due day is displayed correctly today.", async ({ page }) => {
+	const todo = await createTodo({
+		dueAt: createUTCDate(),
+	});
+
+	await page.goto(`todos/${todo.props.id}`);
+
+	const dueAtElement = await page.$("#due-at");
+
+	expect(await dueAtElement?.innerText()).toMatch("Due today");
+});
 
 // Uncomment the following tests if you've implemented the sorting and filtering functionality.
 
@@ -1,14 +1,20 @@
-import http, { IncomingMessage } from "http";
+import http, {
+	IncomingHttpHeaders,
+	IncomingMessage,
+	OutgoingHttpHeaders,
+} from "http";
 
 export interface HttpResponse {
 	statusCode: number | undefined;
 	body: any;
+	headers?: IncomingHttpHeaders;
 }
 
 export const makeHttpRequest = async (
 	method: string,
 	path: string,
 	data = {},
+	headers: OutgoingHttpHeaders = {},
 ): Promise<HttpResponse> => {
 	const options = {
 		host: "localhost",
@@ -18,6 +24,7 @@ export const makeHttpRequest = async (
 		headers: {
 			"Content-Type": "application/json",
 			"Content-Length": Buffer.byteLength(JSON.stringify(data)),
+			...headers,
 		},
 	};
 
@@ -30,7 +37,9 @@ export const makeHttpRequest = async (
 			response.on("end", () =>
 				resolve({
 					statusCode: response.statusCode,
-					body: JSON.parse(body),
+					// 304 Not Modified has no body.
+					body: body ? JSON.parse(body) : undefined,
+					headers: response.headers,
 				}),
 			);
 		});
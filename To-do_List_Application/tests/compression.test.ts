@@ -0,0 +1,162 @@
+import { IncomingMessage, ServerResponse } from "http";
+import zlib from "zlib";
+import Request from "../src/router/Request";
+import Response, { ContentType, StatusCode } from "../src/router/Response";
+import { NotFoundError } from "../src/errors";
+import {
+	COMPRESSION_THRESHOLD,
+	isCompressible,
+	negotiateEncoding,
+	withEncoding,
+} from "../src/compression";
+import { test, describe, expect, vi } from "vitest";
+
+/**
+ * Builds a Response to a request with the given Accept-Encoding header,
+ * whose ServerResponse only records what would have been sent.
+ */
+const makeResponse = (acceptEncoding?: string, method = "GET") => {
+	const req = new Request({
+		method,
+		url: "/todos",
+		headers: {
+			host: "localhost",
+			...(acceptEncoding === undefined
+				? {}
+				: { "accept-encoding": acceptEncoding }),
+		},
+	} as IncomingMessage);
+	const res = {
+		headersSent: false,
+		writeHead: vi.fn(),
+		end: vi.fn(),
+	};
+
+	return {
+		response: new Response(req, res as unknown as ServerResponse),
+		res,
+	};
+};
+
+describe("Compression", () => {
+	test("Encoding was picked by the client's preference and then ours.", () => {
+		expect(negotiateEncoding("gzip, deflate, br")).toBe("br");
+		expect(negotiateEncoding("gzip;q=1, br;q=0.5")).toBe("gzip");
+		expect(negotiateEncoding("br;q=0, *")).toBe("gzip");
+		expect(negotiateEncoding("deflate")).toBe("deflate");
+		expect(negotiateEncoding("identity")).toBeNull();
+		expect(negotiateEncoding("*;q=0")).toBeNull();
+		expect(negotiateEncoding("")).toBeNull();
+		expect(negotiateEncoding(undefined)).toBeNull();
+		// Only from the codings there are.
+		expect(negotiateEncoding("br, gzip", ["gzip"])).toBe("gzip");
+		expect(negotiateEncoding("deflate", ["br", "gzip"])).toBeNull();
+	});
+
+	test("Only text was worth compressing.", () => {
+		expect(isCompressible("text/html")).toBe(true);
+		expect(isCompressible("application/json")).toBe(true);
+		expect(isCompressible("text/css; charset=utf-8")).toBe(true);
+		expect(isCompressible("image/svg+xml")).toBe(true);
+		expect(isCompressible("image/png")).toBe(false);
+		expect(isCompressible("font/woff2")).toBe(false);
+	});
+
+	test("Strong ETag was told apart by its encoding.", () => {
+		expect(withEncoding('"3-abc"', "gzip")).toBe('"3-abc-gzip"');
+		expect(withEncoding('"3-abc"', null)).toBe('"3-abc"');
+		expect(withEncoding('W/"abc"', "br")).toBe('W/"abc"');
+	});
+
+	test("Big JSON body was sent compressed.", async () => {
+		const payload = { todos: Array(100).fill({ title: "Groceries" }) };
+		const { response, res } = makeResponse("gzip");
+
+		await response.send({
+			statusCode: StatusCode.OK,
+			message: "Todo list retrieved",
+			payload,
+		});
+
+		const [statusCode, headers] = res.writeHead.mock.calls[0];
+		const [body] = res.end.mock.calls[0];
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(headers["Content-Encoding"]).toBe("gzip");
+		expect(headers.Vary).toContain("Accept-Encoding");
+		expect(JSON.parse(zlib.gunzipSync(body).toString()).payload).toEqual(
+			payload,
+		);
+	});
+
+	test("Small body, or one for a client that can't decompress it, was not.", async () => {
+		const small = makeResponse("gzip, br");
+
+		await small.response.send({
+			statusCode: StatusCode.OK,
+			message: "Todo retrieved",
+			payload: { title: "Groceries" },
+		});
+
+		expect(small.res.writeHead.mock.calls[0][1]["Content-Encoding"]).toBe(
+			undefined,
+		);
+		expect(small.res.end.mock.calls[0][0].length).toBeLessThan(
+			COMPRESSION_THRESHOLD,
+		);
+
+		const identity = makeResponse();
+
+		await identity.response.send({
+			statusCode: StatusCode.OK,
+			message: "Todo list retrieved",
+			payload: { todos: Array(100).fill({ title: "Groceries" }) },
+		});
+
+		expect(
+			identity.res.writeHead.mock.calls[0][1]["Content-Encoding"],
+		).toBeUndefined();
+		expect(typeof identity.res.end.mock.calls[0][0]).toBe("string");
+	});
+
+	test("Compressed body that can't be cached still varied by encoding.", async () => {
+		const { response, res } = makeResponse("gzip", "POST");
+
+		await response.send({
+			statusCode: StatusCode.Created,
+			message: "Todo created successfully!",
+			payload: { todos: Array(100).fill({ title: "Groceries" }) },
+		});
+
+		const [statusCode, headers] = res.writeHead.mock.calls[0];
+
+		expect(statusCode).toBe(StatusCode.Created);
+		expect(headers["Cache-Control"]).toBe("no-store");
+		expect(headers["Content-Encoding"]).toBe("gzip");
+		expect(headers.Vary).toBe("Accept-Encoding");
+	});
+});
+
+describe("Error responses", () => {
+	test.each([ContentType.HTML, ContentType.JSON])(
+		"Error sent as %s wasn't to be cached.",
+		async (accept) => {
+			const req = new Request({
+				method: "GET",
+				url: "/tods",
+				headers: { host: "localhost", accept },
+			} as IncomingMessage);
+			const res = { writeHead: vi.fn(), end: vi.fn() };
+
+			await new Response(req, res as unknown as ServerResponse).sendError(
+				new NotFoundError("Not found"),
+			);
+
+			const [statusCode, headers] = res.writeHead.mock.calls[0];
+
+			expect(statusCode).toBe(StatusCode.NotFound);
+			expect(headers["Content-Type"]).toBe(accept);
+			expect(headers["Cache-Control"]).toBe("no-store");
+		},
+	);
+});
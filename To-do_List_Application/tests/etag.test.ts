@@ -0,0 +1,110 @@
+import { IncomingMessage } from "http";
+import Request from "../src/router/Request";
+import {
+	checkVersion,
+	getIfMatch,
+	isFresh,
+	toETag,
+	toWeakETag,
+} from "../src/etag";
+import { PreconditionFailedError } from "../src/errors";
+import { test, describe, expect } from "vitest";
+
+/**
+ * Builds a PUT Request with the given If-Match header and body, without a real socket.
+ */
+const makeRequest = (ifMatch?: string, body: Record<string, any> = {}) => {
+	const req = new Request({
+		method: "PUT",
+		url: "/todos/1",
+		headers: {
+			host: "localhost",
+			...(ifMatch === undefined ? {} : { "if-match": ifMatch }),
+		},
+	} as IncomingMessage);
+
+	req.body = body;
+	return req;
+};
+
+describe("ETags", () => {
+	test("If-Match was read as the versions it names.", () => {
+		expect(getIfMatch(makeRequest(`"3"`))).toEqual([3]);
+		expect(getIfMatch(makeRequest(`"3", "4"`))).toEqual([3, 4]);
+		// Only the version before the hash of the page has to match.
+		expect(getIfMatch(makeRequest(toETag(3, "{}")))).toEqual([3]);
+		// A weak ETag never matches, so nothing does.
+		expect(getIfMatch(makeRequest(`W/"3"`))).toEqual([]);
+		expect(getIfMatch(makeRequest("*"))).toBeUndefined();
+		expect(getIfMatch(makeRequest())).toBeUndefined();
+	});
+
+	test("Version from a form stood in for If-Match.", () => {
+		expect(getIfMatch(makeRequest(undefined, { version: 2 }))).toEqual([2]);
+		expect(getIfMatch(makeRequest(undefined, { version: "" }))).toBeUndefined();
+		// The header wins over the form.
+		expect(getIfMatch(makeRequest(`"5"`, { version: 2 }))).toEqual([5]);
+	});
+
+	test("Change to another version than the one read was refused.", () => {
+		expect(() => checkVersion(3, undefined, "Changed")).not.toThrow();
+		expect(() => checkVersion(3, [2, 3], "Changed")).not.toThrow();
+
+		try {
+			checkVersion(4, [3], "Changed");
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(PreconditionFailedError);
+			expect((error as PreconditionFailedError).statusCode).toBe(412);
+			// The client is told which version to read again.
+			expect((error as PreconditionFailedError).headers).toEqual({
+				ETag: toETag(4),
+			});
+		}
+	});
+
+	test("ETag changed with the body as well as the version.", () => {
+		expect(toETag(3)).toBe(`"3"`);
+		expect(toETag(3, "{}")).toMatch(/^"3-[\w-]{16}"$/);
+		expect(toETag(3, "{}")).toBe(toETag(3, "{}"));
+		expect(toETag(3, "{}")).not.toBe(toETag(3, "[]"));
+		expect(toWeakETag("{}")).toBe(`W/${toETag(3, "{}").replace("3-", "")}`);
+	});
+
+	test("Client's copy was fresh when its ETag or date still matched.", () => {
+		const etag = toETag(3, "{}");
+		const lastModified = new Date("2024-04-01T09:00:00.500Z");
+
+		expect(isFresh({}, etag, lastModified)).toBe(false);
+		expect(isFresh({ "if-none-match": etag }, etag)).toBe(true);
+		// If-None-Match compares weakly.
+		expect(isFresh({ "if-none-match": `"1", W/${etag}` }, etag)).toBe(true);
+		expect(isFresh({ "if-none-match": "*" }, etag)).toBe(true);
+		expect(isFresh({ "if-none-match": toETag(4, "{}") }, etag)).toBe(false);
+
+		const since = lastModified.toUTCString();
+
+		// The date is sent without the milliseconds.
+		expect(isFresh({ "if-modified-since": since }, etag, lastModified)).toBe(
+			true,
+		);
+		expect(
+			isFresh(
+				{ "if-modified-since": new Date("2024-03-31").toUTCString() },
+				etag,
+				lastModified,
+			),
+		).toBe(false);
+		expect(
+			isFresh({ "if-modified-since": "yesterday" }, etag, lastModified),
+		).toBe(false);
+		// If-None-Match wins over If-Modified-Since.
+		expect(
+			isFresh(
+				{ "if-none-match": `"1"`, "if-modified-since": since },
+				etag,
+				lastModified,
+			),
+		).toBe(false);
+	});
+});
@@ -0,0 +1,73 @@
+import {
+	describeChange,
+	describeHistoryAction,
+	getChanges,
+	todoHistoryFields,
+} from "../src/history";
+import { test, describe, expect } from "vitest";
+
+describe("History", () => {
+	test("Only the fields that changed were kept.", () => {
+		const before = {
+			title: "Buy milk",
+			status: "incomplete",
+			dueAt: new Date("2024-04-01T09:00:00.000Z"),
+			editedAt: new Date("2024-03-01T09:00:00.000Z"),
+		};
+		const after = {
+			...before,
+			title: "Buy oat milk",
+			dueAt: new Date("2024-04-02T09:00:00.000Z"),
+			editedAt: new Date("2024-03-02T09:00:00.000Z"),
+			recurrence: null,
+		};
+
+		expect(getChanges(before, after, todoHistoryFields)).toEqual({
+			title: { from: "Buy milk", to: "Buy oat milk" },
+			dueAt: {
+				from: "2024-04-01T09:00:00.000Z",
+				to: "2024-04-02T09:00:00.000Z",
+			},
+		});
+		// The same date read twice is not a change.
+		expect(
+			getChanges(
+				{ dueAt: new Date("2024-04-01T09:00:00.000Z") },
+				{ dueAt: new Date("2024-04-01T09:00:00.000Z") },
+				["dueAt"],
+			),
+		).toEqual({});
+		expect(
+			getChanges({}, { title: "New", priority: undefined }, todoHistoryFields),
+		).toEqual({ title: { from: null, to: "New" } });
+	});
+
+	test("Changes were described.", () => {
+		expect(
+			describeChange("status", { from: "incomplete", to: "complete" }),
+		).toBe("Status: incomplete → complete");
+		expect(
+			describeChange(
+				"dueAt",
+				{ from: null, to: "2024-04-01T09:00:00.000Z" },
+				"en",
+				"UTC",
+			),
+		).toBe("Due date: none → Apr 1, 2024, 9:00 AM");
+		expect(
+			describeChange("status", { from: "incomplete", to: "complete" }, "fr"),
+		).toBe("Statut : à faire → terminée");
+		expect(describeHistoryAction({ action: "update" })).toBe("Edited");
+		expect(
+			describeHistoryAction({
+				action: "complete",
+				subTodoId: 2,
+				subTodoTitle: "Buy eggs",
+			}),
+		).toBe("Completed subtodo Buy eggs");
+		// A subtodo that no longer exists is called by its ID.
+		expect(describeHistoryAction({ action: "delete", subTodoId: 2 })).toBe(
+			"Deleted subtodo #2",
+		);
+	});
+});
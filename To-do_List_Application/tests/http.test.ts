@@ -6,6 +6,9 @@ import { StatusCode } from "../src/router/Response";
 import { HttpResponse, makeHttpRequest } from "./client";
 import { test, describe, expect, afterEach, afterAll, beforeAll } from "vitest";
 import { createUTCDate } from "../src/utils";
+import Tag from "../src/models/Tag";
+import Project from "../src/models/Project";
+import HistoryEntry from "../src/models/HistoryEntry";
 
 describe("Todo HTTP operations", () => {
 	const sql = postgres({
@@ -43,6 +46,10 @@ describe("Todo HTTP operations", () => {
 			createdAt: props.createdAt || createUTCDate(),
 		};
 
+		if (props.priority) {
+			todoProps.priority = props.priority;
+		}
+
 		return await Todo.create(sql, todoProps);
 	};
 
@@ -56,7 +63,14 @@ describe("Todo HTTP operations", () => {
 	 * @see https://www.postgresql.org/docs/13/sql-altersequence.html
 	 */
 	afterEach(async () => {
-		const tables = ["todos", "subtodos"];
+		const tables = [
+			"todos",
+			"subtodos",
+			"tags",
+			"projects",
+			"reminder_events",
+			"todo_history",
+		];
 
 		try {
 			for (const table of tables) {
@@ -146,11 +160,13 @@ describe("Todo HTTP operations", () => {
 
 		expect(statusCode).toBe(StatusCode.BadRequest);
 		expect(Object.keys(body).includes("message")).toBe(true);
-		expect(Object.keys(body).includes("payload")).toBe(true);
+		expect(Object.keys(body).includes("details")).toBe(true);
+		expect(body.code).toBe("VALIDATION_FAILED");
 		expect(body.message).toBe(
 			"Request body must include title and description.",
 		);
-		expect(body.payload.todo).toBeUndefined();
+		expect(body.details.title).toBe("Title is required.");
+		expect(body.payload).toBeUndefined();
 	});
 
 	test("Todo was retrieved.", async () => {
@@ -173,251 +189,1289 @@ describe("Todo HTTP operations", () => {
 		expect(body.payload.todo.completedAt).toBeNull();
 	});
 
-	test("Todo was not retrieved due to invalid ID.", async () => {
+	test("Todo was not retrieved due to invalid ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos/abc",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Invalid ID");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todo was not retrieved due to non-existent ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos/1",
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+		expect(body.message).toBe("Not found");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todo was updated.", async () => {
+		const todo = await createTodo();
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}`,
+			{
+				title: "Updated Test Todo",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo updated successfully!");
+		expect(body.payload.todo.title).toBe("Updated Test Todo");
+		expect(body.payload.todo.description).toBe(todo.props.description);
+		expect(body.payload.todo.status).toBe(todo.props.status);
+		expect(body.payload.todo.createdAt).toBe(
+			todo.props.createdAt.toISOString(),
+		);
+		expect(body.payload.todo.dueAt).toBe(todo.props.dueAt?.toISOString());
+		expect(body.payload.todo.editedAt).not.toBeNull();
+		expect(body.payload.todo.completedAt).toBeNull();
+	});
+
+	test("Due date and priority left out of a replaced todo were reset.", async () => {
+		const todo = await createTodo({ priority: "urgent" });
+
+		expect(todo.props.dueAt).toBeInstanceOf(Date);
+
+		await makeHttpRequest("PUT", `/todos/${todo.props.id}`, {
+			title: "Updated Test Todo",
+			description: "No longer due",
+			dueAt: "",
+		});
+
+		const updated = await Todo.read(sql, todo.props.id!);
+
+		expect(updated?.props.description).toBe("No longer due");
+		expect(updated?.props.dueAt).toBeNull();
+		expect(updated?.props.priority).toBe("medium");
+	});
+
+	test("Todo was not updated due to invalid ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			"/todos/abc",
+			{
+				title: "Updated Test Todo",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Invalid ID");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todo was not updated due to non-existent ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			"/todos/1",
+			{
+				title: "Updated Test Todo",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+		expect(body.message).toBe("Not found");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todo was partially updated.", async () => {
+		const todo = await createTodo();
+		const dueAt = createUTCDate(
+			new Date(new Date().setDate(new Date().getDate() + 14)),
+		);
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}`,
+			{
+				dueAt,
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo updated successfully!");
+		expect(body.payload.todo.title).toBe(todo.props.title);
+		expect(body.payload.todo.description).toBe(todo.props.description);
+		expect(body.payload.todo.dueAt).toBe(dueAt.toISOString());
+		expect(body.payload.todo.editedAt).not.toBeNull();
+	});
+
+	test("Todo fields sent as null were cleared by a partial update.", async () => {
+		const todo = await createTodo();
+		const project = await Project.create(sql, {
+			name: "Ops",
+			createdAt: createUTCDate(),
+		});
+
+		await makeHttpRequest("PATCH", `/todos/${todo.props.id}`, {
+			projectId: project.props.id,
+			repeat: "daily",
+		});
+
+		let { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}`,
+			{ dueAt: null },
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todo.dueAt).toBeNull();
+		expect(body.payload.todo.projectId).toBe(project.props.id);
+
+		({ statusCode, body } = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}`,
+			{ title: "Kept", projectId: null, repeat: null },
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todo.title).toBe("Kept");
+		expect(body.payload.todo.projectId).toBeNull();
+		expect(body.payload.todo.recurrence).toBeNull();
+	});
+
+	test("Todo was not partially updated due to invalid field.", async () => {
+		const todo = await createTodo();
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}`,
+			{
+				title: "",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Title is required.");
+		expect(body.details.title).toBe("Title is required.");
+	});
+
+	test("Todo was not partially updated due to non-existent ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PATCH",
+			"/todos/1",
+			{
+				title: "Updated Test Todo",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+		expect(body.message).toBe("Not found");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todo was deleted.", async () => {
+		const todo = await createTodo();
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"DELETE",
+			`/todos/${todo.props.id}`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo deleted successfully!");
+	});
+
+	test("Todo was not deleted due to invalid ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"DELETE",
+			"/todos/abc",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Invalid ID");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todo was not deleted due to non-existent ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"DELETE",
+			"/todos/1",
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+		expect(body.message).toBe("Not found");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Deleted todo was listed in the trash and restored.", async () => {
+		const todo = await createTodo();
+
+		await makeHttpRequest("DELETE", `/todos/${todo.props.id}`);
+
+		let { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}`,
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+
+		({ statusCode, body } = await makeHttpRequest("GET", "/trash"));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todos.map((todo: TodoProps) => todo.id)).toEqual([
+			todo.props.id,
+		]);
+
+		({ statusCode, body } = await makeHttpRequest(
+			"POST",
+			`/todos/${todo.props.id}/restore`,
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo restored successfully!");
+		expect(body.payload.todo.deletedAt).toBeNull();
+
+		({ statusCode } = await makeHttpRequest("GET", `/todos/${todo.props.id}`));
+
+		expect(statusCode).toBe(StatusCode.OK);
+	});
+
+	test("Todo that wasn't in the trash was not restored.", async () => {
+		const todo = await createTodo();
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			`/todos/${todo.props.id}/restore`,
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+		expect(body.message).toBe("Todo not found in the trash");
+	});
+
+	test("Todo was only changed at the version its ETag named.", async () => {
+		const todo = await createTodo();
+		let { statusCode, body, headers }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}`,
+		);
+		const etag = headers!.etag;
+
+		// The version, then a hash of the page, which also shows its subtodos.
+		expect(etag).toMatch(/^"1-[\w-]+"$/);
+
+		({ statusCode, body, headers } = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}`,
+			{ title: "First" },
+			{ "If-Match": etag },
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(headers!.etag).toMatch(/^"2-/);
+		expect(body.payload.todo.version).toBe(2);
+
+		// The same ETag is now out of date.
+		({ statusCode, body, headers } = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}`,
+			{ title: "Second" },
+			{ "If-Match": etag },
+		));
+
+		expect(statusCode).toBe(StatusCode.PreconditionFailed);
+		expect(body.code).toBe("PRECONDITION_FAILED");
+		expect(headers!.etag).toBe('"2"');
+		expect((await Todo.read(sql, todo.props.id!))?.props.title).toBe(
+			"First",
+		);
+
+		({ statusCode } = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}`,
+			{ title: "Second", description: "Replaced" },
+			{ "If-Match": etag },
+		));
+
+		expect(statusCode).toBe(StatusCode.PreconditionFailed);
+
+		({ statusCode } = await makeHttpRequest(
+			"DELETE",
+			`/todos/${todo.props.id}`,
+			{},
+			{ "If-Match": etag },
+		));
+
+		expect(statusCode).toBe(StatusCode.PreconditionFailed);
+
+		({ body } = await makeHttpRequest(
+			"DELETE",
+			`/todos/${todo.props.id}`,
+			{},
+			{ "If-Match": '"2"' },
+		));
+
+		expect(body.message).toBe("Todo deleted successfully!");
+	});
+
+	test("SubTodo was only changed at the version its ETag named.", async () => {
+		const todo = await createTodo();
+		const subTodo = await todo.addSubTodo({
+			title: "SubTodo",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id!,
+		});
+		const path = `/todos/${todo.props.id}/subtodos/${subTodo.props.id}`;
+
+		let { statusCode, headers }: HttpResponse = await makeHttpRequest(
+			"GET",
+			path,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(headers!.etag).toMatch(/^"1-/);
+
+		({ statusCode, headers } = await makeHttpRequest(
+			"PATCH",
+			path,
+			{ title: "Renamed" },
+			{ "If-Match": headers!.etag },
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(headers!.etag).toMatch(/^"2-/);
+
+		({ statusCode } = await makeHttpRequest("DELETE", path, {}, {
+			"If-Match": '"1"',
+		}));
+
+		expect(statusCode).toBe(StatusCode.PreconditionFailed);
+	});
+
+	test("Todo was not completed or moved at an out of date version.", async () => {
+		const todo = await createTodo();
+		const subTodo = await todo.addSubTodo({
+			title: "SubTodo",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id!,
+		});
+
+		await makeHttpRequest("PATCH", `/todos/${todo.props.id}`, {
+			title: "Changed",
+		});
+		await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}/subtodos/${subTodo.props.id}`,
+			{ title: "Changed" },
+		);
+
+		let { statusCode }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}/complete`,
+			{},
+			{ "If-Match": '"1"' },
+		);
+
+		expect(statusCode).toBe(StatusCode.PreconditionFailed);
+
+		({ statusCode } = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}/project`,
+			{},
+			{ "If-Match": '"1"' },
+		));
+
+		expect(statusCode).toBe(StatusCode.PreconditionFailed);
+
+		({ statusCode } = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}/subtodos/${subTodo.props.id}/complete`,
+			{},
+			{ "If-Match": '"1"' },
+		));
+
+		expect(statusCode).toBe(StatusCode.PreconditionFailed);
+
+		const [saved] = await sql`
+			SELECT status, version FROM todos WHERE id = ${todo.props.id!}
+		`;
+		const [savedSubTodo] = await sql`
+			SELECT status FROM subtodos WHERE id = ${subTodo.props.id!}
+		`;
+
+		expect(saved).toEqual({ status: "incomplete", version: 2 });
+		expect(savedSubTodo.status).toBe("incomplete");
+
+		({ statusCode } = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}/complete`,
+			{},
+			{ "If-Match": '"2"' },
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+	});
+
+	test("Todo the client already had was not sent again.", async () => {
+		const todo = await createTodo();
+		let { statusCode, body, headers }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}`,
+		);
+		const etag = headers!.etag!;
+		const lastModified = headers!["last-modified"]!;
+
+		expect(headers!["cache-control"]).toBe("private, no-cache");
+		expect(Date.parse(lastModified)).toBeGreaterThanOrEqual(
+			Math.floor(todo.props.createdAt.getTime() / 1000) * 1000,
+		);
+
+		({ statusCode, body } = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}`,
+			{},
+			{ "If-None-Match": `W/${etag}` },
+		));
+
+		expect(statusCode).toBe(StatusCode.NotModified);
+		expect(body).toBeUndefined();
+
+		({ statusCode } = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}`,
+			{},
+			{ "If-Modified-Since": lastModified },
+		));
+
+		expect(statusCode).toBe(StatusCode.NotModified);
+
+		// HEAD gets the same headers as GET, only without the body.
+		({ statusCode, body, headers } = await makeHttpRequest(
+			"HEAD",
+			`/todos/${todo.props.id}`,
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body).toBeUndefined();
+		expect(headers!.etag).toBe(etag);
+		expect(headers!["cache-control"]).toBe("private, no-cache");
+		expect(headers!["last-modified"]).toBe(lastModified);
+		expect(headers!.vary).toContain("Accept-Encoding");
+
+		({ statusCode } = await makeHttpRequest(
+			"HEAD",
+			`/todos/${todo.props.id}`,
+			{},
+			{ "If-None-Match": etag },
+		));
+
+		expect(statusCode).toBe(StatusCode.NotModified);
+
+		await makeHttpRequest("PATCH", `/todos/${todo.props.id}`, {
+			title: "Changed",
+		});
+
+		({ statusCode, body } = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}`,
+			{},
+			{ "If-None-Match": etag },
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todo.title).toBe("Changed");
+	});
+
+	test("Todo history was retrieved.", async () => {
+		const todo = await createTodo({ title: "Before" });
+
+		await makeHttpRequest("PATCH", `/todos/${todo.props.id}`, {
+			title: "After",
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}/history`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo history retrieved");
+		expect(body.payload.history.map((entry: any) => entry.action)).toEqual([
+			"update",
+			"create",
+		]);
+		expect(body.payload.history[0].changes).toEqual({
+			title: { from: "Before", to: "After" },
+		});
+	});
+
+	test("Tags changed on their own were kept in the history.", async () => {
+		const todo = await createTodo();
+
+		await makeHttpRequest("PATCH", `/todos/${todo.props.id}`, {
+			tags: "work, errands",
+		});
+
+		const { body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}/history`,
+		);
+
+		expect(body.payload.history.map((entry: any) => entry.action)).toEqual([
+			"update",
+			"create",
+		]);
+		expect(body.payload.history[0].changes).toEqual({
+			tags: { from: null, to: "errands, work" },
+		});
+	});
+
+	test("Todo history was not retrieved due to non-existent ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos/1/history",
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+		expect(body.message).toBe("Not found");
+	});
+
+	test("Todo was marked as complete.", async () => {
+		const todo = await createTodo();
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}/complete`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo marked as complete!");
+		expect(body.payload.todo.status).toBe("complete");
+		expect(body.payload.todo.completedAt).not.toBeNull();
+		expect(body.payload.todo.editedAt).not.toBe(todo.props.editedAt);
+	});
+
+	test("Recurring todo spawned its next occurrence when completed.", async () => {
+		const todo = await createTodo({
+			dueAt: new Date("2024-04-01T09:00:00.000Z"),
+		});
+		await todo.update({
+			recurrence: { frequency: "weekly", interval: 1, count: 2 },
+		});
+		await Tag.setForTodo(sql, todo.props.id!, ["reports"]);
+		await todo.addSubTodo({
+			title: "Collect numbers",
+			status: "complete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id!,
+		});
+
+		let { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}/complete`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+
+		const nextTodo = await Todo.read(sql, body.payload.nextTodo.id);
+
+		expect(nextTodo?.props.status).toBe("incomplete");
+		expect(nextTodo?.props.dueAt).toEqual(
+			new Date("2024-04-08T09:00:00.000Z"),
+		);
+		expect(nextTodo?.props.recurrence).toEqual({
+			frequency: "weekly",
+			interval: 1,
+			count: 1,
+		});
+		expect(nextTodo?.props.tags?.map((tag) => tag.name)).toEqual(["reports"]);
+		expect(nextTodo?.props.subTodos?.map((subTodo) => subTodo.props)).toEqual([
+			expect.objectContaining({
+				title: "Collect numbers",
+				status: "incomplete",
+			}),
+		]);
+
+		// The last occurrence doesn't spawn another one.
+		({ statusCode, body } = await makeHttpRequest(
+			"PUT",
+			`/todos/${nextTodo!.props.id}/complete`,
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.nextTodo).toBeUndefined();
+	});
+
+	test("Recurring todo completed by a partial update spawned its next occurrence.", async () => {
+		const todo = await createTodo({
+			dueAt: new Date("2024-04-01T09:00:00.000Z"),
+		});
+		await todo.update({
+			recurrence: { frequency: "daily", interval: 1 },
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}`,
+			{ status: "complete" },
+			{ "If-Match": '"2"' },
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todo.status).toBe("complete");
+		expect(body.payload.todo.version).toBe(3);
+		expect(body.payload.nextTodo.dueAt).toBe("2024-04-02T09:00:00.000Z");
+
+		const [latest] = await HistoryEntry.readByTodoId(sql, todo.props.id!);
+
+		expect(latest.props.action).toBe("complete");
+	});
+
+	test("Todo and SubTodo that were no longer complete lost their completion date.", async () => {
+		const todo = await createTodo();
+		const subTodo = await todo.addSubTodo({
+			title: "SubTodo",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id!,
+		});
+		const subTodoPath = `/todos/${todo.props.id}/subtodos/${subTodo.props.id}`;
+
+		await todo.markComplete();
+		await subTodo.markComplete();
+
+		let { body }: HttpResponse = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}`,
+			{ status: "incomplete" },
+		);
+
+		expect(body.payload.todo.status).toBe("incomplete");
+		expect(body.payload.todo.completedAt).toBeNull();
+
+		({ body } = await makeHttpRequest("PATCH", subTodoPath, {
+			status: "incomplete",
+		}));
+
+		expect(body.payload.subTodo.status).toBe("incomplete");
+		expect(body.payload.subTodo.completedAt).toBeNull();
+	});
+
+	test("Todo was not marked as complete due to invalid ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			"/todos/abc/complete",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Invalid ID");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todo was not marked as complete due to non-existent ID.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			"/todos/1/complete",
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+		expect(body.message).toBe("Not found");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todos were listed.", async () => {
+		const todo1 = await createTodo();
+		const todo2 = await createTodo();
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos",
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo list retrieved");
+		expect(body.payload.todos).toBeInstanceOf(Array);
+		expect(body.payload.todos[0].title).toBe(todo1.props.title);
+		expect(body.payload.todos[0].description).toBe(todo1.props.description);
+		expect(body.payload.todos[0].status).toBe(todo1.props.status);
+		expect(body.payload.todos[0].createdAt).toBe(
+			todo1.props.createdAt.toISOString(),
+		);
+		expect(body.payload.todos[0].dueAt).toBe(
+			todo1.props.dueAt?.toISOString(),
+		);
+		expect(body.payload.todos[0].editedAt).toBeNull();
+		expect(body.payload.todos[0].completedAt).toBeNull();
+		expect(body.payload.todos[1].title).toBe(todo2.props.title);
+		expect(body.payload.todos[1].description).toBe(todo2.props.description);
+		expect(body.payload.todos[1].status).toBe(todo2.props.status);
+		expect(body.payload.todos[1].createdAt).toBe(
+			todo2.props.createdAt.toISOString(),
+		);
+		expect(body.payload.todos[1].dueAt).toBe(
+			todo2.props.dueAt?.toISOString(),
+		);
+		expect(body.payload.todos[1].editedAt).toBeNull();
+		expect(body.payload.todos[1].completedAt).toBeNull();
+	});
+
+	test("Todos were listed by completion status.", async () => {
+		const todo1 = await createTodo();
+		await createTodo();
+		await createTodo();
+		await makeHttpRequest("PUT", `/todos/${todo1.props.id}/complete`);
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?status=complete",
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo list retrieved");
+		expect(body.payload.todos).toBeInstanceOf(Array);
+		expect(body.payload.todos).toHaveLength(1);
+		expect(body.payload.todos[0].title).toBe(todo1.props.title);
+		expect(body.payload.todos[0].description).toBe(todo1.props.description);
+		expect(body.payload.todos[0].status).toBe("complete");
+		expect(body.payload.todos[0].createdAt).toBe(
+			todo1.props.createdAt.toISOString(),
+		);
+		expect(body.payload.todos[0].dueAt).toBe(
+			todo1.props.dueAt?.toISOString(),
+		);
+		expect(body.payload.todos[0].editedAt).not.toBeNull();
+		expect(body.payload.todos[0].completedAt).not.toBeNull();
+	});
+
+	test("Todos were not listed due to invalid status.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?status=abc",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Invalid filter parameter.");
+		expect(body.payload).toBeUndefined();
+	});
+
+	test("Todos were listed by due date.", async () => {
+		const todo1 = await createTodo({
+			title: "Todo 1",
+			dueAt: createUTCDate(new Date("2021-12-31")),
+		});
+		const todo2 = await createTodo({
+			title: "Todo 2",
+			dueAt: createUTCDate(new Date("2022-02-01")),
+		});
+		const todo3 = await createTodo({
+			title: "Todo 3",
+			dueAt: createUTCDate(new Date("2022-01-12")),
+		});
+		const todo4 = await createTodo({
+			title: "Todo 4",
+			dueAt: createUTCDate(new Date("2022-01-01")),
+		});
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/todos?sortBy=dueAt`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Todo list retrieved");
+		expect(body.payload.todos).toBeInstanceOf(Array);
+		expect(body.payload.todos).toHaveLength(4);
+		expect(body.payload.todos[0].title).toBe(todo1.props.title);
+		expect(body.payload.todos[1].title).toBe(todo4.props.title);
+		expect(body.payload.todos[2].title).toBe(todo3.props.title);
+		expect(body.payload.todos[3].title).toBe(todo2.props.title);
+	});
+
+	test("Todos were listed by priority, then due date, by default.", async () => {
+		const lowTodo = await createTodo({ priority: "low" });
+		const laterUrgentTodo = await createTodo({
+			priority: "urgent",
+			dueAt: createUTCDate(new Date("2024-05-01")),
+		});
+		const soonerUrgentTodo = await createTodo({
+			priority: "urgent",
+			dueAt: createUTCDate(new Date("2024-04-01")),
+		});
+		const mediumTodo = await createTodo();
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos",
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(
+			body.payload.todos.map((todo: TodoProps) => todo.id),
+		).toEqual([
+			soonerUrgentTodo.props.id,
+			laterUrgentTodo.props.id,
+			mediumTodo.props.id,
+			lowTodo.props.id,
+		]);
+		expect(body.payload.todos[3].priority).toBe("low");
+	});
+
+	test("Todos were sorted by priority.", async () => {
+		const highTodo = await createTodo({ priority: "high" });
+		const lowTodo = await createTodo({ priority: "low" });
+
+		const { body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?sortBy=priority&orderBy=asc",
+		);
+
+		expect(body.payload.todos[0].id).toBe(lowTodo.props.id);
+		expect(body.payload.todos[1].id).toBe(highTodo.props.id);
+	});
+
+	test("Todo was not created due to invalid priority.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/todos",
+			{
+				title: "Test Todo",
+				description: "This is a test todo",
+				priority: "critical",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.details.priority).toBe(
+			"Priority must be one of low, medium, high, urgent.",
+		);
+	});
+
+	test("Todos were paginated with limit and offset.", async () => {
+		for (let i = 1; i <= 5; i++) {
+			await createTodo({ title: `Todo ${i}` });
+		}
+
+		const { statusCode, body, headers }: HttpResponse =
+			await makeHttpRequest("GET", "/todos?limit=2&offset=2");
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todos).toHaveLength(2);
+		expect(body.payload.todos[0].title).toBe("Todo 3");
+		expect(body.payload.todos[1].title).toBe("Todo 4");
+		expect(body.payload.pagination.total).toBe(5);
+		expect(body.payload.pagination.links.next).toBe(
+			"/todos?limit=2&offset=4",
+		);
+		expect(body.payload.pagination.links.prev).toBe(
+			"/todos?limit=2&offset=0",
+		);
+		expect(headers?.link).toBe(
+			'</todos?limit=2&offset=4>; rel="next", </todos?limit=2&offset=0>; rel="prev"',
+		);
+	});
+
+	test("Todos were paginated with a cursor.", async () => {
+		for (let i = 1; i <= 5; i++) {
+			await createTodo({ title: `Todo ${i}` });
+		}
+
+		let { body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?sortBy=title&orderBy=desc&limit=2",
+		);
+
+		expect(body.payload.todos[0].title).toBe("Todo 5");
+		expect(body.payload.todos[1].title).toBe("Todo 4");
+
+		({ body } = await makeHttpRequest(
+			"GET",
+			body.payload.pagination.links.next,
+		));
+
+		expect(body.payload.todos[0].title).toBe("Todo 3");
+		expect(body.payload.todos[1].title).toBe("Todo 2");
+		expect(body.payload.pagination.total).toBe(5);
+		expect(body.payload.pagination.offset).toBeUndefined();
+
+		({ body } = await makeHttpRequest(
+			"GET",
+			body.payload.pagination.links.prev,
+		));
+
+		expect(body.payload.todos[0].title).toBe("Todo 5");
+		expect(body.payload.todos[1].title).toBe("Todo 4");
+		expect(body.payload.pagination.links.prev).toBeUndefined();
+	});
+
+	test("Todos were not listed due to invalid cursor.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?cursor=abc",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Invalid cursor.");
+	});
+
+	test("Todos were not listed due to invalid limit.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?limit=0",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.details.limit).toBe("Limit must be at least 1.");
+	});
+
+	test("Todos were listed by combined filters.", async () => {
+		const todo = await createTodo({
+			title: "Write report",
+			dueAt: createUTCDate(new Date("2024-04-15")),
+		});
+		await createTodo({
+			title: "Write letter",
+			dueAt: createUTCDate(new Date("2024-06-15")),
+		});
+		await createTodo({
+			title: "Read report",
+			dueAt: createUTCDate(new Date("2024-04-20")),
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?title=write&dueAfter=2024-04-01&dueBefore=2024-05-01&sortBy=dueAt&orderBy=desc",
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todos).toHaveLength(1);
+		expect(body.payload.todos[0].id).toBe(todo.props.id);
+		expect(body.payload.pagination.total).toBe(1);
+	});
+
+	test("Todos were not listed due to backwards date range.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?dueAfter=2024-05-01&dueBefore=2024-04-01",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.details.dueBefore).toBe(
+			"Due before must be later than due after.",
+		);
+	});
+
+	test("Todo was created with tags.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/todos",
+			{
+				title: "Test Todo",
+				description: "This is a test todo",
+				tags: "Work, errands, work",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.Redirect);
+
+		const todo = await Todo.read(sql, 1);
+
+		expect(todo?.props.tags?.map((tag) => tag.name)).toEqual([
+			"errands",
+			"work",
+		]);
+	});
+
+	test("Todos were listed by any or all of their tags.", async () => {
+		const both = await createTodo({ title: "Both" });
+		const workOnly = await createTodo({ title: "Work only" });
+		await createTodo({ title: "Neither" });
+
+		await Tag.setForTodo(sql, both.props.id!, ["work", "errands"]);
+		await Tag.setForTodo(sql, workOnly.props.id!, ["work"]);
+
+		let { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?tag=work&tag=errands&sortBy=id",
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todos.map((todo: TodoProps) => todo.id)).toEqual([
+			both.props.id,
+			workOnly.props.id,
+		]);
+		expect(body.payload.todos[1].tags[0].name).toBe("work");
+
+		({ statusCode, body } = await makeHttpRequest(
+			"GET",
+			"/todos?tag=work&tag=errands&tagMatch=all",
+		));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todos).toHaveLength(1);
+		expect(body.payload.todos[0].id).toBe(both.props.id);
+	});
+
+	test("Todos were not listed due to invalid tag.", async () => {
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?tag=not%20a%20tag",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.details.tag).toBe(
+			"Tag has an item that is not in the right format.",
+		);
+	});
+
+	test("Tag was created, renamed and deleted.", async () => {
+		let { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/tags",
+			{ name: "Errands" },
+		);
+
+		expect(statusCode).toBe(StatusCode.Created);
+		expect(body.payload.tag.name).toBe("errands");
+
+		const id = body.payload.tag.id;
+
+		({ statusCode, body } = await makeHttpRequest("PUT", `/tags/${id}`, {
+			name: "chores",
+		}));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.tag.name).toBe("chores");
+
+		({ statusCode, body } = await makeHttpRequest("GET", "/tags"));
+
+		expect(body.payload.tags).toEqual([
+			expect.objectContaining({ id, name: "chores", todoCount: 0 }),
+		]);
+
+		({ statusCode } = await makeHttpRequest("DELETE", `/tags/${id}`));
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(await Tag.read(sql, id)).toBeNull();
+	});
+
+	test("Tag was not created due to duplicate name.", async () => {
+		await Tag.create(sql, "errands");
+
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
-			"GET",
-			"/todos/abc",
+			"POST",
+			"/tags",
+			{ name: "ERRANDS" },
 		);
 
-		expect(statusCode).toBe(StatusCode.BadRequest);
-		expect(body.message).toBe("Invalid ID");
-		expect(body.payload).toBeUndefined();
+		expect(statusCode).toBe(StatusCode.Conflict);
+		expect(body.message).toBe("A tag with that name already exists.");
 	});
 
-	test("Todo was not retrieved due to non-existent ID.", async () => {
-		const { statusCode, body }: HttpResponse = await makeHttpRequest(
-			"GET",
-			"/todos/1",
+	test("Project was created, renamed and deleted.", async () => {
+		let { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/projects",
+			{ name: "Sprint 12" },
 		);
 
-		expect(statusCode).toBe(StatusCode.NotFound);
-		expect(body.message).toBe("Not found");
-		expect(body.payload).toBeUndefined();
-	});
+		expect(statusCode).toBe(StatusCode.Created);
+		expect(body.payload.project.name).toBe("Sprint 12");
+		expect(body.payload.project.description).toBe("");
 
-	test("Todo was updated.", async () => {
+		const id = body.payload.project.id;
 		const todo = await createTodo();
-		const { statusCode, body }: HttpResponse = await makeHttpRequest(
-			"PUT",
-			`/todos/${todo.props.id}`,
-			{
-				title: "Updated Test Todo",
-			},
-		);
+		await todo.update({ projectId: id });
+
+		({ statusCode, body } = await makeHttpRequest("PUT", `/projects/${id}`, {
+			name: "Sprint 13",
+			description: "Ends on Friday",
+		}));
 
 		expect(statusCode).toBe(StatusCode.OK);
-		expect(body.message).toBe("Todo updated successfully!");
-		expect(body.payload.todo.title).toBe("Updated Test Todo");
-		expect(body.payload.todo.description).toBe(todo.props.description);
-		expect(body.payload.todo.status).toBe(todo.props.status);
-		expect(body.payload.todo.createdAt).toBe(
-			todo.props.createdAt.toISOString(),
-		);
-		expect(body.payload.todo.dueAt).toBe(todo.props.dueAt?.toISOString());
-		expect(body.payload.todo.editedAt).not.toBeNull();
-		expect(body.payload.todo.completedAt).toBeNull();
-	});
+		expect(body.payload.project.name).toBe("Sprint 13");
 
-	test("Todo was not updated due to invalid ID.", async () => {
-		const { statusCode, body }: HttpResponse = await makeHttpRequest(
-			"PUT",
-			"/todos/abc",
-			{
-				title: "Updated Test Todo",
-			},
-		);
+		({ statusCode, body } = await makeHttpRequest("GET", "/projects"));
 
-		expect(statusCode).toBe(StatusCode.BadRequest);
-		expect(body.message).toBe("Invalid ID");
-		expect(body.payload).toBeUndefined();
-	});
+		expect(body.payload.projects).toEqual([
+			expect.objectContaining({ id, name: "Sprint 13", todoCount: 1 }),
+		]);
 
-	test("Todo was not updated due to non-existent ID.", async () => {
-		const { statusCode, body }: HttpResponse = await makeHttpRequest(
-			"PUT",
-			"/todos/1",
-			{
-				title: "Updated Test Todo",
-			},
-		);
+		({ statusCode } = await makeHttpRequest("DELETE", `/projects/${id}`));
 
-		expect(statusCode).toBe(StatusCode.NotFound);
-		expect(body.message).toBe("Not found");
-		expect(body.payload).toBeUndefined();
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(await Project.read(sql, id)).toBeNull();
+		expect((await Todo.read(sql, todo.props.id!))?.props.projectId).toBeNull();
 	});
 
-	test("Todo was deleted.", async () => {
-		const todo = await createTodo();
+	test("Project was not created due to duplicate name.", async () => {
+		await Project.create(sql, { name: "Ops", createdAt: createUTCDate() });
+
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
-			"DELETE",
-			`/todos/${todo.props.id}`,
+			"POST",
+			"/projects",
+			{ name: "ops" },
 		);
 
-		expect(statusCode).toBe(StatusCode.OK);
-		expect(body.message).toBe("Todo deleted successfully!");
+		expect(statusCode).toBe(StatusCode.Conflict);
+		expect(body.message).toBe("A project with that name already exists.");
 	});
 
-	test("Todo was not deleted due to invalid ID.", async () => {
+	test("Todos were listed by project.", async () => {
+		const project = await Project.create(sql, {
+			name: "Personal",
+			createdAt: createUTCDate(),
+		});
+		const inProject = await createTodo({ title: "In project" });
+		await createTodo({ title: "Elsewhere" });
+		await inProject.update({ projectId: project.props.id });
+
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
-			"DELETE",
-			"/todos/abc",
+			"GET",
+			`/projects/${project.props.id}/todos?status=incomplete`,
 		);
 
-		expect(statusCode).toBe(StatusCode.BadRequest);
-		expect(body.message).toBe("Invalid ID");
-		expect(body.payload).toBeUndefined();
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.project.id).toBe(project.props.id);
+		expect(body.payload.todos).toHaveLength(1);
+		expect(body.payload.todos[0].id).toBe(inProject.props.id);
 	});
 
-	test("Todo was not deleted due to non-existent ID.", async () => {
+	test("Todos were not listed due to non-existent project.", async () => {
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
-			"DELETE",
-			"/todos/1",
+			"GET",
+			"/projects/1/todos",
 		);
 
 		expect(statusCode).toBe(StatusCode.NotFound);
-		expect(body.message).toBe("Not found");
-		expect(body.payload).toBeUndefined();
+		expect(body.message).toBe("Project not found");
 	});
 
-	test("Todo was marked as complete.", async () => {
+	test("Todo was moved between projects.", async () => {
+		const project = await Project.create(sql, {
+			name: "Ops",
+			createdAt: createUTCDate(),
+		});
 		const todo = await createTodo();
-		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+
+		let { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"PUT",
-			`/todos/${todo.props.id}/complete`,
+			`/todos/${todo.props.id}/project`,
+			{ projectId: project.props.id },
 		);
 
 		expect(statusCode).toBe(StatusCode.OK);
-		expect(body.message).toBe("Todo marked as complete!");
-		expect(body.payload.todo.status).toBe("complete");
-		expect(body.payload.todo.completedAt).not.toBeNull();
-		expect(body.payload.todo.editedAt).not.toBe(todo.props.editedAt);
-	});
+		expect(body.payload.todo.projectId).toBe(project.props.id);
 
-	test("Todo was not marked as complete due to invalid ID.", async () => {
-		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+		({ statusCode, body } = await makeHttpRequest(
 			"PUT",
-			"/todos/abc/complete",
-		);
+			`/todos/${todo.props.id}/project`,
+			{},
+		));
 
-		expect(statusCode).toBe(StatusCode.BadRequest);
-		expect(body.message).toBe("Invalid ID");
-		expect(body.payload).toBeUndefined();
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todo.projectId).toBeNull();
 	});
 
-	test("Todo was not marked as complete due to non-existent ID.", async () => {
+	test("Todo was not moved due to non-existent project.", async () => {
+		const todo = await createTodo();
+
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"PUT",
-			"/todos/1/complete",
+			`/todos/${todo.props.id}/project`,
+			{ projectId: 99 },
 		);
 
-		expect(statusCode).toBe(StatusCode.NotFound);
-		expect(body.message).toBe("Not found");
-		expect(body.payload).toBeUndefined();
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.code).toBe("VALIDATION_FAILED");
+		expect(body.details.projectId).toBe("That project doesn't exist.");
 	});
 
-	test("Todos were listed.", async () => {
-		const todo1 = await createTodo();
-		const todo2 = await createTodo();
+	test("Todos and SubTodos were found by search.", async () => {
+		const todo = await createTodo({
+			title: "Groceries",
+			description: "Buy milk and bread",
+		});
+		const otherTodo = await createTodo({
+			title: "Errands",
+			description: "Pick up the dry cleaning",
+		});
+
+		await otherTodo.addSubTodo({
+			title: "Get milk on the way home",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: otherTodo.props.id!,
+		});
+
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"GET",
-			"/todos",
+			"/todos/search?q=milk",
 		);
 
 		expect(statusCode).toBe(StatusCode.OK);
-		expect(body.message).toBe("Todo list retrieved");
-		expect(body.payload.todos).toBeInstanceOf(Array);
-		expect(body.payload.todos[0].title).toBe(todo1.props.title);
-		expect(body.payload.todos[0].description).toBe(todo1.props.description);
-		expect(body.payload.todos[0].status).toBe(todo1.props.status);
-		expect(body.payload.todos[0].createdAt).toBe(
-			todo1.props.createdAt.toISOString(),
-		);
-		expect(body.payload.todos[0].dueAt).toBe(
-			todo1.props.dueAt?.toISOString(),
-		);
-		expect(body.payload.todos[0].editedAt).toBeNull();
-		expect(body.payload.todos[0].completedAt).toBeNull();
-		expect(body.payload.todos[1].title).toBe(todo2.props.title);
-		expect(body.payload.todos[1].description).toBe(todo2.props.description);
-		expect(body.payload.todos[1].status).toBe(todo2.props.status);
-		expect(body.payload.todos[1].createdAt).toBe(
-			todo2.props.createdAt.toISOString(),
+		expect(body.message).toBe("Search results retrieved");
+		expect(body.payload.results).toHaveLength(2);
+
+		const todoHit = body.payload.results.find(
+			(result: any) => !result.subTodo,
 		);
-		expect(body.payload.todos[1].dueAt).toBe(
-			todo2.props.dueAt?.toISOString(),
+		const subTodoHit = body.payload.results.find(
+			(result: any) => result.subTodo,
 		);
-		expect(body.payload.todos[1].editedAt).toBeNull();
-		expect(body.payload.todos[1].completedAt).toBeNull();
+
+		expect(todoHit.todo.id).toBe(todo.props.id);
+		expect(todoHit.snippet).toContain("<mark>milk</mark>");
+		expect(subTodoHit.subTodo.title).toBe("Get milk on the way home");
+		expect(subTodoHit.todo.id).toBe(otherTodo.props.id);
 	});
 
-	test("Todos were listed by completion status.", async () => {
-		const todo1 = await createTodo();
-		await createTodo();
-		await createTodo();
-		await makeHttpRequest("PUT", `/todos/${todo1.props.id}/complete`);
+	test("Trashed todo was not found by search.", async () => {
+		const todo = await createTodo({
+			title: "Groceries",
+			description: "Buy milk and bread",
+		});
+		const subTodo = await todo.addSubTodo({
+			title: "Get milk on the way home",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id!,
+		});
+
+		await makeHttpRequest("DELETE", `/todos/${todo.props.id}`);
+		// Even a subtodo that is still out of the trash doesn't bring its todo back.
+		await sql`
+			UPDATE subtodos SET deleted_at = NULL WHERE id = ${subTodo.props.id!}
+		`;
+
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"GET",
-			"/todos?status=complete",
+			"/todos/search?q=milk",
 		);
 
 		expect(statusCode).toBe(StatusCode.OK);
-		expect(body.message).toBe("Todo list retrieved");
-		expect(body.payload.todos).toBeInstanceOf(Array);
-		expect(body.payload.todos).toHaveLength(1);
-		expect(body.payload.todos[0].title).toBe(todo1.props.title);
-		expect(body.payload.todos[0].description).toBe(todo1.props.description);
-		expect(body.payload.todos[0].status).toBe("complete");
-		expect(body.payload.todos[0].createdAt).toBe(
-			todo1.props.createdAt.toISOString(),
-		);
-		expect(body.payload.todos[0].dueAt).toBe(
-			todo1.props.dueAt?.toISOString(),
-		);
-		expect(body.payload.todos[0].editedAt).not.toBeNull();
-		expect(body.payload.todos[0].completedAt).not.toBeNull();
+		expect(body.payload.results).toEqual([]);
 	});
 
-	test("Todos were not listed due to invalid status.", async () => {
-		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+	test("Search results were ranked by relevance.", async () => {
+		await createTodo({
+			title: "Cleaning",
+			description: "Clean the kitchen after the party",
+		});
+		await createTodo({
+			title: "Party",
+			description: "Plan the party",
+		});
+
+		const { body }: HttpResponse = await makeHttpRequest(
 			"GET",
-			"/todos?status=abc",
+			"/todos/search?q=party",
 		);
 
-		expect(statusCode).toBe(StatusCode.BadRequest);
-		expect(body.message).toBe("Invalid filter parameter.");
-		expect(body.payload).toBeUndefined();
+		expect(body.payload.results).toHaveLength(2);
+		expect(body.payload.results[0].todo.title).toBe("Party");
+		expect(body.payload.results[0].rank).toBeGreaterThan(
+			body.payload.results[1].rank,
+		);
 	});
 
-	test("Todos were listed by due date.", async () => {
-		const todo1 = await createTodo({
-			title: "Todo 1",
-			dueAt: createUTCDate(new Date("2021-12-31")),
-		});
-		const todo2 = await createTodo({
-			title: "Todo 2",
-			dueAt: createUTCDate(new Date("2022-02-01")),
-		});
-		const todo3 = await createTodo({
-			title: "Todo 3",
-			dueAt: createUTCDate(new Date("2022-01-12")),
-		});
-		const todo4 = await createTodo({
-			title: "Todo 4",
-			dueAt: createUTCDate(new Date("2022-01-01")),
-		});
+	test("Todos were not searched due to missing search text.", async () => {
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"GET",
-			`/todos?sortBy=dueAt`,
+			"/todos/search",
 		);
 
-		expect(statusCode).toBe(StatusCode.OK);
-		expect(body.message).toBe("Todo list retrieved");
-		expect(body.payload.todos).toBeInstanceOf(Array);
-		expect(body.payload.todos).toHaveLength(4);
-		expect(body.payload.todos[0].title).toBe(todo1.props.title);
-		expect(body.payload.todos[1].title).toBe(todo4.props.title);
-		expect(body.payload.todos[2].title).toBe(todo3.props.title);
-		expect(body.payload.todos[3].title).toBe(todo2.props.title);
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Search text is required.");
 	});
 
 	test("SubTodo was added to the Todo.", async () => {
@@ -506,6 +1560,35 @@ describe("Todo HTTP operations", () => {
 		expect(body.payload.subTodos[0].todoId).toBe(subTodoProps.todoId);
 	});
 
+	test("SubTodos of other Todos were not listed.", async () => {
+		const todo = await createTodo();
+		const otherTodo = await createTodo();
+
+		await otherTodo.addSubTodo({
+			title: "Other SubTodo",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: otherTodo.props.id!,
+		});
+		await todo.addSubTodo({
+			title: "SubTodo 1",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id!,
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/todos/${todo.props.id}/subtodos?limit=1`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.subTodos).toHaveLength(1);
+		expect(body.payload.subTodos[0].title).toBe("SubTodo 1");
+		expect(body.payload.pagination.total).toBe(1);
+		expect(body.payload.pagination.links).toEqual({});
+	});
+
 	test("SubTodos were not listed due to invalid ID.", async () => {
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"GET",
@@ -643,6 +1726,32 @@ describe("Todo HTTP operations", () => {
 		expect(body.payload).toBeUndefined();
 	});
 
+	test("SubTodo was partially updated.", async () => {
+		const todo = await createTodo();
+		const subTodoProps: SubTodoProps = {
+			title: "SubTodo 1",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id!,
+		};
+
+		await todo.addSubTodo(subTodoProps);
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PATCH",
+			`/todos/${todo.props.id}/subtodos/1`,
+			{
+				status: "complete",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("SubTodo updated successfully!");
+		expect(body.payload.subTodo.title).toBe("SubTodo 1");
+		expect(body.payload.subTodo.status).toBe("complete");
+		expect(body.payload.subTodo.completedAt).not.toBeNull();
+	});
+
 	test("SubTodo was deleted.", async () => {
 		const todo = await createTodo();
 		const subTodoProps: SubTodoProps = {
@@ -0,0 +1,273 @@
+import { negotiateLocale, translate } from "../src/i18n/i18n";
+import fr from "../src/i18n/fr";
+import { resolveLocale } from "../src/middleware/resolveLocale";
+import { validateSchema } from "../src/validation/Schema";
+import { todoSchema } from "../src/validation/schemas";
+import { describeRecurrence } from "../src/recurrence";
+import { formatDueDate, formatOverdue } from "../src/utils";
+import { MethodNotAllowedError, NotFoundError } from "../src/errors";
+import Request from "../src/router/Request";
+import Response from "../src/router/Response";
+import { IncomingMessage, ServerResponse } from "http";
+import { readFile } from "fs/promises";
+import { glob } from "glob";
+import { test, describe, expect, vi } from "vitest";
+
+describe("Translation", () => {
+	test("Message was translated and its placeholders filled in.", () => {
+		expect(translate("fr", "Todo retrieved")).toBe("Tâche récupérée");
+		expect(translate("fr", "in {title}", { title: "Courses" })).toBe(
+			"dans Courses",
+		);
+		expect(translate("en", "in {title}", { title: "Groceries" })).toBe(
+			"in Groceries",
+		);
+	});
+
+	test("Missing message fell back to English.", () => {
+		expect(translate("fr", "Not in any catalog")).toBe("Not in any catalog");
+		expect(translate("fr", "Hello {name}", { name: "Elsana" })).toBe(
+			"Hello Elsana",
+		);
+	});
+
+	test("Plural form was picked by the rules of the locale.", () => {
+		expect(translate("en", "{count} days overdue", { count: 1 })).toBe(
+			"1 day overdue",
+		);
+		expect(translate("en", "{count} days overdue", { count: 0 })).toBe(
+			"0 days overdue",
+		);
+		// French counts 0 and 1 as singular.
+		expect(translate("fr", "{count} days overdue", { count: 0 })).toBe(
+			"0 jour de retard",
+		);
+		expect(translate("fr", "{count} days overdue", { count: 3 })).toBe(
+			"3 jours de retard",
+		);
+	});
+
+	test("Every message in the templates has a French translation.", async () => {
+		const files = await glob("src/views/**/*.hbs");
+		const missing: string[] = [];
+
+		for (const file of files) {
+			const template = await readFile(file, "utf-8");
+
+			for (const [, double, single] of template.matchAll(
+				/\{\{t (?:"([^"]*)"|'([^']*)')/g,
+			)) {
+				const message = double ?? single;
+
+				if (!(message in fr)) {
+					missing.push(`${file}: ${message}`);
+				}
+			}
+		}
+
+		expect(files.length).toBeGreaterThan(0);
+		expect(missing).toEqual([]);
+	});
+});
+
+describe("Locale negotiation", () => {
+	test("Most preferred locale we have was picked.", () => {
+		expect(negotiateLocale("de-DE,fr-CA;q=0.8,en;q=0.5")).toBe("fr");
+		expect(negotiateLocale("en-US,fr;q=0.9")).toBe("en");
+		expect(negotiateLocale("fr;q=0.2,en;q=0.9")).toBe("en");
+	});
+
+	test("Default locale was picked when none matched.", () => {
+		expect(negotiateLocale("de,es;q=0.5")).toBe("en");
+		expect(negotiateLocale("fr;q=0")).toBe("en");
+		expect(negotiateLocale("")).toBe("en");
+		expect(negotiateLocale()).toBe("en");
+	});
+
+	const makeRequest = (url: string, headers: Record<string, string> = {}) =>
+		new Request({
+			method: "GET",
+			url,
+			headers: { host: "localhost", ...headers },
+		} as IncomingMessage);
+
+	const makeResponse = (req: Request) => {
+		const res = { setHeader: vi.fn() };
+		return {
+			res,
+			response: new Response(req, res as unknown as ServerResponse),
+		};
+	};
+
+	test("Locale was read from the query, then the cookie, then the header.", async () => {
+		const fromHeader = makeRequest("/todos", { "accept-language": "fr-FR" });
+		const fromCookie = makeRequest("/todos", {
+			"accept-language": "fr-FR",
+			cookie: "locale=en",
+		});
+		const fromQuery = makeRequest("/todos?lang=fr", { cookie: "locale=en" });
+
+		for (const req of [fromHeader, fromCookie, fromQuery]) {
+			await resolveLocale(req, makeResponse(req).response, vi.fn());
+		}
+
+		expect(fromHeader.locale).toBe("fr");
+		expect(fromCookie.locale).toBe("en");
+		expect(fromQuery.locale).toBe("fr");
+	});
+
+	test("Chosen locale was remembered and passed to the templates.", async () => {
+		const req = makeRequest("/todos?lang=fr");
+		const { res, response } = makeResponse(req);
+		const next = vi.fn();
+
+		await resolveLocale(req, response, next);
+
+		expect(next).toHaveBeenCalledOnce();
+		expect(res.setHeader).toHaveBeenCalledWith(
+			"Set-Cookie",
+			"locale=fr; Path=/; Max-Age=31536000; SameSite=Lax",
+		);
+		expect(res.setHeader).toHaveBeenCalledWith("Content-Language", "fr");
+		expect(response.locals.locale).toBe("fr");
+		expect(response.locals.locales).toContainEqual({
+			code: "fr",
+			name: "Français",
+			href: "?lang=fr",
+		});
+	});
+
+	test("Links to the other locales kept the rest of the query.", async () => {
+		const req = makeRequest("/todos?tag=bug&lang=fr&tag=ui&page=2");
+		const { response } = makeResponse(req);
+
+		await resolveLocale(req, response, vi.fn());
+
+		expect(response.locals.locales).toContainEqual({
+			code: "en",
+			name: "English",
+			href: "?tag=bug&lang=en&tag=ui&page=2",
+		});
+	});
+
+	test("Unknown locale was ignored.", async () => {
+		const req = makeRequest("/todos?lang=xx", { cookie: "locale=yy" });
+		const { res, response } = makeResponse(req);
+
+		await resolveLocale(req, response, vi.fn());
+
+		expect(req.locale).toBe("en");
+		expect(res.setHeader).not.toHaveBeenCalledWith(
+			"Set-Cookie",
+			expect.anything(),
+		);
+	});
+});
+
+describe("Localized text", () => {
+	// Thursday, March 21st 2024.
+	const now = new Date("2024-03-21T12:00:00.000Z");
+
+	test("Due dates were written in French.", () => {
+		expect(
+			formatDueDate(new Date("2024-03-22T12:00:00.000Z"), now, "UTC", "fr"),
+		).toBe("À faire demain");
+		expect(
+			formatDueDate(new Date("2024-03-25T12:00:00.000Z"), now, "UTC", "fr"),
+		).toBe("À faire dans 4 jours");
+		expect(
+			formatDueDate(new Date("2024-05-01T12:00:00.000Z"), now, "UTC", "fr"),
+		).toBe("À faire le 1 mai 2024");
+		expect(
+			formatOverdue(new Date("2024-03-20T12:00:00.000Z"), now, "UTC", "fr"),
+		).toBe("1 jour de retard");
+	});
+
+	test("Recurrence was described in French.", () => {
+		expect(
+			describeRecurrence(
+				{
+					frequency: "weekly",
+					interval: 2,
+					weekdays: ["MO", "TH"],
+					count: 3,
+				},
+				"fr",
+			),
+		).toBe("Toutes les 2 semaines le lun., jeu., encore 3 fois");
+		expect(
+			describeRecurrence(
+				{ frequency: "monthly", interval: 1, until: "2024-12-31" },
+				"fr",
+			),
+		).toBe("Tous les mois, jusqu'au 31 décembre 2024");
+	});
+
+	test("Validation errors were written in French.", () => {
+		const { errors } = validateSchema(
+			todoSchema,
+			{ title: "", priority: "whenever" },
+			{ locale: "fr" },
+		);
+
+		expect(errors.title).toBe("Titre : ce champ est requis.");
+		expect(errors.priority).toBe(
+			"Priorité : doit être l'une des valeurs low, medium, high, urgent.",
+		);
+
+		const { errors: listErrors } = validateSchema(
+			todoSchema,
+			{ repeatWeekdays: "MO, XX" },
+			{ partial: true, locale: "fr" },
+		);
+
+		expect(listErrors.repeatWeekdays).toBe(
+			"Jours de la semaine : doit être parmi les valeurs MO, TU, WE, TH, FR, SA, SU.",
+		);
+	});
+
+	test("Errors built from values were written in French.", async () => {
+		expect(
+			translate("fr", "{before} must be later than {after}.", {
+				before: translate("fr", "Due before"),
+				after: translate("fr", "Due after").toLowerCase(),
+			}),
+		).toBe("Échéance avant : doit être après échéance après.");
+
+		const notFound = new NotFoundError(
+			"Invalid route: {method} {url}",
+			undefined,
+			{ method: "GET", url: "/tods" },
+		);
+		const methodNotAllowed = new MethodNotAllowedError(
+			"PATCH",
+			"/todos/1/complete",
+			["PUT"],
+		);
+
+		// The message stays in English, for the logs.
+		expect(notFound.message).toBe("Invalid route: GET /tods");
+
+		for (const [error, message] of [
+			[notFound, "Route invalide : GET /tods"],
+			[
+				methodNotAllowed,
+				"Méthode non autorisée : PATCH /todos/1/complete",
+			],
+		] as const) {
+			const req = new Request({
+				method: "GET",
+				url: "/tods",
+				headers: { host: "localhost", accept: "application/json" },
+			} as IncomingMessage);
+			const res = { writeHead: vi.fn(), end: vi.fn() };
+
+			req.locale = "fr";
+			await new Response(req, res as unknown as ServerResponse).sendError(
+				error,
+			);
+
+			expect(JSON.parse(res.end.mock.calls[0][0]).message).toBe(message);
+		}
+	});
+});
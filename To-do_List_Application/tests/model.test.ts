@@ -3,6 +3,12 @@ import Todo, { TodoProps } from "../src/models/Todo";
 import { SubTodoProps } from "../src/models/Todo";
 import { test, describe, expect, afterEach, afterAll } from "vitest";
 import { createUTCDate } from "../src/utils";
+import ReminderScheduler from "../src/reminders/ReminderScheduler";
+import { Notifier, Reminder } from "../src/reminders/Notifier";
+import TrashPurger from "../src/trash/TrashPurger";
+import { SubTodo } from "../src/models/Subtodo";
+import HistoryEntry from "../src/models/HistoryEntry";
+import { PreconditionFailedError } from "../src/errors";
 
 describe("Todo CRUD operations", () => {
 	// Set up the connection to the DB.
@@ -44,7 +50,14 @@ describe("Todo CRUD operations", () => {
 	 * @see https://www.postgresql.org/docs/13/sql-altersequence.html
 	 */
 	afterEach(async () => {
-		const tables = ["todos", "subtodos"];
+		const tables = [
+			"todos",
+			"subtodos",
+			"tags",
+			"projects",
+			"reminder_events",
+			"todo_history",
+		];
 
 		try {
 			for (const table of tables) {
@@ -150,23 +163,66 @@ describe("Todo CRUD operations", () => {
 
 		// List all the todos due in a week from today.
 		const todosDueInAWeek = await Todo.readAll(sql, {
-			dueAt: createUTCDate(
-				new Date(new Date().setDate(new Date().getDate() + 7)),
+			dueAfter: createUTCDate(
+				new Date(new Date().setDate(new Date().getDate() + 6)),
+			),
+			dueBefore: createUTCDate(
+				new Date(new Date().setDate(new Date().getDate() + 8)),
 			),
 		});
 
 		// Check if the created todo is in the list of todos due in a week from today.
 		expect(todosDueInAWeek).toBeInstanceOf(Array);
 		expect(todosDueInAWeek).toContainEqual(todo2);
+		expect(todosDueInAWeek).not.toContainEqual(todo3);
 
-		// List all the todos due a week ago from today.
+		// List all the todos due before today.
 		const todosDueAWeekAgo = await Todo.readAll(sql, {
-			dueAt: new Date(new Date().setDate(new Date().getDate() - 7)),
+			dueBefore: createUTCDate(),
 		});
 
 		// Check if the created todo is in the list of todos due a week ago from today.
 		expect(todosDueAWeekAgo).toBeInstanceOf(Array);
 		expect(todosDueAWeekAgo).toContainEqual(todo3);
+		expect(todosDueAWeekAgo).not.toContainEqual(todo2);
+	});
+
+	test("Todos were listed by overdue and incomplete subtodos.", async () => {
+		const overdueTodo = await createTodo({
+			dueAt: createUTCDate(
+				new Date(new Date().setDate(new Date().getDate() - 1)),
+			),
+		});
+		const upcomingTodo = await createTodo();
+
+		await upcomingTodo.addSubTodo({
+			title: "Test SubTodo",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: upcomingTodo.props.id,
+		});
+
+		const overdueTodos = await Todo.readAll(sql, { overdue: true });
+
+		expect(overdueTodos).toHaveLength(1);
+		expect(overdueTodos[0].props.id).toBe(overdueTodo.props.id);
+
+		const todosWithSubTodos = await Todo.readAll(sql, {
+			hasIncompleteSubTodos: true,
+		});
+
+		expect(todosWithSubTodos).toHaveLength(1);
+		expect(todosWithSubTodos[0].props.id).toBe(upcomingTodo.props.id);
+	});
+
+	test("Todos were listed by title substring.", async () => {
+		const todo = await createTodo({ title: "Buy 100% cotton shirt" });
+		await createTodo({ title: "Buy 100 shirts" });
+
+		const todos = await Todo.readAll(sql, { title: "100%" });
+
+		expect(todos).toHaveLength(1);
+		expect(todos[0].props.id).toBe(todo.props.id);
 	});
 
 	test("Todos were listed sorted by creation date.", async () => {
@@ -216,6 +272,23 @@ describe("Todo CRUD operations", () => {
 		expect(updatedTodo?.props.title).toBe("Updated Test Todo");
 	});
 
+	test("Todo was not changed at an out of date version.", async () => {
+		const todo = await createTodo();
+
+		expect(todo.props.version).toBe(1);
+		await todo.update({ title: "Updated Test Todo" }, [1]);
+		expect(todo.props.version).toBe(2);
+
+		await expect(todo.update({ title: "Too late" }, [1])).rejects.toThrow(
+			PreconditionFailedError,
+		);
+		await expect(todo.delete([1])).rejects.toThrow(PreconditionFailedError);
+		expect((await Todo.read(sql, todo.props.id!))?.props.title).toBe(
+			"Updated Test Todo",
+		);
+		expect(await todo.delete([2])).toBe(true);
+	});
+
 	test("Todo was deleted.", async () => {
 		// Create a new todo.
 		const todo = await createTodo();
@@ -230,6 +303,61 @@ describe("Todo CRUD operations", () => {
 		expect(deletedTodo).toBeNull();
 	});
 
+	test("Deleted todo was restored with its subtodos.", async () => {
+		const todo = await createTodo();
+		const kept = await todo.addSubTodo({
+			title: "Deleted with the todo",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id,
+		});
+		const deletedBefore = await todo.addSubTodo({
+			title: "Deleted on its own",
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id,
+		});
+
+		await deletedBefore.delete();
+		expect(await todo.delete()).toBe(true);
+		// It is in the trash, not gone.
+		expect(await Todo.read(sql, todo.props.id!)).toBeNull();
+		expect(await todo.delete()).toBe(false);
+
+		const deleted = await Todo.readDeleted(sql, todo.props.id!);
+
+		expect(await deleted?.restore()).toBe(true);
+
+		const restored = await Todo.read(sql, todo.props.id!);
+
+		expect(restored?.props.deletedAt).toBeNull();
+		// Only the subtodo that went to the trash with the todo came back with it.
+		expect(restored?.props.subTodos?.map((subTodo) => subTodo.props.id)).toEqual([
+			kept.props.id,
+		]);
+		expect(
+			(await SubTodo.readTrash(sql)).map((subTodo) => subTodo.props.id),
+		).toEqual([deletedBefore.props.id]);
+	});
+
+	test("Trash was purged after the retention period.", async () => {
+		const now = createUTCDate();
+		const purger = new TrashPurger(sql, { retention: 60_000 });
+		const old = await createTodo({ title: "Old" });
+		const recent = await createTodo({ title: "Recent" });
+
+		await old.delete();
+		await sql`
+			UPDATE todos SET deleted_at = ${new Date(now.getTime() - 120_000)}
+			WHERE id = ${old.props.id!}
+		`;
+		await recent.delete();
+
+		expect(await purger.purge(now)).toBe(1);
+		expect(await Todo.readDeleted(sql, old.props.id!)).toBeNull();
+		expect(await Todo.readDeleted(sql, recent.props.id!)).not.toBeNull();
+	});
+
 	test("Todo was marked as complete.", async () => {
 		// Create a new todo.
 		const todo = await createTodo();
@@ -247,6 +375,49 @@ describe("Todo CRUD operations", () => {
 		expect(completedTodo?.props.status).toBe("complete");
 	});
 
+	test("Every change to the todo was kept in its history.", async () => {
+		const todo = await createTodo({ title: "First title" });
+
+		await todo.update({ title: "Second title" });
+		// Saving without changing anything isn't a change.
+		await todo.update({ title: "Second title" });
+
+		const subTodo = await todo.addSubTodo({
+			title: "SubTodo",
+			status: "incomplete",
+			todoId: todo.props.id!,
+			createdAt: createUTCDate(),
+		});
+
+		await subTodo.markComplete();
+		await todo.markComplete();
+
+		const history = await HistoryEntry.readByTodoId(sql, todo.props.id!);
+
+		// The newest change comes first.
+		expect(
+			history.map(({ props }) => [props.action, props.subTodoId ?? null]),
+		).toEqual([
+			["complete", null],
+			["complete", subTodo.props.id],
+			["create", subTodo.props.id],
+			["update", null],
+			["create", null],
+		]);
+		expect(history[3].props.changes).toEqual({
+			title: { from: "First title", to: "Second title" },
+		});
+		expect(history[1].props.subTodoTitle).toBe("SubTodo");
+		expect(history[0].props.changes.status).toEqual({
+			from: "incomplete",
+			to: "complete",
+		});
+		// The history can't be rewritten.
+		await expect(
+			sql`UPDATE todo_history SET action = 'delete'`,
+		).rejects.toThrow();
+	});
+
 	test("SubTodo was added to the Todo.", async () => {
 		const todo = await createTodo();
 		const subTodoProps: SubTodoProps = {
@@ -329,4 +500,66 @@ describe("Todo CRUD operations", () => {
 		await subTodo.markComplete();
 		expect(subTodo.props.status).toBe("complete");
 	});
+
+	test("Reminders were sent once per todo and kind.", async () => {
+		const now = createUTCDate();
+		const hour = 60 * 60 * 1000;
+		const reminders: Reminder[] = [];
+		const notifier: Notifier = {
+			name: "test",
+			notify: async (reminder) => {
+				reminders.push(reminder);
+			},
+		};
+		const soon = await createTodo({
+			title: "Soon",
+			dueAt: new Date(now.getTime() + hour),
+		});
+		const late = await createTodo({
+			title: "Late",
+			dueAt: new Date(now.getTime() - hour),
+		});
+
+		await createTodo({
+			title: "Later",
+			dueAt: new Date(now.getTime() + 48 * hour),
+		});
+
+		// Two schedulers stand in for two servers sharing the database.
+		const first = new ReminderScheduler(sql, { notifiers: [notifier] });
+		const second = new ReminderScheduler(sql, { notifiers: [notifier] });
+
+		expect(await first.scan(now)).toBe(2);
+		expect(await second.scan(now)).toBe(0);
+		expect(reminders.map(({ kind, todo }) => [kind, todo.id])).toEqual([
+			["overdue", late.props.id],
+			["upcoming", soon.props.id],
+		]);
+
+		// Once it is overdue, the upcoming todo gets its overdue reminder too.
+		expect(await first.scan(new Date(now.getTime() + 2 * hour))).toBe(1);
+		expect(reminders[2].kind).toBe("overdue");
+		expect(reminders[2].todo.id).toBe(soon.props.id);
+	});
+
+	test("Reminder that couldn't be sent was tried again.", async () => {
+		const now = createUTCDate();
+		let fail = true;
+		const notifier: Notifier = {
+			name: "test",
+			notify: async () => {
+				if (fail) {
+					throw new Error("Mail server is down");
+				}
+			},
+		};
+		const scheduler = new ReminderScheduler(sql, { notifiers: [notifier] });
+
+		await createTodo({ dueAt: new Date(now.getTime() - 1000) });
+
+		expect(await scheduler.scan(now)).toBe(0);
+		fail = false;
+		expect(await scheduler.scan(now)).toBe(1);
+		expect(await scheduler.scan(now)).toBe(0);
+	});
 });
@@ -0,0 +1,159 @@
+import net from "net";
+import os from "os";
+import path from "path";
+import fs from "fs/promises";
+import SmtpNotifier from "../src/reminders/SmtpNotifier";
+import ConsoleNotifier from "../src/reminders/ConsoleNotifier";
+import { Reminder } from "../src/reminders/Notifier";
+import { test, describe, expect, afterEach, vi } from "vitest";
+
+const reminder: Reminder = {
+	kind: "overdue",
+	todo: {
+		id: 1,
+		title: "Send invoices",
+		description: "For March.\n.hidden line",
+		status: "incomplete",
+		createdAt: new Date("2024-03-01T09:00:00.000Z"),
+	},
+	dueAt: new Date("2024-03-21T09:00:00.000Z"),
+	timeZone: "UTC",
+};
+
+/**
+ * Starts an SMTP server on a free port that accepts every message and
+ * keeps what it was sent.
+ * @param dataReply What to reply after the message, to test failures.
+ */
+const startSmtpServer = async (dataReply = "250 OK") => {
+	const received = { commands: [] as string[], message: "" };
+	const server = net.createServer((socket) => {
+		let buffer = "";
+		let inData = false;
+
+		socket.setEncoding("utf8");
+		socket.write("220 test ESMTP\r\n");
+		socket.on("data", (chunk: string) => {
+			buffer += chunk;
+
+			if (inData) {
+				const end = buffer.indexOf("\r\n.\r\n");
+
+				if (end === -1) {
+					return;
+				}
+
+				received.message = buffer.slice(0, end);
+				buffer = buffer.slice(end + 5);
+				inData = false;
+				socket.write(`${dataReply}\r\n`);
+			}
+
+			let newline: number;
+
+			while (!inData && (newline = buffer.indexOf("\r\n")) !== -1) {
+				const line = buffer.slice(0, newline);
+
+				buffer = buffer.slice(newline + 2);
+				received.commands.push(line);
+
+				if (line.startsWith("EHLO")) {
+					socket.write("250-test\r\n250 8BITMIME\r\n");
+				} else if (line === "DATA") {
+					inData = true;
+					socket.write("354 Go ahead\r\n");
+				} else if (line === "QUIT") {
+					socket.end("221 Bye\r\n");
+				} else {
+					socket.write("250 OK\r\n");
+				}
+			}
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+
+	return {
+		received,
+		port: (server.address() as net.AddressInfo).port,
+		close: () => new Promise((resolve) => server.close(resolve)),
+	};
+};
+
+describe("Reminder notifiers", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	test("Reminder was emailed through the SMTP server.", async () => {
+		const smtp = await startSmtpServer();
+		const notifier = new SmtpNotifier({
+			host: "localhost",
+			port: smtp.port,
+			from: "todos@example.com",
+			to: ["me@example.com", "you@example.com"],
+		});
+
+		await notifier.notify(reminder);
+		await smtp.close();
+
+		expect(smtp.received.commands.slice(1)).toEqual([
+			"MAIL FROM:<todos@example.com>",
+			"RCPT TO:<me@example.com>",
+			"RCPT TO:<you@example.com>",
+			"DATA",
+			"QUIT",
+		]);
+		expect(smtp.received.message).toContain(
+			'Subject: Overdue: "Send invoices" was due Thursday, March 21, 2024',
+		);
+		expect(smtp.received.message).toContain(
+			"To: <me@example.com>, <you@example.com>",
+		);
+		// The line starting with a dot was escaped, so it didn't end the message.
+		expect(smtp.received.message).toContain("\r\n..hidden line\r\n");
+		expect(smtp.received.message).toContain("/todos/1");
+	});
+
+	test("Reminder that the SMTP server refused was an error.", async () => {
+		const smtp = await startSmtpServer("554 No thanks");
+		const notifier = new SmtpNotifier({
+			host: "localhost",
+			port: smtp.port,
+			from: "todos@example.com",
+			to: ["me@example.com"],
+		});
+
+		await expect(notifier.notify(reminder)).rejects.toThrow(
+			"SMTP server replied: 554 No thanks",
+		);
+		await smtp.close();
+	});
+
+	test("Reminder was logged and appended to the file.", async () => {
+		const file = path.join(os.tmpdir(), `reminders-${process.pid}.jsonl`);
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		const notifier = new ConsoleNotifier({ file });
+
+		await fs.rm(file, { force: true });
+		await notifier.notify(reminder);
+		await notifier.notify({ ...reminder, kind: "upcoming" });
+
+		const lines = (await fs.readFile(file, "utf8")).trim().split("\n");
+
+		await fs.rm(file);
+
+		expect(log).toHaveBeenCalledWith(
+			expect.stringContaining('[reminder] Overdue: "Send invoices" was due'),
+		);
+		expect(lines.map((line) => JSON.parse(line).kind)).toEqual([
+			"overdue",
+			"upcoming",
+		]);
+		expect(JSON.parse(lines[0])).toMatchObject({
+			todoId: 1,
+			title: "Send invoices",
+			dueAt: "2024-03-21T09:00:00.000Z",
+		});
+	});
+});
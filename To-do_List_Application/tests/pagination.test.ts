@@ -0,0 +1,129 @@
+import {
+	getLinkHeader,
+	getPagination,
+	Page,
+	paginate,
+	SortKey,
+} from "../src/pagination";
+import { ValidationError } from "../src/errors";
+import { test, describe, expect } from "vitest";
+
+const makePage = (props: Partial<Page<any>> = {}): Page<any> => {
+	return {
+		items: [{ id: 1 }, { id: 2 }],
+		total: 10,
+		limit: 2,
+		...props,
+	};
+};
+
+describe("Pagination links", () => {
+	test("Offset page linked to the neighbouring offsets.", () => {
+		const pagination = getPagination(
+			makePage({ offset: 4, nextCursor: "next", prevCursor: "prev" }),
+			new URL("http://localhost/todos?status=complete&limit=2&offset=4"),
+		);
+
+		expect(pagination.total).toBe(10);
+		expect(pagination.links).toEqual({
+			next: "/todos?status=complete&limit=2&offset=6",
+			prev: "/todos?status=complete&limit=2&offset=2",
+		});
+	});
+
+	test("First offset page had no previous link.", () => {
+		const pagination = getPagination(
+			makePage({ offset: 0, nextCursor: "next" }),
+			new URL("http://localhost/todos?offset=0"),
+		);
+
+		expect(pagination.links).toEqual({
+			next: "/todos?limit=2&offset=2",
+		});
+	});
+
+	test("First page without an offset linked to the next cursor.", () => {
+		const pagination = getPagination(
+			makePage({ offset: 0, nextCursor: "next" }),
+			new URL("http://localhost/todos?sortBy=title"),
+		);
+
+		expect(pagination.links).toEqual({
+			next: "/todos?sortBy=title&limit=2&cursor=next",
+		});
+	});
+
+	test("Previous link did not go below offset 0.", () => {
+		const pagination = getPagination(
+			makePage({ offset: 1, prevCursor: "prev" }),
+			new URL("http://localhost/todos?offset=1"),
+		);
+
+		expect(pagination.links).toEqual({
+			prev: "/todos?limit=2&offset=0",
+		});
+	});
+
+	test("Cursor page linked to the neighbouring cursors.", () => {
+		const pagination = getPagination(
+			makePage({ nextCursor: "abc", prevCursor: "xyz" }),
+			new URL("http://localhost/todos/1/subtodos?sortBy=title&cursor=old"),
+		);
+
+		expect(pagination.offset).toBeUndefined();
+		expect(pagination.links).toEqual({
+			next: "/todos/1/subtodos?sortBy=title&limit=2&cursor=abc",
+			prev: "/todos/1/subtodos?sortBy=title&limit=2&cursor=xyz",
+		});
+	});
+
+	test("Link header listed every link.", () => {
+		expect(
+			getLinkHeader({ next: "/todos?offset=2", prev: "/todos?offset=0" }),
+		).toEqual({
+			Link: '</todos?offset=2>; rel="next", </todos?offset=0>; rel="prev"',
+		});
+		expect(getLinkHeader({})).toEqual({});
+	});
+});
+
+describe("Cursors", () => {
+	const sort: SortKey[] = [{ property: "dueAt", order: "asc" }];
+
+	/**
+	 * Encodes a cursor like `paginate` does, with any fields of it changed.
+	 */
+	const makeCursor = (props: Record<string, unknown> = {}) => {
+		const cursor = {
+			sort: "dueAt:asc",
+			values: ["2024-03-22T12:00:00.000Z"],
+			dates: [true],
+			id: 1,
+			...props,
+		};
+
+		return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+	};
+
+	test.each([
+		["a value that isn't a string or number", { values: [{ a: 1 }] }],
+		["too few values", { values: [] }],
+		["a date that isn't one", { values: ["soon"] }],
+		["dates that aren't flags", { dates: ["yes"] }],
+		["values that aren't a list", { values: "2024-03-22" }],
+	])(
+		"Cursor with %s was refused before it reached the query.",
+		async (_, props) => {
+			// The cursor is read before the database is, so none is needed.
+			const page = paginate(undefined as any, "todos", [], sort, {
+				limit: 2,
+				cursor: makeCursor(props),
+			});
+
+			await expect(page).rejects.toThrow(ValidationError);
+			await expect(page).rejects.toMatchObject({
+				details: { cursor: "Invalid cursor." },
+			});
+		},
+	);
+});
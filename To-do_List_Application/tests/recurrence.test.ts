@@ -0,0 +1,153 @@
+import {
+	advanceRecurrence,
+	describeRecurrence,
+	getNextOccurrence,
+	toRecurrence,
+} from "../src/recurrence";
+import { ValidationError } from "../src/errors";
+import { test, describe, expect } from "vitest";
+
+// Monday, April 1st 2024.
+const monday = new Date("2024-04-01T09:00:00.000Z");
+
+describe("Recurrence", () => {
+	test("Daily todo was next due after the interval.", () => {
+		expect(
+			getNextOccurrence({ frequency: "daily", interval: 3 }, monday),
+		).toEqual(new Date("2024-04-04T09:00:00.000Z"));
+	});
+
+	test("Weekly todo was next due on its next chosen day.", () => {
+		const recurrence = {
+			frequency: "weekly" as const,
+			interval: 2,
+			weekdays: ["MO" as const, "TH" as const],
+		};
+		const thursday = getNextOccurrence(recurrence, monday)!;
+
+		expect(thursday).toEqual(new Date("2024-04-04T09:00:00.000Z"));
+		// After the last chosen day, it skips to the first one `interval` weeks later.
+		expect(getNextOccurrence(recurrence, thursday)).toEqual(
+			new Date("2024-04-15T09:00:00.000Z"),
+		);
+		expect(
+			getNextOccurrence({ frequency: "weekly", interval: 1 }, monday),
+		).toEqual(new Date("2024-04-08T09:00:00.000Z"));
+	});
+
+	test("Monthly and yearly todos kept to the end of short months.", () => {
+		expect(
+			getNextOccurrence(
+				{ frequency: "monthly", interval: 1 },
+				new Date("2024-01-31T00:00:00.000Z"),
+			),
+		).toEqual(new Date("2024-02-29T00:00:00.000Z"));
+		expect(
+			getNextOccurrence(
+				{ frequency: "yearly", interval: 1 },
+				new Date("2024-02-29T00:00:00.000Z"),
+			),
+		).toEqual(new Date("2025-02-28T00:00:00.000Z"));
+	});
+
+	test("Recurrence ended on its end date or after its count.", () => {
+		expect(
+			getNextOccurrence(
+				{ frequency: "daily", interval: 1, until: "2024-04-02" },
+				monday,
+			),
+		).toEqual(new Date("2024-04-02T09:00:00.000Z"));
+		expect(
+			getNextOccurrence(
+				{ frequency: "daily", interval: 2, until: "2024-04-02" },
+				monday,
+			),
+		).toBeNull();
+
+		const lastTwo = { frequency: "daily" as const, interval: 1, count: 2 };
+
+		expect(getNextOccurrence(lastTwo, monday)).not.toBeNull();
+		expect(getNextOccurrence(advanceRecurrence(lastTwo), monday)).toBeNull();
+	});
+
+	test("Recurring todo kept its time of day when the clocks changed.", () => {
+		// 9:00 in New York on Saturday, March 9th 2024, the day before the clocks spring forward.
+		const saturday = new Date("2024-03-09T14:00:00.000Z");
+		const daily = {
+			frequency: "daily" as const,
+			interval: 1,
+			timeZone: "America/New_York",
+		};
+
+		expect(getNextOccurrence(daily, saturday)).toEqual(
+			new Date("2024-03-10T13:00:00.000Z"),
+		);
+		// Without a time zone, it is a day later in UTC, which is 10:00 in New York.
+		expect(
+			getNextOccurrence({ frequency: "daily", interval: 1 }, saturday),
+		).toEqual(new Date("2024-03-10T14:00:00.000Z"));
+		// And back to 9:00 EST once the clocks fall back.
+		expect(
+			getNextOccurrence(
+				{ ...daily, frequency: "monthly" },
+				new Date("2024-10-09T13:00:00.000Z"),
+			),
+		).toEqual(new Date("2024-11-09T14:00:00.000Z"));
+	});
+
+	test("Recurrence was built from form fields.", () => {
+		expect(
+			toRecurrence({
+				repeat: "weekly",
+				repeatWeekdays: ["TH", "MO"],
+				repeatUntil: new Date("2024-06-30"),
+			}),
+		).toEqual({
+			frequency: "weekly",
+			interval: 1,
+			weekdays: ["MO", "TH"],
+			until: "2024-06-30",
+		});
+		// The end date is the day it is in the time zone of whoever filled in the form.
+		expect(
+			toRecurrence(
+				{ repeat: "daily", repeatUntil: new Date("2024-06-29T22:00:00.000Z") },
+				"Europe/Paris",
+			),
+		).toEqual({
+			frequency: "daily",
+			interval: 1,
+			until: "2024-06-30",
+			timeZone: "Europe/Paris",
+		});
+		expect(toRecurrence({ repeat: "never", repeatInterval: 2 })).toBeNull();
+		expect(() =>
+			toRecurrence({ repeat: "daily", repeatWeekdays: ["MO"] }),
+		).toThrow(ValidationError);
+		expect(() =>
+			toRecurrence({
+				repeat: "daily",
+				repeatUntil: new Date("2024-06-30"),
+				repeatCount: 3,
+			}),
+		).toThrow("Choose either an end date or a number of times, not both.");
+	});
+
+	test("Recurrence was described.", () => {
+		expect(
+			describeRecurrence({
+				frequency: "weekly",
+				interval: 2,
+				weekdays: ["MO", "TH"],
+				count: 3,
+			}),
+		).toBe("Every 2 weeks on Mon, Thu, 3 more times");
+		expect(
+			describeRecurrence({
+				frequency: "monthly",
+				interval: 1,
+				until: "2024-12-31",
+			}),
+		).toBe("Every month, until December 31, 2024");
+	});
+});
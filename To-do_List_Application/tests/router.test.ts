@@ -0,0 +1,424 @@
+import { IncomingMessage, ServerResponse } from "http";
+import Router, { RouteHandler } from "../src/router/Router";
+import Request from "../src/router/Request";
+import Response, { StatusCode } from "../src/router/Response";
+import { handleErrors } from "../src/middleware/handleErrors";
+import {
+	InternalError,
+	MethodNotAllowedError,
+	NotFoundError,
+} from "../src/errors";
+import { test, describe, expect, vi } from "vitest";
+
+const noop = (req: Request, res: Response) => {};
+
+/**
+ * Builds a Request for the given method and URL without a real socket.
+ * Only the fields the Router reads are filled in.
+ */
+const makeRequest = (method: string, url: string) => {
+	return new Request({
+		method,
+		url,
+		headers: { host: "localhost" },
+	} as IncomingMessage);
+};
+
+/**
+ * Builds a Response whose `send` and `sendError` are spies, so
+ * tests can check what would have been sent to the client.
+ */
+const makeResponse = (req: Request) => {
+	const response = new Response(req, {
+		headersSent: false,
+	} as ServerResponse);
+	response.send = vi.fn();
+	response.sendError = vi.fn();
+	return response;
+};
+
+describe("Router matching", () => {
+	test("Static route was matched without params.", () => {
+		const router = new Router();
+		router.get("/todos", noop);
+
+		const match = router.findMatchingHandler("GET", "/todos");
+
+		expect(match).toBeDefined();
+		expect(match?.handler).toBe(noop);
+		expect(match?.params).toEqual({});
+	});
+
+	test("Named param was captured.", () => {
+		const router = new Router();
+		router.get("/todos/:id", noop);
+
+		const match = router.findMatchingHandler("GET", "/todos/42");
+
+		expect(match?.params).toEqual({ id: "42" });
+	});
+
+	test("Multiple named params were captured.", () => {
+		const router = new Router();
+		router.put("/todos/:id/subtodos/:subid/complete", noop);
+
+		const match = router.findMatchingHandler(
+			"PUT",
+			"/todos/1/subtodos/2/complete",
+		);
+
+		expect(match?.params).toEqual({ id: "1", subid: "2" });
+	});
+
+	test("Query string was ignored when capturing params.", () => {
+		const router = new Router();
+		router.get("/todos/:id/subtodos", noop);
+
+		const match = router.findMatchingHandler(
+			"GET",
+			"/todos/7/subtodos?status=complete",
+		);
+
+		expect(match?.params).toEqual({ id: "7" });
+	});
+
+	test("Encoded param was decoded.", () => {
+		const router = new Router();
+		router.get("/tags/:name", noop);
+
+		const match = router.findMatchingHandler("GET", "/tags/waiting%20on");
+
+		expect(match?.params).toEqual({ name: "waiting on" });
+	});
+
+	test("Empty segment did not match a param.", () => {
+		const router = new Router();
+		router.get("/todos/:id/edit", noop);
+
+		expect(router.findMatchingHandler("GET", "/todos//edit")).toBeUndefined();
+	});
+
+	test("Path with a different number of segments did not match.", () => {
+		const router = new Router();
+		router.get("/todos/:id", noop);
+
+		expect(router.findMatchingHandler("GET", "/todos")).toBeUndefined();
+		expect(
+			router.findMatchingHandler("GET", "/todos/1/subtodos"),
+		).toBeUndefined();
+	});
+});
+
+describe("Router middleware", () => {
+	test("Global middleware ran in order before the handler.", async () => {
+		const router = new Router();
+		const calls: string[] = [];
+
+		router.use(async (req, res, next) => {
+			calls.push("first:before");
+			await next();
+			calls.push("first:after");
+		});
+		router.use(async (req, res, next) => {
+			calls.push("second");
+			await next();
+		});
+		router.get("/todos", () => {
+			calls.push("handler");
+		});
+
+		const req = makeRequest("GET", "/todos");
+		await router.handle(req, makeResponse(req));
+
+		expect(calls).toEqual([
+			"first:before",
+			"second",
+			"handler",
+			"first:after",
+		]);
+	});
+
+	test("Middleware that did not call next stopped the chain.", async () => {
+		const router = new Router();
+		const handler = vi.fn();
+
+		router.use(() => {});
+		router.get("/todos", handler);
+
+		const req = makeRequest("GET", "/todos");
+		await router.handle(req, makeResponse(req));
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	test("Prefix middleware only ran for matching paths.", async () => {
+		const router = new Router();
+		const middleware = vi.fn(async (req, res, next) => await next());
+
+		router.use("/todos/:id/subtodos", middleware);
+		router.get("/todos/:id", noop);
+		router.get("/todos/:id/subtodos", noop);
+
+		let req = makeRequest("GET", "/todos/1");
+		await router.handle(req, makeResponse(req));
+		expect(middleware).not.toHaveBeenCalled();
+
+		req = makeRequest("GET", "/todos/1/subtodos?status=complete");
+		await router.handle(req, makeResponse(req));
+		expect(middleware).toHaveBeenCalledOnce();
+	});
+
+	test("Route middleware ran with params before its handler.", async () => {
+		const router = new Router();
+		const seen: string[] = [];
+
+		router.get(
+			"/todos/:id",
+			async (req, res, next) => {
+				seen.push(`middleware:${req.getParam("id")}`);
+				await next();
+			},
+			(req) => {
+				seen.push("handler");
+			},
+		);
+		router.get("/todos", (req) => {
+			seen.push("other");
+		});
+
+		const req = makeRequest("GET", "/todos/5");
+		await router.handle(req, makeResponse(req));
+
+		expect(seen).toEqual(["middleware:5", "handler"]);
+	});
+
+	test("Unmatched route was sent a 404 after middleware ran.", async () => {
+		const router = new Router();
+		const middleware = vi.fn(async (req, res, next) => await next());
+		router.use(handleErrors);
+		router.use(middleware);
+
+		const req = makeRequest("GET", "/tods");
+		const res = makeResponse(req);
+		await router.handle(req, res);
+
+		expect(middleware).toHaveBeenCalledOnce();
+		expect(res.sendError).toHaveBeenCalledWith(
+			new NotFoundError("Invalid route: GET /tods"),
+		);
+	});
+
+	test("Unexpected error was sent as a generic 500.", async () => {
+		const router = new Router();
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		router.use(handleErrors);
+		router.get("/todos", () => {
+			throw new Error("connection refused: secret-db-host:5432");
+		});
+
+		const req = makeRequest("GET", "/todos");
+		const res = makeResponse(req);
+		await router.handle(req, res);
+
+		const error = vi.mocked(res.sendError).mock.calls[0][0];
+		expect(error).toBeInstanceOf(InternalError);
+		expect(error.statusCode).toBe(StatusCode.InternalServerError);
+		expect(error.message).toBe("Internal Server Error");
+		expect(consoleError).toHaveBeenCalled();
+		consoleError.mockRestore();
+	});
+
+	test("Calling next twice was rejected.", async () => {
+		const router = new Router();
+
+		router.use(async (req, res, next) => {
+			await next();
+			await next();
+		});
+		router.get("/todos", noop);
+
+		const req = makeRequest("GET", "/todos");
+
+		await expect(router.handle(req, makeResponse(req))).rejects.toThrow(
+			"next() called multiple times",
+		);
+	});
+});
+
+describe("Router method handling", () => {
+	const makeRouter = () => {
+		const router = new Router();
+		router.get("/todos", noop);
+		router.post("/todos", noop);
+		router.get("/todos/:id", noop);
+		router.put("/todos/:id", noop);
+		router.del("/todos/:id", noop);
+		router.put("/todos/:id/complete", noop);
+		return router;
+	};
+
+	test("Allowed methods were listed for a path.", () => {
+		const router = makeRouter();
+
+		expect(router.findAllowedMethods("/todos/1")).toEqual([
+			"GET",
+			"HEAD",
+			"PUT",
+			"DELETE",
+			"OPTIONS",
+		]);
+		expect(router.findAllowedMethods("/todos/1/complete")).toEqual([
+			"PUT",
+			"OPTIONS",
+		]);
+		expect(router.findAllowedMethods("/tods")).toEqual([]);
+	});
+
+	test("Wrong method on an existing path returned 405.", async () => {
+		const router = makeRouter();
+		const req = makeRequest("PATCH", "/todos/1");
+
+		const error = await router
+			.handle(req, makeResponse(req))
+			.catch((error) => error);
+
+		expect(error).toBeInstanceOf(MethodNotAllowedError);
+		expect(error.statusCode).toBe(StatusCode.MethodNotAllowed);
+		expect(error.message).toBe("Method not allowed: PATCH /todos/1");
+		expect(error.headers).toEqual({
+			Allow: "GET, HEAD, PUT, DELETE, OPTIONS",
+		});
+	});
+
+	test("Unknown path still returned 404.", async () => {
+		const router = makeRouter();
+		const req = makeRequest("PATCH", "/tods");
+
+		await expect(router.handle(req, makeResponse(req))).rejects.toThrow(
+			new NotFoundError("Invalid route: PATCH /tods"),
+		);
+	});
+
+	test("OPTIONS was answered from the routes table.", async () => {
+		const router = makeRouter();
+		const req = makeRequest("OPTIONS", "/todos");
+		const res = makeResponse(req);
+
+		await router.handle(req, res);
+
+		expect(res.send).toHaveBeenCalledWith({
+			statusCode: StatusCode.NoContent,
+			message: "Allowed methods",
+			headers: { Allow: "GET, HEAD, POST, OPTIONS" },
+		});
+	});
+
+	test("HEAD was served by the GET handler.", async () => {
+		const router = new Router();
+		const handler = vi.fn();
+		router.get("/todos/:id", handler);
+
+		const req = makeRequest("HEAD", "/todos/3");
+		await router.handle(req, makeResponse(req));
+
+		expect(handler).toHaveBeenCalledOnce();
+		expect(req.params).toEqual({ id: "3" });
+	});
+});
+
+describe("Router specificity", () => {
+	const handlers = {
+		list: vi.fn(),
+		newForm: vi.fn(),
+		show: vi.fn(),
+		edit: vi.fn(),
+		byType: vi.fn(),
+		anything: vi.fn(),
+	};
+
+	test("Static route won over a param route registered first.", () => {
+		const router = new Router();
+		router.get("/todos/:id", handlers.show);
+		router.get("/todos/new", handlers.newForm);
+
+		expect(router.findMatchingHandler("GET", "/todos/new")?.handler).toBe(
+			handlers.newForm,
+		);
+		expect(router.findMatchingHandler("GET", "/todos/1")?.handler).toBe(
+			handlers.show,
+		);
+	});
+
+	test("Static route won over a param route registered last.", () => {
+		const router = new Router();
+		router.get("/todos/new", handlers.newForm);
+		router.get("/todos/:id", handlers.show);
+
+		expect(router.findMatchingHandler("GET", "/todos/new")?.handler).toBe(
+			handlers.newForm,
+		);
+	});
+
+	test("Earlier static segment won over a later one.", () => {
+		const router = new Router();
+		router.get("/:type/new", handlers.byType);
+		router.get("/todos/:id", handlers.show);
+
+		const match = router.findMatchingHandler("GET", "/todos/new");
+
+		expect(match?.handler).toBe(handlers.show);
+		expect(match?.params).toEqual({ id: "new" });
+		expect(router.findMatchingHandler("GET", "/tags/new")?.handler).toBe(
+			handlers.byType,
+		);
+	});
+
+	test("Route with more static segments won.", () => {
+		const router = new Router();
+		router.get("/:a/:b/:c", handlers.anything);
+		router.get("/todos/:id/edit", handlers.edit);
+
+		expect(
+			router.findMatchingHandler("GET", "/todos/1/edit")?.handler,
+		).toBe(handlers.edit);
+		expect(
+			router.findMatchingHandler("GET", "/todos/1/other")?.handler,
+		).toBe(handlers.anything);
+	});
+
+	test("Registration order did not change the result.", () => {
+		const patterns: [string, RouteHandler][] = [
+			["/todos", handlers.list],
+			["/todos/:id", handlers.show],
+			["/todos/new", handlers.newForm],
+			["/todos/:id/edit", handlers.edit],
+			["/:type/:id", handlers.anything],
+		];
+
+		for (const order of [patterns, [...patterns].reverse()]) {
+			const router = new Router();
+
+			for (const [pattern, handler] of order) {
+				router.get(pattern, handler);
+			}
+
+			expect(router.findMatchingHandler("GET", "/todos")?.handler).toBe(
+				handlers.list,
+			);
+			expect(
+				router.findMatchingHandler("GET", "/todos/new")?.handler,
+			).toBe(handlers.newForm);
+			expect(router.findMatchingHandler("GET", "/todos/3")?.handler).toBe(
+				handlers.show,
+			);
+			expect(
+				router.findMatchingHandler("GET", "/todos/3/edit")?.handler,
+			).toBe(handlers.edit);
+			expect(router.findMatchingHandler("GET", "/tags/3")?.handler).toBe(
+				handlers.anything,
+			);
+		}
+	});
+});
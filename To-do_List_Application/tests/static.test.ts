@@ -0,0 +1,336 @@
+import http, { IncomingHttpHeaders, OutgoingHttpHeaders } from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { mkdtemp, mkdir, rm, utimes, writeFile } from "fs/promises";
+import zlib from "zlib";
+import Router from "../src/router/Router";
+import Request from "../src/router/Request";
+import Response, { StatusCode } from "../src/router/Response";
+import { handleErrors } from "../src/middleware/handleErrors";
+import {
+	getContentType,
+	parseRange,
+	resolveStaticPath,
+	serveStatic,
+} from "../src/middleware/serveStatic";
+import { RangeNotSatisfiableError } from "../src/errors";
+import { test, describe, expect, beforeAll, afterAll } from "vitest";
+
+const stylesheet = "body { color: rebeccapurple; }\n";
+const bigStylesheet = ".todo { margin: 0; }\n".repeat(200);
+
+let root: string;
+let server: http.Server;
+
+/**
+ * Sends a request to the test server with the path exactly as given, so
+ * that encoded dots and slashes reach it as an attacker would send them.
+ */
+const request = (
+	method: string,
+	requestPath: string,
+	headers: OutgoingHttpHeaders = {},
+): Promise<{
+	statusCode?: number;
+	headers: IncomingHttpHeaders;
+	body: string;
+	raw: Buffer;
+}> => {
+	const { port } = server.address() as AddressInfo;
+
+	return new Promise((resolve, reject) => {
+		const req = http.request(
+			{
+				host: "localhost",
+				port,
+				method,
+				path: requestPath,
+				headers: { Accept: "application/json", ...headers },
+			},
+			(res) => {
+				const chunks: Buffer[] = [];
+
+				res.on("data", (chunk) => chunks.push(chunk));
+				res.on("end", () => {
+					const raw = Buffer.concat(chunks);
+
+					resolve({
+						statusCode: res.statusCode,
+						headers: res.headers,
+						body: raw.toString("utf8"),
+						raw,
+					});
+				});
+			},
+		);
+
+		req.on("error", reject);
+		req.end();
+	});
+};
+
+beforeAll(async () => {
+	root = await mkdtemp(path.join(os.tmpdir(), "static-"));
+	await mkdir(path.join(root, "styles"));
+	await writeFile(path.join(root, "styles", "style.css"), stylesheet);
+	await writeFile(path.join(root, "styles", ".secret.css"), "hidden");
+	await writeFile(path.join(root, "styles", "big.css"), bigStylesheet);
+	await writeFile(path.join(root, "styles", "theme.css"), stylesheet);
+	await writeFile(
+		path.join(root, "styles", "theme.css.br"),
+		zlib.brotliCompressSync(stylesheet),
+	);
+	await writeFile(path.join(root, "styles", "stale.css"), stylesheet);
+	await writeFile(path.join(root, "styles", "stale.css.gz"), "out of date");
+	// The compressed copy is older than the file it was made from.
+	await utimes(path.join(root, "styles", "stale.css.gz"), 0, 0);
+	await writeFile(path.join(root, "favicon.ico"), "icon");
+	await writeFile(path.join(root, "init.sql"), "CREATE TABLE todos ();");
+
+	const router = new Router();
+
+	router.use(handleErrors);
+	router.use(serveStatic(root));
+	router.get("/todos/search", async (req, res) => {
+		await res.send({ statusCode: StatusCode.OK, message: "Search" });
+	});
+
+	server = http.createServer((req, res) =>
+		router.handle(new Request(req), new Response(new Request(req), res)),
+	);
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+	await rm(root, { recursive: true, force: true });
+});
+
+describe("Static file paths", () => {
+	test("Only files under the whitelisted paths were resolved.", () => {
+		expect(resolveStaticPath("/styles/style.css", "/app")).toBe(
+			path.resolve("/app/styles/style.css"),
+		);
+		expect(resolveStaticPath("/styles/fonts/a%20b.woff2", "/app")).toBe(
+			path.resolve("/app/styles/fonts/a b.woff2"),
+		);
+		expect(resolveStaticPath("/favicon.ico", "/app")).toBe(
+			path.resolve("/app/favicon.ico"),
+		);
+		expect(resolveStaticPath("/init.sql", "/app")).toBeNull();
+		expect(resolveStaticPath("/styles", "/app")).toBeNull();
+	});
+
+	test("Paths that try to leave their directory were refused.", () => {
+		for (const attempt of [
+			"/styles/../init.sql",
+			"/styles/..%2finit.sql",
+			"/styles/%2e%2e/%2e%2e/etc/passwd",
+			"/styles/..%5c..%5cinit.sql",
+			"/styles/%2fetc%2fpasswd",
+			"/styles/style.css%00.png",
+			"/styles/.env",
+			"/styles/%E0%A4%A",
+		]) {
+			expect(resolveStaticPath(attempt, "/app"), attempt).toBeNull();
+		}
+	});
+
+	test("Content type was picked by extension.", () => {
+		expect(getContentType("styles/style.css")).toBe(
+			"text/css; charset=utf-8",
+		);
+		expect(getContentType("images/Logo.PNG")).toBe("image/png");
+		expect(getContentType("favicon.ico")).toBe("image/x-icon");
+		expect(getContentType("styles/unknown.xyz")).toBe(
+			"application/octet-stream",
+		);
+	});
+
+	test("Range was read and cut off at the end of the file.", () => {
+		expect(parseRange("bytes=0-99", 1000)).toEqual({ start: 0, end: 99 });
+		expect(parseRange("bytes=900-", 1000)).toEqual({
+			start: 900,
+			end: 999,
+		});
+		expect(parseRange("bytes=-100", 1000)).toEqual({
+			start: 900,
+			end: 999,
+		});
+		expect(parseRange("bytes=-2000", 1000)).toEqual({ start: 0, end: 999 });
+		expect(parseRange("bytes=990-2000", 1000)).toEqual({
+			start: 990,
+			end: 999,
+		});
+		// Anything that can't be served as one range gets the whole file.
+		expect(parseRange(undefined, 1000)).toBeNull();
+		expect(parseRange("bytes=0-1, 5-6", 1000)).toBeNull();
+		expect(parseRange("bytes=9-1", 1000)).toBeNull();
+		expect(parseRange("lines=1-2", 1000)).toBeNull();
+		expect(() => parseRange("bytes=1000-", 1000)).toThrow(
+			RangeNotSatisfiableError,
+		);
+		expect(() => parseRange("bytes=-0", 1000)).toThrow(
+			RangeNotSatisfiableError,
+		);
+	});
+});
+
+describe("Static file serving", () => {
+	test("File was served with its content type and caching headers.", async () => {
+		const { statusCode, headers, body } = await request(
+			"GET",
+			"/styles/style.css",
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body).toBe(stylesheet);
+		expect(headers["content-type"]).toBe("text/css; charset=utf-8");
+		expect(headers["content-length"]).toBe(`${stylesheet.length}`);
+		expect(headers["accept-ranges"]).toBe("bytes");
+		expect(headers["cache-control"]).toMatch(/^public, max-age=\d+$/);
+
+		const cached = await request("GET", "/styles/style.css", {
+			"If-None-Match": headers.etag,
+		});
+
+		expect(cached.statusCode).toBe(StatusCode.NotModified);
+		expect(cached.body).toBe("");
+	});
+
+	test("Part of a file was served for a range.", async () => {
+		const { statusCode, headers, body } = await request(
+			"GET",
+			"/styles/style.css",
+			{ Range: "bytes=0-3" },
+		);
+
+		expect(statusCode).toBe(StatusCode.PartialContent);
+		expect(body).toBe("body");
+		expect(headers["content-range"]).toBe(`bytes 0-3/${stylesheet.length}`);
+
+		const unsatisfiable = await request("GET", "/styles/style.css", {
+			Range: "bytes=1000-",
+		});
+
+		expect(unsatisfiable.statusCode).toBe(StatusCode.RangeNotSatisfiable);
+		expect(unsatisfiable.headers["content-range"]).toBe(
+			`bytes */${stylesheet.length}`,
+		);
+
+		// A range of a copy that isn't the current one gets the whole file.
+		const changed = await request("GET", "/styles/style.css", {
+			Range: "bytes=0-3",
+			"If-Range": '"an-old-etag"',
+		});
+
+		expect(changed.statusCode).toBe(StatusCode.OK);
+		expect(changed.body).toBe(stylesheet);
+	});
+
+	test("Missing file was not found.", async () => {
+		const { statusCode, body } = await request(
+			"GET",
+			"/styles/missing.css",
+		);
+
+		expect(statusCode).toBe(StatusCode.NotFound);
+		expect(JSON.parse(body).code).toBe("NOT_FOUND");
+	});
+
+	test("Traversal out of the static directories was rejected.", async () => {
+		for (const attempt of [
+			"/styles/../init.sql",
+			"/styles/..%2finit.sql",
+			"/styles/%2e%2e/init.sql",
+			"/styles/%2e%2e%2finit.sql",
+			"/styles/..%5cinit.sql",
+			"/styles/.secret.css",
+			"/init.sql",
+		]) {
+			const { statusCode, body } = await request("GET", attempt);
+
+			expect(statusCode, attempt).toBe(StatusCode.NotFound);
+			expect(body, attempt).not.toContain("CREATE TABLE");
+		}
+	});
+
+	test("Anything but reading a static file was not allowed.", async () => {
+		const { statusCode, headers } = await request(
+			"POST",
+			"/styles/style.css",
+		);
+
+		expect(statusCode).toBe(StatusCode.MethodNotAllowed);
+		expect(headers.allow).toBe("GET, HEAD");
+
+		const head = await request("HEAD", "/favicon.ico");
+
+		expect(head.statusCode).toBe(StatusCode.OK);
+		expect(head.headers["content-length"]).toBe("4");
+	});
+
+	test("Path with a dot that isn't a static file was routed.", async () => {
+		const { statusCode } = await request("GET", "/todos/search?q=v1.2");
+
+		expect(statusCode).toBe(StatusCode.OK);
+	});
+
+	test("Big text file was compressed the way the client liked best.", async () => {
+		const { headers, raw } = await request("GET", "/styles/big.css", {
+			"Accept-Encoding": "gzip, br;q=0.5",
+		});
+
+		expect(headers["content-encoding"]).toBe("gzip");
+		expect(headers.vary).toBe("Accept-Encoding");
+		expect(headers.etag).toMatch(/-gzip"$/);
+		expect(raw.length).toBeLessThan(bigStylesheet.length);
+		expect(zlib.gunzipSync(raw).toString()).toBe(bigStylesheet);
+
+		// A small file isn't worth it, and a client that doesn't ask gets none.
+		const small = await request("GET", "/styles/style.css", {
+			"Accept-Encoding": "gzip",
+		});
+		const plain = await request("GET", "/styles/big.css");
+
+		expect(small.headers["content-encoding"]).toBeUndefined();
+		expect(small.headers.vary).toBe("Accept-Encoding");
+		expect(plain.headers["content-encoding"]).toBeUndefined();
+		expect(plain.body).toBe(bigStylesheet);
+		expect(plain.headers.etag).not.toBe(headers.etag);
+
+		// Nor is a file that is compressed already.
+		const icon = await request("GET", "/favicon.ico", {
+			"Accept-Encoding": "gzip",
+		});
+
+		expect(icon.headers["content-encoding"]).toBeUndefined();
+	});
+
+	test("Precompressed copy of a file was sent instead of it.", async () => {
+		const { headers, raw } = await request("GET", "/styles/theme.css", {
+			"Accept-Encoding": "gzip, deflate, br",
+		});
+
+		expect(headers["content-encoding"]).toBe("br");
+		expect(headers["content-type"]).toBe("text/css; charset=utf-8");
+		expect(headers["content-length"]).toBe(`${raw.length}`);
+		expect(zlib.brotliDecompressSync(raw).toString()).toBe(stylesheet);
+
+		// Only gzip is accepted, and there is no gzip copy, so the file is too small to compress.
+		const gzip = await request("GET", "/styles/theme.css", {
+			"Accept-Encoding": "gzip",
+		});
+
+		expect(gzip.headers["content-encoding"]).toBeUndefined();
+		expect(gzip.body).toBe(stylesheet);
+
+		const stale = await request("GET", "/styles/stale.css", {
+			"Accept-Encoding": "gzip",
+		});
+
+		expect(stale.headers["content-encoding"]).toBeUndefined();
+		expect(stale.body).toBe(stylesheet);
+	});
+});
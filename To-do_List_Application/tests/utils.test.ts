@@ -0,0 +1,106 @@
+import {
+	formatDateToISO,
+	formatDueDate,
+	formatOverdue,
+	fromZonedTime,
+	getDaysBetween,
+	parseDate,
+	toZonedTime,
+} from "../src/utils";
+import { test, describe, expect } from "vitest";
+
+// Thursday, March 21st 2024, late in the evening in London.
+const now = new Date("2024-03-21T22:30:00.000Z");
+const daysFromNow = (days: number) =>
+	new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+describe("Due dates", () => {
+	test("Days were counted by calendar day.", () => {
+		expect(getDaysBetween(now, new Date("2024-03-22T00:10:00.000Z"))).toBe(1);
+		expect(getDaysBetween(now, new Date("2024-03-21T00:00:00.000Z"))).toBe(0);
+		expect(getDaysBetween(now, new Date("2024-03-18T23:59:00.000Z"))).toBe(-3);
+		// It is already Friday in Tokyo, and still Thursday in Toronto.
+		expect(
+			getDaysBetween(now, new Date("2024-03-22T12:00:00.000Z"), "Asia/Tokyo"),
+		).toBe(0);
+		expect(
+			getDaysBetween(
+				now,
+				new Date("2024-03-22T12:00:00.000Z"),
+				"America/Toronto",
+			),
+		).toBe(1);
+	});
+
+	test("Due date was described relative to now.", () => {
+		expect(formatDueDate(daysFromNow(0), now, "UTC")).toBe("Due today");
+		expect(formatDueDate(daysFromNow(1), now, "UTC")).toBe("Due tomorrow");
+		expect(formatDueDate(daysFromNow(-1), now, "UTC")).toBe("Due yesterday");
+		expect(formatDueDate(daysFromNow(3), now, "UTC")).toBe(
+			"Due 3 days from now",
+		);
+		expect(formatDueDate(daysFromNow(-3), now, "UTC")).toBe("Due 3 days ago");
+		expect(formatDueDate(daysFromNow(30), now, "UTC")).toBe(
+			"Due April 20, 2024",
+		);
+		expect(formatDueDate(daysFromNow(30), now, "Asia/Tokyo")).toBe(
+			"Due April 21, 2024",
+		);
+	});
+
+	test("Overdue todo was described by how late it is.", () => {
+		expect(formatOverdue(daysFromNow(1), now, "UTC")).toBe("");
+		expect(
+			formatOverdue(new Date("2024-03-21T09:00:00.000Z"), now, "UTC"),
+		).toBe("overdue");
+		expect(formatOverdue(daysFromNow(-1), now, "UTC")).toBe("1 day overdue");
+		expect(formatOverdue(daysFromNow(-3), now, "UTC")).toBe("3 days overdue");
+	});
+});
+
+describe("Time zones", () => {
+	const newYork = "America/New_York";
+
+	test("Wall clock was read in the time zone, before and after the clocks changed.", () => {
+		// New York springs forward at 2:00 on March 10th 2024, from UTC-5 to UTC-4.
+		expect(toZonedTime(new Date("2024-03-10T06:30:00.000Z"), newYork)).toEqual(
+			new Date("2024-03-10T01:30:00.000Z"),
+		);
+		expect(toZonedTime(new Date("2024-03-10T07:30:00.000Z"), newYork)).toEqual(
+			new Date("2024-03-10T03:30:00.000Z"),
+		);
+	});
+
+	test("Wall clock time was found across a change of the clocks.", () => {
+		expect(
+			fromZonedTime(new Date("2024-03-10T10:00:00.000Z"), newYork),
+		).toEqual(new Date("2024-03-10T14:00:00.000Z"));
+		// 2:30 doesn't happen on March 10th, so it moves forward to 3:30.
+		expect(
+			fromZonedTime(new Date("2024-03-10T02:30:00.000Z"), newYork),
+		).toEqual(new Date("2024-03-10T07:30:00.000Z"));
+		// 1:30 happens twice on November 3rd, and the first one is in EDT.
+		expect(
+			fromZonedTime(new Date("2024-11-03T01:30:00.000Z"), newYork),
+		).toEqual(new Date("2024-11-03T05:30:00.000Z"));
+		expect(
+			fromZonedTime(new Date("2024-11-03T10:00:00.000Z"), newYork),
+		).toEqual(new Date("2024-11-03T15:00:00.000Z"));
+	});
+
+	test("Form dates were read in the time zone, and others as they are.", () => {
+		expect(parseDate("2024-03-21", "Europe/Paris")).toEqual(
+			new Date("2024-03-20T23:00:00.000Z"),
+		);
+		expect(parseDate("2024-07-21T09:00", "Europe/Paris")).toEqual(
+			new Date("2024-07-21T07:00:00.000Z"),
+		);
+		expect(parseDate("2024-03-21T09:00:00.000Z", "Europe/Paris")).toEqual(
+			new Date("2024-03-21T09:00:00.000Z"),
+		);
+		expect(parseDate("tomorrow", "UTC").getTime()).toBeNaN();
+		expect(
+			formatDateToISO(new Date("2024-03-20T23:00:00.000Z"), "Europe/Paris"),
+		).toBe("2024-03-21");
+	});
+});
@@ -0,0 +1,298 @@
+import { validateSchema } from "../src/validation/Schema";
+import {
+	todoListQuerySchema,
+	todoParamsSchema,
+	todoSchema,
+} from "../src/validation/schemas";
+import { validate } from "../src/middleware/validate";
+import { resolveTimeZone } from "../src/middleware/resolveTimeZone";
+import { ValidationError } from "../src/errors";
+import Request from "../src/router/Request";
+import Response, { StatusCode } from "../src/router/Response";
+import { IncomingMessage, ServerResponse } from "http";
+import { test, describe, expect, vi } from "vitest";
+
+describe("Schema validation", () => {
+	test("Valid todo was coerced.", () => {
+		const { value, errors } = validateSchema(todoSchema, {
+			title: "  Test Todo  ",
+			description: "This is a test todo",
+			dueAt: "2024-03-21",
+			method: "PUT",
+		});
+
+		expect(errors).toEqual({});
+		expect(value.title).toBe("Test Todo");
+		expect(value.dueAt).toBeInstanceOf(Date);
+		expect(value.dueAt.toISOString()).toBe("2024-03-21T00:00:00.000Z");
+		expect(Object.keys(value).includes("method")).toBe(false);
+	});
+
+	test("Missing required fields were reported per field.", () => {
+		const { errors } = validateSchema(todoSchema, { title: "" });
+
+		expect(errors).toEqual({
+			title: "Title is required.",
+			description: "Description is required.",
+		});
+	});
+
+	test("Invalid fields were reported per field.", () => {
+		const { errors } = validateSchema(todoSchema, {
+			title: "a".repeat(256),
+			description: "This is a test todo",
+			status: "done",
+			dueAt: "not a date",
+		});
+
+		expect(errors).toEqual({
+			title: "Title must be at most 255 characters.",
+			status: "Status must be one of incomplete, complete.",
+			dueAt: "Due date must be a valid date.",
+		});
+	});
+
+	test("Empty optional field from a form was treated as missing.", () => {
+		const { value, errors } = validateSchema(todoSchema, {
+			title: "Test Todo",
+			description: "This is a test todo",
+			dueAt: "",
+		});
+
+		expect(errors).toEqual({});
+		expect(Object.keys(value).includes("dueAt")).toBe(false);
+	});
+
+	test("Partial validation only checked supplied fields.", () => {
+		const { value, errors } = validateSchema(
+			todoSchema,
+			{ dueAt: "2024-03-21" },
+			{ partial: true },
+		);
+
+		expect(errors).toEqual({});
+		expect(Object.keys(value)).toEqual(["dueAt"]);
+	});
+
+	test("Partial validation kept nullable fields sent as null.", () => {
+		const { value, errors } = validateSchema(
+			todoSchema,
+			{ dueAt: null, projectId: "", priority: null },
+			{ partial: true },
+		);
+
+		expect(errors).toEqual({});
+		expect(value).toEqual({ dueAt: null, projectId: null });
+	});
+
+	test("Partial validation still rejected a blanked required field.", () => {
+		const { errors } = validateSchema(
+			todoSchema,
+			{ title: "" },
+			{ partial: true },
+		);
+
+		expect(errors).toEqual({ title: "Title is required." });
+	});
+
+	test("Query defaults were filled in and custom messages used.", () => {
+		let result = validateSchema(todoListQuerySchema, {});
+
+		expect(result.value).toEqual({
+			orderBy: "asc",
+			limit: 20,
+		});
+
+		result = validateSchema(todoListQuerySchema, {
+			sortBy: "updatedAt",
+			status: "abc",
+			limit: "500",
+		});
+
+		expect(result.errors).toEqual({
+			status: "Invalid filter parameter.",
+			sortBy: "Invalid sortBy parameter.",
+			limit: "Limit must be at most 100.",
+		});
+	});
+
+	test("Filter params were coerced and checked.", () => {
+		const { value, errors } = validateSchema(todoListQuerySchema, {
+			dueAfter: "2024-04-01",
+			overdue: "on",
+			hasIncompleteSubTodos: "false",
+			completedBefore: "someday",
+		});
+
+		expect(value.dueAfter).toEqual(new Date("2024-04-01"));
+		expect(value.overdue).toBe(true);
+		expect(value.hasIncompleteSubTodos).toBe(false);
+		expect(errors).toEqual({
+			completedBefore: "Completed before must be a valid date.",
+		});
+		expect(
+			validateSchema(todoListQuerySchema, { overdue: "maybe" }).errors,
+		).toEqual({ overdue: "Overdue must be true or false." });
+	});
+
+	test("List params were split, trimmed and checked.", () => {
+		expect(
+			validateSchema(todoListQuerySchema, { tag: ["work", " home "] }).value,
+		).toMatchObject({ tag: ["work", "home"] });
+		expect(validateSchema(todoSchema, { tags: "a, ,b" }).value.tags).toEqual([
+			"a",
+			"b",
+		]);
+		expect(validateSchema(todoSchema, {}).value.tags).toEqual([]);
+		expect(
+			validateSchema(todoListQuerySchema, { tag: "ok,not ok" }).errors,
+		).toEqual({ tag: "Tag has an item that is not in the right format." });
+	});
+
+	test("Numeric params were coerced and checked.", () => {
+		expect(validateSchema(todoParamsSchema, { id: "7" }).value).toEqual({
+			id: 7,
+		});
+		expect(validateSchema(todoParamsSchema, { id: "abc" }).errors).toEqual(
+			{ id: "Invalid ID" },
+		);
+		expect(validateSchema(todoParamsSchema, { id: "1.5" }).errors).toEqual(
+			{ id: "Invalid ID" },
+		);
+	});
+});
+
+describe("Validation middleware", () => {
+	/**
+	 * Builds a Request with an already parsed body, as the
+	 * `parseBody` middleware would have left it.
+	 */
+	const makeRequest = (
+		body: Record<string, any>,
+		accept = "*/*",
+		headers: Record<string, string> = {},
+	) => {
+		const req = new Request({
+			method: "POST",
+			url: "/todos",
+			headers: { host: "localhost", accept, ...headers },
+		} as IncomingMessage);
+		req.body = body;
+		return req;
+	};
+
+	const makeResponse = (req: Request) => {
+		const response = new Response(req, {} as ServerResponse);
+		response.send = vi.fn();
+		return response;
+	};
+
+	test("Invalid body threw a ValidationError with per-field details.", async () => {
+		const req = makeRequest({ description: "This is a test todo" });
+		const res = makeResponse(req);
+		const next = vi.fn();
+
+		const error = await Promise.resolve(
+			validate({ body: todoSchema })(req, res, next),
+		).catch((error) => error);
+
+		expect(next).not.toHaveBeenCalled();
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.statusCode).toBe(StatusCode.BadRequest);
+		expect(error.code).toBe("VALIDATION_FAILED");
+		expect(error.message).toBe("Title is required.");
+		expect(error.details).toEqual({ title: "Title is required." });
+	});
+
+	test("Invalid body re-rendered the form for HTML clients.", async () => {
+		const req = makeRequest({ title: "Test Todo" }, "text/html");
+		const res = makeResponse(req);
+
+		await validate({
+			body: todoSchema,
+			form: { template: "NewFormView", key: "todo" },
+		})(req, res, vi.fn());
+
+		expect(res.send).toHaveBeenCalledWith({
+			statusCode: StatusCode.BadRequest,
+			message: "Description is required.",
+			template: "NewFormView",
+			payload: {
+				errorMessage: "Description is required.",
+				errors: { description: "Description is required." },
+				todo: { title: "Test Todo" },
+			},
+		});
+	});
+
+	test("Empty partial body was rejected.", async () => {
+		const req = makeRequest({ method: "PATCH" });
+		const res = makeResponse(req);
+
+		await expect(
+			Promise.resolve(
+				validate({ body: todoSchema, partial: true })(req, res, vi.fn()),
+			),
+		).rejects.toThrow(
+			"Request body must include at least one of title, description, status, priority, dueAt, tags, projectId, repeat, repeatInterval, repeatWeekdays, repeatUntil or repeatCount.",
+		);
+	});
+
+	test("Valid body was coerced before the handler ran.", async () => {
+		const req = makeRequest({
+			title: "Test Todo",
+			description: "This is a test todo",
+			dueAt: "2024-03-21",
+		});
+		const next = vi.fn();
+
+		await validate({ body: todoSchema })(req, makeResponse(req), next);
+
+		expect(next).toHaveBeenCalledOnce();
+		expect(req.body.dueAt).toBeInstanceOf(Date);
+	});
+
+	test("Form date was read in the time zone of the request.", async () => {
+		const body = {
+			title: "Test Todo",
+			description: "This is a test todo",
+			dueAt: "2024-03-21T09:00",
+		};
+		const fromCookie = makeRequest(body, "text/html", {
+			cookie: "theme=dark; timeZone=Asia%2FTokyo",
+		});
+		const fromHeader = makeRequest({ ...body }, "*/*", {
+			cookie: "timeZone=Asia%2FTokyo",
+			"x-time-zone": "America/Toronto",
+		});
+
+		for (const req of [fromCookie, fromHeader]) {
+			const res = makeResponse(req);
+
+			await resolveTimeZone(req, res, async () => {
+				await validate({ body: todoSchema })(req, res, vi.fn());
+			});
+		}
+
+		expect(fromCookie.timeZone).toBe("Asia/Tokyo");
+		expect(fromCookie.body.dueAt.toISOString()).toBe(
+			"2024-03-21T00:00:00.000Z",
+		);
+		// The header wins over the cookie.
+		expect(fromHeader.timeZone).toBe("America/Toronto");
+		expect(fromHeader.body.dueAt.toISOString()).toBe(
+			"2024-03-21T13:00:00.000Z",
+		);
+	});
+
+	test("Unknown time zone was ignored.", async () => {
+		const req = makeRequest({}, "*/*", { "x-time-zone": "Mars/Olympus" });
+		const res = makeResponse(req);
+		const timeZone = req.timeZone;
+
+		await resolveTimeZone(req, res, vi.fn());
+
+		expect(req.timeZone).toBe(timeZone);
+		expect(res.locals.timeZone).toBe(timeZone);
+	});
+});